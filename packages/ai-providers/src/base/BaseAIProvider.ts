@@ -1,39 +1,167 @@
+import { z, ZodType, ZodTypeDef } from 'zod';
 import {
   AIProvider,
   AIOperation,
   AIRewriteResult,
+  AIRewriteOutputSchema,
+  AISummaryOutputSchema,
+  AIKeyPointsOutputSchema,
+  AIEnrichmentOutputSchema,
+  AIEntitiesOutputSchema,
+  AIClaimsOutputSchema,
+  AIQuotesOutputSchema,
+  AIExtractedEntity,
+  AIExtractedClaim,
+  AIExtractedQuote,
+  AIHeadline,
+  AIHeadlineOutputSchema,
+  AISynthesisOutputSchema,
+  AISynthesisResult,
+  AISynthesisSource,
+  AITimelineEntry,
+  AITimelineOutputSchema,
+  AITimelineSource,
+  AIStyleLearningOutputSchema,
+  AIStyleLearningResult,
   BiasAnalysis,
+  BiasAnalysisSchema,
+  LANGUAGE_NAMES,
   StyleProfile,
   AIProviderError,
+  AIResponseValidationError,
+  AIUsageListener,
+  AIUsageRecord,
+  PromptRegistry,
+  PromptTemplateKey,
 } from '@news-curator/shared';
+import { TextChunk, estimateTokens, splitIntoChunks } from './chunking';
+import { AnchoredCitation, anchorCitationMarkers } from './citations';
+import { createJSONStringFieldStreamer, parseJSONResponse } from './structured-output';
+import {
+  BUILT_IN_PROMPT_VERSION,
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_RESPONSE_FORMATS,
+  PromptVariables,
+  renderPromptTemplate,
+} from './prompts';
+import {
+  LENGTH_INSTRUCTIONS,
+  PREDEFINED_STYLE_INSTRUCTIONS,
+  TONE_INSTRUCTIONS,
+  getTechnicalLevelInstruction,
+} from './styles';
+
+/** Articles above this size are rewritten chunk by chunk */
+const MAX_CHUNK_TOKENS = 2500;
+const CHUNK_OVERLAP_TOKENS = 200;
+
+/** Each source of a synthesis is cut to this size so the prompt stays bounded */
+const MAX_SYNTHESIS_SOURCE_TOKENS = 1500;
+
+/** Each article a timeline is built from is cut to this size */
+const MAX_TIMELINE_SOURCE_TOKENS = 800;
+
+/** Each writing sample used to learn a style is cut to this size */
+const MAX_STYLE_SAMPLE_TOKENS = 800;
+
+type TokenUsage = { input: number; output: number; total: number };
+
+// Rewritten text with citation markers removed and citations anchored in it
+type AnchoredRewrite = { content: string; citations: AnchoredCitation[] };
+
+// Output of the call that smooths the join between two rewritten chunks
+const StitchOutputSchema = z.object({
+  content: z.string().min(1),
+});
+
+export interface AICallOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /** The operation this call performs (used for costing and by offline providers) */
+  operation?: AIOperation;
+  /** Style profile the output should follow, for style-dependent operations */
+  style?: StyleProfile;
+  /** The article text the prompt was built from */
+  content?: string;
+  /** Position of this call's text when a long article is rewritten in chunks */
+  chunk?: { index: number; total: number };
+  /** Ask the provider for a JSON response where it supports a JSON mode */
+  responseFormat?: 'json';
+  /** Labelled source texts the prompt was built from, for multi-source operations */
+  sources?: Array<{ label: string; content: string; publishedAt?: Date }>;
+}
 
 export abstract class BaseAIProvider implements AIProvider {
   abstract name: string;
+  model?: string;
+  private usageListeners: AIUsageListener[] = [];
+  private promptRegistry: PromptRegistry | null = null;
 
   protected abstract callAPI(
     prompt: string,
     systemPrompt?: string,
-    options?: {
-      temperature?: number;
-      maxTokens?: number;
-    }
+    options?: AICallOptions
   ): Promise<{
     content: string;
     tokensUsed: { input: number; output: number; total: number };
   }>;
 
+  /**
+   * Streaming variant of callAPI. Providers that support streaming override
+   * this; the default falls back to a single call and emits the whole text.
+   */
+  protected async callAPIStream(
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: AICallOptions | undefined,
+    onToken: (token: string) => void
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number; total: number };
+  }> {
+    const response = await this.callAPI(prompt, systemPrompt, options);
+    onToken(response.content);
+    return response;
+  }
+
+  onUsage(listener: AIUsageListener): void {
+    this.usageListeners.push(listener);
+  }
+
+  setPromptRegistry(registry: PromptRegistry): void {
+    this.promptRegistry = registry;
+  }
+
   async rewriteArticle(content: string, style: StyleProfile): Promise<AIRewriteResult> {
-    const startTime = Date.now();
+    return this.performRewrite(content, style);
+  }
 
-    const systemPrompt = this.buildRewriteSystemPrompt(style);
-    const userPrompt = this.buildRewriteUserPrompt(content, style);
+  async rewriteArticleStream(
+    content: string,
+    style: StyleProfile,
+    onToken: (token: string) => void
+  ): Promise<AIRewriteResult> {
+    return this.performRewrite(content, style, onToken);
+  }
+
+  private async performRewrite(
+    content: string,
+    style: StyleProfile,
+    onToken?: (token: string) => void
+  ): Promise<AIRewriteResult> {
+    const startTime = Date.now();
+    const promptVersions: Record<string, number> = {};
 
     try {
-      const response = await this.callAPI(userPrompt, systemPrompt, {
-        temperature: 0.7,
-        maxTokens: 4000,
+      const chunks = splitIntoChunks(content, {
+        maxTokens: MAX_CHUNK_TOKENS,
+        overlapTokens: CHUNK_OVERLAP_TOKENS,
       });
 
+      const response = chunks.length <= 1
+        ? await this.rewriteSinglePass(content, style, promptVersions, onToken)
+        : await this.rewriteInChunks(chunks, style, promptVersions, onToken);
+
       const processingTimeMs = Date.now() - startTime;
       const cost = this.estimateCost(
         AIOperation.REWRITE,
@@ -42,12 +170,20 @@ export abstract class BaseAIProvider implements AIProvider {
       );
 
       return {
-        content: response.content,
+        content: response.data.content,
+        citations: response.data.citations,
         processingTimeMs,
         tokensUsed: response.tokensUsed,
         cost,
+        provider: this.name,
+        model: this.model,
+        promptVersions,
       };
     } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
       throw new AIProviderError(
         `Failed to rewrite article: ${error instanceof Error ? error.message : 'Unknown error'}`,
         { originalError: error }
@@ -55,17 +191,277 @@ export abstract class BaseAIProvider implements AIProvider {
     }
   }
 
+  private async rewriteSinglePass(
+    content: string,
+    style: StyleProfile,
+    promptVersions: Record<string, number>,
+    onToken?: (token: string) => void
+  ): Promise<{ data: AnchoredRewrite; tokensUsed: TokenUsage }> {
+    const systemPrompt = this.buildRewriteSystemPrompt(style, promptVersions);
+    const userPrompt = this.buildRewriteUserPrompt(content, style, promptVersions);
+
+    const response = await this.callAPIForJSON(
+      userPrompt,
+      systemPrompt,
+      AIRewriteOutputSchema,
+      {
+        temperature: 0.7,
+        maxTokens: 4000,
+        operation: AIOperation.REWRITE,
+        style,
+        content,
+      },
+      // Only the rewritten text is streamed, not the surrounding JSON
+      onToken && createJSONStringFieldStreamer('content', onToken)
+    );
+
+    return {
+      data: anchorCitationMarkers(response.data.content, response.data.citations),
+      tokensUsed: response.tokensUsed,
+    };
+  }
+
+  /**
+   * Map-reduce rewrite for articles too long for a single prompt.
+   *
+   * Chunks are rewritten in order, each seeing the end of the previous
+   * original and rewritten text. A stitching call then smooths the opening
+   * of every chunk after the first so the joins read as one article. When
+   * streaming, each chunk is emitted once its transition has been stitched.
+   */
+  private async rewriteInChunks(
+    chunks: TextChunk[],
+    style: StyleProfile,
+    promptVersions: Record<string, number>,
+    onToken?: (token: string) => void
+  ): Promise<{ data: AnchoredRewrite; tokensUsed: TokenUsage }> {
+    const systemPrompt = this.buildRewriteSystemPrompt(style, promptVersions);
+    const tokensUsed: TokenUsage = { input: 0, output: 0, total: 0 };
+    const addUsage = (usage: TokenUsage) => {
+      tokensUsed.input += usage.input;
+      tokensUsed.output += usage.output;
+      tokensUsed.total += usage.total;
+    };
+
+    const rewritten: string[] = [];
+    const citations: AnchoredCitation[] = [];
+    let offset = 0;
+
+    for (let index = 0; index < chunks.length; index++) {
+      const chunk = chunks[index];
+      const previousRewrite = rewritten[index - 1];
+
+      const response = await this.callAPIForJSON(
+        this.buildChunkRewriteUserPrompt(chunk, index, chunks.length, promptVersions, previousRewrite),
+        systemPrompt,
+        AIRewriteOutputSchema,
+        {
+          temperature: 0.7,
+          maxTokens: 4000,
+          operation: AIOperation.REWRITE,
+          style,
+          content: chunk.text,
+          chunk: { index, total: chunks.length },
+        }
+      );
+      addUsage(response.tokensUsed);
+
+      const unstitched = response.data.content.trim();
+      let text = unstitched;
+
+      if (previousRewrite) {
+        const stitched = await this.stitchTransition(previousRewrite, text, systemPrompt, promptVersions);
+        addUsage(stitched.tokensUsed);
+        text = stitched.content;
+      }
+
+      const anchored = anchorCitationMarkers(text, response.data.citations);
+
+      // Stitching may drop markers from the opening paragraph; anchor those
+      // citations where their marker was before stitching
+      const lost = response.data.citations.filter(citation => !text.includes(`[^${citation.marker}]`));
+      const fallback = anchorCitationMarkers(unstitched, lost).citations.map(citation => ({
+        ...citation,
+        position: Math.min(citation.position, anchored.content.length),
+      }));
+
+      // Positions are relative to the chunk; shift them into the whole article
+      for (const citation of [...anchored.citations, ...fallback]) {
+        citations.push({ ...citation, position: offset + citation.position });
+      }
+
+      text = anchored.content;
+      rewritten.push(text);
+      offset += text.length + 2;
+      onToken?.(index > 0 ? `\n\n${text}` : text);
+    }
+
+    return {
+      data: {
+        content: rewritten.join('\n\n'),
+        citations: citations.sort((a, b) => a.position - b.position),
+      },
+      tokensUsed,
+    };
+  }
+
+  /**
+   * Rewrite the opening paragraph of a chunk so it flows from the previous one
+   */
+  private async stitchTransition(
+    previousText: string,
+    text: string,
+    systemPrompt: string,
+    promptVersions: Record<string, number>
+  ): Promise<{ content: string; tokensUsed: TokenUsage }> {
+    const paragraphs = text.split(/\n\s*\n/);
+    const opening = paragraphs[0];
+    const previousParagraphs = previousText.split(/\n\s*\n/);
+    const previousClosing = previousParagraphs[previousParagraphs.length - 1];
+
+    const prompt = this.renderPrompt(
+      PromptTemplateKey.REWRITE_STITCH,
+      { previousClosing, opening },
+      promptVersions
+    );
+
+    const response = await this.callAPIForJSON(prompt, systemPrompt, StitchOutputSchema, {
+      temperature: 0.3,
+      maxTokens: Math.max(200, estimateTokens(opening) * 2),
+      operation: AIOperation.REWRITE,
+      content: opening,
+    });
+
+    const stitchedOpening = response.data.content.trim() || opening;
+
+    return {
+      content: [stitchedOpening, ...paragraphs.slice(1)].join('\n\n'),
+      tokensUsed: response.tokensUsed,
+    };
+  }
+
+  /**
+   * Call the model for a JSON response and validate it against a schema.
+   * An invalid response gets one repair round in which the model is shown
+   * what was wrong; if that still fails, an AIResponseValidationError with
+   * the raw response is thrown rather than guessing at a result.
+   */
+  protected async callAPIForJSON<T>(
+    prompt: string,
+    systemPrompt: string | undefined,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    options: AICallOptions,
+    onToken?: (token: string) => void
+  ): Promise<{ data: T; tokensUsed: TokenUsage }> {
+    const callOptions: AICallOptions = { ...options, responseFormat: 'json' };
+
+    const response = await this.trackedCall(prompt, systemPrompt, callOptions, onToken);
+
+    const first = validateJSON(response.content, schema);
+    if (first.success) {
+      return { data: first.data, tokensUsed: response.tokensUsed };
+    }
+
+    const repairPrompt = `${prompt}
+
+Your previous response could not be used:
+${first.issues}
+
+Previous response:
+${response.content}
+
+Respond again with valid JSON only, in the format described above.`;
+
+    const repaired = await this.trackedCall(repairPrompt, systemPrompt, callOptions);
+    const tokensUsed: TokenUsage = {
+      input: response.tokensUsed.input + repaired.tokensUsed.input,
+      output: response.tokensUsed.output + repaired.tokensUsed.output,
+      total: response.tokensUsed.total + repaired.tokensUsed.total,
+    };
+
+    const second = validateJSON(repaired.content, schema);
+    if (second.success) {
+      return { data: second.data, tokensUsed };
+    }
+
+    const operation = options.operation ?? 'unknown';
+    throw new AIResponseValidationError(
+      `AI provider returned an invalid ${operation} response`,
+      {
+        operation,
+        rawResponse: repaired.content,
+        issues: second.issues,
+      }
+    );
+  }
+
+  /**
+   * Make a model call and report its tokens, cost and latency to usage listeners
+   */
+  private async trackedCall(
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: AICallOptions,
+    onToken?: (token: string) => void
+  ): Promise<{ content: string; tokensUsed: TokenUsage }> {
+    const startTime = Date.now();
+    const operation = options.operation ?? AIOperation.REWRITE;
+
+    try {
+      const response = onToken
+        ? await this.callAPIStream(prompt, systemPrompt, options, onToken)
+        : await this.callAPI(prompt, systemPrompt, options);
+
+      this.reportUsage({
+        operation,
+        tokensUsed: response.tokensUsed,
+        cost: this.estimateCost(operation, response.tokensUsed.input, response.tokensUsed.output),
+        latencyMs: Date.now() - startTime,
+        success: true,
+      });
+
+      return response;
+    } catch (error) {
+      this.reportUsage({
+        operation,
+        tokensUsed: { input: 0, output: 0, total: 0 },
+        cost: 0,
+        latencyMs: Date.now() - startTime,
+        success: false,
+      });
+
+      throw error;
+    }
+  }
+
+  private reportUsage(record: Omit<AIUsageRecord, 'provider' | 'model'>): void {
+    for (const listener of this.usageListeners) {
+      try {
+        listener({ ...record, provider: this.name, model: this.model });
+      } catch (error) {
+        // Usage tracking must never break the call itself
+        console.error('AI usage listener failed:', error);
+      }
+    }
+  }
+
   async generateSummary(content: string, maxLength: number): Promise<string> {
-    const prompt = `Summarize the following article in approximately ${maxLength} words. Be concise and capture the main points:\n\n${content}`;
+    const prompt = this.renderPrompt(PromptTemplateKey.SUMMARY, { content, maxLength });
 
     try {
-      const response = await this.callAPI(prompt, undefined, {
+      const response = await this.callAPIForJSON(prompt, undefined, AISummaryOutputSchema, {
         temperature: 0.5,
-        maxTokens: Math.ceil(maxLength * 1.5),
+        maxTokens: Math.ceil(maxLength * 1.5) + 50,
+        operation: AIOperation.SUMMARY,
+        content,
       });
 
-      return response.content;
+      return response.data.summary;
     } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
       throw new AIProviderError(
         `Failed to generate summary: ${error instanceof Error ? error.message : 'Unknown error'}`,
         { originalError: error }
@@ -74,23 +470,22 @@ export abstract class BaseAIProvider implements AIProvider {
   }
 
   async extractKeyPoints(content: string, count: number = 5): Promise<string[]> {
-    const prompt = `Extract exactly ${count} key points from the following article. Return them as a numbered list:\n\n${content}`;
+    const prompt = this.renderPrompt(PromptTemplateKey.KEY_POINTS, { content, count });
 
     try {
-      const response = await this.callAPI(prompt, undefined, {
+      const response = await this.callAPIForJSON(prompt, undefined, AIKeyPointsOutputSchema, {
         temperature: 0.3,
         maxTokens: 500,
+        operation: AIOperation.KEY_POINTS,
+        content,
       });
 
-      // Parse the numbered list
-      const lines = response.content.split('\n').filter(line => line.trim());
-      const keyPoints = lines
-        .map(line => line.replace(/^\d+\.\s*/, '').trim())
-        .filter(point => point.length > 0)
-        .slice(0, count);
-
-      return keyPoints;
+      return response.data.keyPoints.slice(0, count);
     } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
       throw new AIProviderError(
         `Failed to extract key points: ${error instanceof Error ? error.message : 'Unknown error'}`,
         { originalError: error }
@@ -99,48 +494,46 @@ export abstract class BaseAIProvider implements AIProvider {
   }
 
   async detectBias(content: string): Promise<BiasAnalysis> {
-    const prompt = `Analyze the following article for political or ideological bias. Provide:
-1. Overall bias (left/center-left/center/center-right/right/unknown)
-2. Confidence level (0-1)
-3. Specific indicators of bias
-4. Alternative perspectives that could balance the article
-
-Article:
-${content}
-
-Respond in JSON format.`;
+    const prompt = this.renderPrompt(PromptTemplateKey.BIAS_DETECTION, { content });
 
     try {
-      const response = await this.callAPI(prompt, undefined, {
+      const response = await this.callAPIForJSON(prompt, undefined, BiasAnalysisSchema, {
         temperature: 0.3,
         maxTokens: 1000,
+        operation: AIOperation.BIAS_DETECTION,
+        content,
       });
 
-      // Parse JSON response
-      const analysis = JSON.parse(response.content);
-      return analysis;
+      return response.data;
     } catch (error) {
-      // Return unknown bias if analysis fails
-      return {
-        overallBias: 'unknown',
-        confidence: 0,
-        indicators: [],
-        alternativePerspectives: [],
-      };
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
+      throw new AIProviderError(
+        `Failed to detect bias: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error }
+      );
     }
   }
 
   async enrichWithContext(content: string, topic: string): Promise<string> {
-    const prompt = `Enrich the following article about "${topic}" with additional context, background information, and relevant facts. Add context naturally without changing the core message:\n\n${content}`;
+    const prompt = this.renderPrompt(PromptTemplateKey.CONTEXT_ENRICHMENT, { content, topic });
 
     try {
-      const response = await this.callAPI(prompt, undefined, {
+      const response = await this.callAPIForJSON(prompt, undefined, AIEnrichmentOutputSchema, {
         temperature: 0.7,
         maxTokens: 5000,
+        operation: AIOperation.CONTEXT_ENRICHMENT,
+        content,
       });
 
-      return response.content;
+      return response.data.content;
     } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
       throw new AIProviderError(
         `Failed to enrich with context: ${error instanceof Error ? error.message : 'Unknown error'}`,
         { originalError: error }
@@ -148,63 +541,476 @@ Respond in JSON format.`;
     }
   }
 
+  async extractEntities(content: string): Promise<AIExtractedEntity[]> {
+    const prompt = this.renderPrompt(PromptTemplateKey.ENTITY_EXTRACTION, { content });
+
+    try {
+      const response = await this.callAPIForJSON(prompt, undefined, AIEntitiesOutputSchema, {
+        temperature: 0.2,
+        maxTokens: 1500,
+        operation: AIOperation.ENTITY_EXTRACTION,
+        content,
+      });
+
+      return response.data.entities;
+    } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
+      throw new AIProviderError(
+        `Failed to extract entities: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  async extractClaims(content: string): Promise<AIExtractedClaim[]> {
+    const prompt = this.renderPrompt(PromptTemplateKey.CLAIM_EXTRACTION, { content });
+
+    try {
+      const response = await this.callAPIForJSON(prompt, undefined, AIClaimsOutputSchema, {
+        temperature: 0.2,
+        maxTokens: 2000,
+        operation: AIOperation.CLAIM_EXTRACTION,
+        content,
+      });
+
+      return response.data.claims;
+    } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
+      throw new AIProviderError(
+        `Failed to extract claims: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  async extractQuotes(content: string): Promise<AIExtractedQuote[]> {
+    const prompt = this.renderPrompt(PromptTemplateKey.QUOTE_EXTRACTION, { content });
+
+    try {
+      const response = await this.callAPIForJSON(prompt, undefined, AIQuotesOutputSchema, {
+        temperature: 0.1,
+        maxTokens: 2000,
+        operation: AIOperation.QUOTE_EXTRACTION,
+        content,
+      });
+
+      return response.data.quotes;
+    } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
+      throw new AIProviderError(
+        `Failed to extract quotes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Write a headline and teaser for an article in the given style. The
+   * style's rewrite instructions are used as the system prompt, so the
+   * headline reads like the rewrite it introduces.
+   */
+  async generateHeadline(
+    content: string,
+    title: string,
+    style: StyleProfile,
+    issues?: string[]
+  ): Promise<AIHeadline> {
+    const systemPrompt = this.buildRewriteSystemPrompt(style);
+    const prompt = this.renderPrompt(PromptTemplateKey.HEADLINE, {
+      content,
+      title,
+      issues: issues?.map(issue => `- ${issue}`).join('\n'),
+    });
+
+    try {
+      const response = await this.callAPIForJSON(prompt, systemPrompt, AIHeadlineOutputSchema, {
+        temperature: 0.6,
+        maxTokens: 200,
+        operation: AIOperation.HEADLINE,
+        style,
+        content,
+      });
+
+      return response.data;
+    } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
+      throw new AIProviderError(
+        `Failed to generate headline: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * List the dated events of a story from articles about it. The model refers
+   * to the articles by label, and every entry is checked to name one of them.
+   */
+  async generateTimeline(sources: AITimelineSource[]): Promise<AITimelineEntry[]> {
+    const labelled = sources.map((source, index) => ({
+      label: `S${index + 1}`,
+      source,
+      content: splitIntoChunks(source.content, {
+        maxTokens: MAX_TIMELINE_SOURCE_TOKENS,
+        overlapTokens: 0,
+      })[0]?.text ?? '',
+    }));
+    const idsByLabel = new Map(labelled.map(({ label, source }) => [label, source.id]));
+
+    const schema = AITimelineOutputSchema.superRefine((output, ctx) => {
+      for (const entry of output.entries) {
+        if (!idsByLabel.has(entry.source)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Unknown source label "${entry.source}"; use one of ${[...idsByLabel.keys()].join(', ')}`,
+          });
+        }
+      }
+    });
+
+    try {
+      const prompt = this.renderPrompt(PromptTemplateKey.TIMELINE, {
+        sourceCount: sources.length,
+        sources: labelled
+          .map(({ label, source, content }) =>
+            `[${label}] ${source.sourceName}, ${source.publishedAt.toISOString().slice(0, 10)}: ${source.title}\n\n${content}`
+          )
+          .join('\n\n---\n\n'),
+      });
+
+      const response = await this.callAPIForJSON(prompt, undefined, schema, {
+        temperature: 0.2,
+        maxTokens: 2000,
+        operation: AIOperation.TIMELINE,
+        sources: labelled.map(({ label, source, content }) => ({
+          label,
+          content,
+          publishedAt: source.publishedAt,
+        })),
+      });
+
+      return response.data.entries.map(entry => ({
+        date: entry.date,
+        event: entry.event,
+        sourceArticleId: idsByLabel.get(entry.source)!,
+      }));
+    } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
+      throw new AIProviderError(
+        `Failed to generate timeline: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Combine several reports of the same story into one article in the given
+   * style. Every claim is attributed to the articles reporting it, and
+   * points the sources disagree on are returned alongside the text.
+   */
+  async synthesizeArticles(
+    sources: AISynthesisSource[],
+    style: StyleProfile
+  ): Promise<AISynthesisResult> {
+    const startTime = Date.now();
+    const promptVersions: Record<string, number> = {};
+
+    // The model refers to sources by short labels rather than article ids
+    const labelled = sources.map((source, index) => ({
+      label: `S${index + 1}`,
+      source,
+      // Keep only the opening of long articles, cut on a paragraph boundary
+      content: splitIntoChunks(source.content, {
+        maxTokens: MAX_SYNTHESIS_SOURCE_TOKENS,
+        overlapTokens: 0,
+      })[0]?.text ?? '',
+    }));
+    const idsByLabel = new Map(labelled.map(({ label, source }) => [label, source.id]));
+
+    const schema = AISynthesisOutputSchema.superRefine((output, ctx) => {
+      const labels = [
+        ...output.claims.flatMap(claim => claim.sources),
+        ...output.disagreements.flatMap(d => d.positions.map(position => position.source)),
+      ];
+
+      for (const label of labels) {
+        if (!idsByLabel.has(label)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Unknown source label "${label}"; use one of ${[...idsByLabel.keys()].join(', ')}`,
+          });
+        }
+      }
+    });
+
+    try {
+      const systemPrompt = this.buildRewriteSystemPrompt(style, promptVersions);
+      const prompt = this.renderPrompt(
+        PromptTemplateKey.SYNTHESIS,
+        {
+          sourceCount: sources.length,
+          sources: labelled
+            .map(({ label, source, content }) => `[${label}] ${source.sourceName}: ${source.title}\n\n${content}`)
+            .join('\n\n---\n\n'),
+        },
+        promptVersions
+      );
+
+      const response = await this.callAPIForJSON(prompt, systemPrompt, schema, {
+        temperature: 0.5,
+        maxTokens: 4000,
+        operation: AIOperation.SYNTHESIS,
+        style,
+        sources: labelled.map(({ label, content }) => ({ label, content })),
+      });
+
+      const { content, claims, disagreements } = response.data;
+
+      return {
+        content,
+        citations: claims.flatMap(claim =>
+          claim.sources.map(label => ({
+            text: claim.text,
+            sourceArticleId: idsByLabel.get(label)!,
+            position: Math.max(0, content.indexOf(claim.text)),
+          }))
+        ),
+        disagreements: disagreements.map(disagreement => ({
+          topic: disagreement.topic,
+          positions: disagreement.positions.map(position => ({
+            sourceArticleId: idsByLabel.get(position.source)!,
+            claim: position.claim,
+          })),
+        })),
+        processingTimeMs: Date.now() - startTime,
+        tokensUsed: response.tokensUsed,
+        cost: this.estimateCost(
+          AIOperation.SYNTHESIS,
+          response.tokensUsed.input,
+          response.tokensUsed.output
+        ),
+        provider: this.name,
+        model: this.model,
+        promptVersions,
+      };
+    } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
+      throw new AIProviderError(
+        `Failed to synthesize articles: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error }
+      );
+    }
+  }
+
+  /**
+   * Derive style profile settings, and a custom prompt, from samples of the
+   * writing a reader wants their news to read like
+   */
+  async learnStyle(samples: string[]): Promise<AIStyleLearningResult> {
+    const startTime = Date.now();
+    const promptVersions: Record<string, number> = {};
+
+    const trimmed = samples.map(sample =>
+      splitIntoChunks(sample, { maxTokens: MAX_STYLE_SAMPLE_TOKENS, overlapTokens: 0 })[0]?.text ?? ''
+    );
+
+    try {
+      const prompt = this.renderPrompt(
+        PromptTemplateKey.STYLE_LEARNING,
+        {
+          sampleCount: trimmed.length,
+          samples: trimmed
+            .map((sample, index) => `[Sample ${index + 1}]\n${sample}`)
+            .join('\n\n---\n\n'),
+        },
+        promptVersions
+      );
+
+      const response = await this.callAPIForJSON(prompt, undefined, AIStyleLearningOutputSchema, {
+        temperature: 0.3,
+        maxTokens: 1000,
+        operation: AIOperation.STYLE_LEARNING,
+        content: trimmed.join('\n\n'),
+      });
+
+      return {
+        ...response.data,
+        processingTimeMs: Date.now() - startTime,
+        tokensUsed: response.tokensUsed,
+        cost: this.estimateCost(
+          AIOperation.STYLE_LEARNING,
+          response.tokensUsed.input,
+          response.tokensUsed.output
+        ),
+        provider: this.name,
+        model: this.model,
+        promptVersions,
+      };
+    } catch (error) {
+      if (error instanceof AIResponseValidationError) {
+        throw error;
+      }
+
+      throw new AIProviderError(
+        `Failed to learn style: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { originalError: error }
+      );
+    }
+  }
+
   abstract estimateCost(
     operation: AIOperation,
     inputTokens: number,
     outputTokens?: number
   ): number;
 
-  protected buildRewriteSystemPrompt(style: StyleProfile): string {
-    let basePrompt = 'You are an expert news writer who rewrites articles while maintaining accuracy and citing sources.';
-
-    if (style.customPrompt) {
-      return `${basePrompt}\n\n${style.customPrompt}`;
-    }
-
-    // Build prompt based on predefined style
-    const toneMap = {
-      formal: 'Use a formal, professional tone.',
-      casual: 'Use a casual, conversational tone.',
-      neutral: 'Use a balanced, neutral tone.',
+  /**
+   * Render the active version of a prompt template (from the registry, or the
+   * built-in one), appending its response format. The version used is
+   * recorded in `promptVersions` when given.
+   */
+  protected renderPrompt(
+    key: PromptTemplateKey,
+    variables: PromptVariables,
+    promptVersions?: Record<string, number>
+  ): string {
+    const active = this.promptRegistry?.getActiveTemplate(key) ?? {
+      version: BUILT_IN_PROMPT_VERSION,
+      template: DEFAULT_PROMPT_TEMPLATES[key],
     };
 
-    const lengthMap = {
-      concise: 'Be very concise. Aim for 50-70% of the original length.',
-      medium: 'Aim for similar length to the original.',
-      detailed: 'Provide detailed explanations. You may expand the content by 20-30%.',
-    };
+    if (promptVersions) {
+      promptVersions[key] = active.version;
+    }
 
-    const techLevelMap: Record<number, string> = {
-      1: 'Write for a general audience with no technical knowledge.',
-      5: 'Write for an informed reader with basic knowledge.',
-      10: 'Write for an expert audience with deep technical knowledge.',
-    };
+    const prompt = renderPromptTemplate(active.template, variables);
+    const responseFormat = PROMPT_RESPONSE_FORMATS[key];
 
-    const techLevel =
-      techLevelMap[style.technicalLevel] ||
-      'Write for a reader with moderate technical knowledge.';
+    return responseFormat ? `${prompt}\n\n${responseFormat}` : prompt;
+  }
 
-    return `${basePrompt}
+  protected buildRewriteSystemPrompt(
+    style: StyleProfile,
+    promptVersions?: Record<string, number>
+  ): string {
+    const targetLanguage = style.targetLanguage ? LANGUAGE_NAMES[style.targetLanguage] : undefined;
 
-${toneMap[style.tone]}
-${lengthMap[style.length]}
-${techLevel}
+    if (style.customPrompt) {
+      return this.renderPrompt(
+        PromptTemplateKey.REWRITE_SYSTEM_CUSTOM,
+        {
+          customPrompt: style.customPrompt,
+          targetLanguage,
+          feedbackGuidance: style.feedbackGuidance,
+        },
+        promptVersions
+      );
+    }
 
-${style.includeKeyPoints ? 'Include key points at the beginning.' : ''}
-${style.includeContext ? 'Add relevant context and background information.' : ''}
+    const predefinedStyle = style.predefinedStyle
+      ? PREDEFINED_STYLE_INSTRUCTIONS[style.predefinedStyle]
+      : undefined;
+
+    return this.renderPrompt(
+      PromptTemplateKey.REWRITE_SYSTEM,
+      {
+        tone: style.tone,
+        length: style.length,
+        technicalLevel: style.technicalLevel,
+        predefinedStyle: style.predefinedStyle,
+        toneInstruction: TONE_INSTRUCTIONS[style.tone],
+        lengthInstruction: LENGTH_INSTRUCTIONS[style.length],
+        technicalLevelInstruction: getTechnicalLevelInstruction(style.technicalLevel),
+        styleInstruction: predefinedStyle?.instruction,
+        structureInstruction: predefinedStyle?.structure,
+        includeKeyPoints: style.includeKeyPoints,
+        includeContext: style.includeContext,
+        targetLanguage,
+        feedbackGuidance: style.feedbackGuidance,
+      },
+      promptVersions
+    );
+  }
 
-Maintain all factual information and cite sources appropriately.`;
+  protected buildRewriteUserPrompt(
+    content: string,
+    style: StyleProfile,
+    promptVersions?: Record<string, number>
+  ): string {
+    return this.renderPrompt(
+      PromptTemplateKey.REWRITE_USER,
+      {
+        content,
+        tone: style.tone,
+        length: style.length,
+        technicalLevel: style.technicalLevel,
+      },
+      promptVersions
+    );
   }
 
-  protected buildRewriteUserPrompt(content: string, style: StyleProfile): string {
-    return `Rewrite the following article according to the specified style:
+  protected buildChunkRewriteUserPrompt(
+    chunk: TextChunk,
+    index: number,
+    total: number,
+    promptVersions?: Record<string, number>,
+    previousRewrite?: string
+  ): string {
+    return this.renderPrompt(
+      PromptTemplateKey.REWRITE_CHUNK,
+      {
+        content: chunk.text,
+        partNumber: index + 1,
+        totalParts: total,
+        isLastPart: index === total - 1,
+        previousOriginal: chunk.context,
+        previousRewrite: previousRewrite?.slice(-CHUNK_OVERLAP_TOKENS * 4),
+      },
+      promptVersions
+    );
+  }
+}
 
-${content}
+function validateJSON<T>(
+  raw: string,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): { success: true; data: T } | { success: false; issues: string } {
+  let parsed: unknown;
+  try {
+    parsed = parseJSONResponse(raw);
+  } catch (error) {
+    return {
+      success: false,
+      issues: `Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+    };
+  }
 
-Ensure the rewritten version:
-1. Maintains all factual accuracy
-2. Preserves the core message
-3. Follows the specified tone and style
-4. Includes proper citations where needed`;
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data };
   }
+
+  return {
+    success: false,
+    issues: result.error.errors
+      .map(issue => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n'),
+  };
 }
@@ -0,0 +1,113 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Number of most recent calls used to compute the error rate */
+  windowSize?: number;
+  /** Minimum calls in the window before the circuit may open */
+  minimumCalls?: number;
+  /** Error rate (0-1) at which the circuit opens */
+  errorRateThreshold?: number;
+  /** How long the circuit stays open before allowing a trial call */
+  cooldownMs?: number;
+}
+
+/**
+ * Tracks the recent error rate of a single provider and stops sending it
+ * traffic once it is clearly failing. After a cooldown a single trial call
+ * is let through (half-open); its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private outcomes: boolean[] = [];
+  private state: CircuitState = 'closed';
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly windowSize: number;
+  private readonly minimumCalls: number;
+  private readonly errorRateThreshold: number;
+  private readonly cooldownMs: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.windowSize = options.windowSize ?? 20;
+    this.minimumCalls = options.minimumCalls ?? 5;
+    this.errorRateThreshold = options.errorRateThreshold ?? 0.5;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+  }
+
+  /**
+   * Whether a call may be attempted right now
+   */
+  canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.reset();
+      return;
+    }
+
+    this.record(true);
+  }
+
+  recordFailure(): void {
+    if (this.state === 'half-open') {
+      this.open();
+      return;
+    }
+
+    this.record(false);
+
+    if (
+      this.outcomes.length >= this.minimumCalls &&
+      this.getErrorRate() >= this.errorRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getErrorRate(): number {
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+
+    const failures = this.outcomes.filter(success => !success).length;
+    return failures / this.outcomes.length;
+  }
+
+  private record(success: boolean): void {
+    this.outcomes.push(success);
+
+    if (this.outcomes.length > this.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.trialInFlight = false;
+  }
+
+  private reset(): void {
+    this.state = 'closed';
+    this.outcomes = [];
+    this.trialInFlight = false;
+  }
+}
@@ -0,0 +1,125 @@
+export interface ChunkOptions {
+  /** Maximum estimated tokens of new text per chunk */
+  maxTokens: number;
+  /** Estimated tokens of preceding text repeated as context for each chunk */
+  overlapTokens: number;
+}
+
+export interface TextChunk {
+  /** Text this chunk is responsible for */
+  text: string;
+  /** Trailing text of the previous chunk, for continuity only */
+  context: string;
+}
+
+/**
+ * Rough token estimate (~4 characters per token). Good enough for sizing
+ * prompts without pulling in a model-specific tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split text into chunks on paragraph boundaries.
+ *
+ * Paragraphs are packed greedily up to `maxTokens`; a paragraph that is too
+ * large on its own is split on sentence boundaries instead. Each chunk after
+ * the first carries the last paragraphs of its predecessor (up to
+ * `overlapTokens`) as context so it can be rewritten without losing the thread.
+ */
+export function splitIntoChunks(content: string, options: ChunkOptions): TextChunk[] {
+  const units = splitParagraphs(content).flatMap(paragraph =>
+    estimateTokens(paragraph) > options.maxTokens
+      ? splitOversized(paragraph, options.maxTokens)
+      : [paragraph]
+  );
+
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const unit of units) {
+    const tokens = estimateTokens(unit);
+
+    if (current.length > 0 && currentTokens + tokens > options.maxTokens) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+
+    current.push(unit);
+    currentTokens += tokens;
+  }
+
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups.map((group, index) => ({
+    text: group.join('\n\n'),
+    context: index > 0 ? takeTail(groups[index - 1], options.overlapTokens) : '',
+  }));
+}
+
+function splitParagraphs(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0);
+}
+
+/**
+ * Break a single oversized paragraph into sentence groups, falling back to a
+ * hard character split for text without sentence punctuation.
+ */
+function splitOversized(paragraph: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4;
+  const sentences = paragraph.split(/(?<=[.!?])\s+/);
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (sentence.length > maxChars) {
+      if (current) {
+        pieces.push(current);
+        current = '';
+      }
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        pieces.push(sentence.slice(start, start + maxChars));
+      }
+      continue;
+    }
+
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+function takeTail(paragraphs: string[], maxTokens: number): string {
+  const tail: string[] = [];
+  let tokens = 0;
+
+  for (let i = paragraphs.length - 1; i >= 0; i--) {
+    const paragraphTokens = estimateTokens(paragraphs[i]);
+    if (tail.length > 0 && tokens + paragraphTokens > maxTokens) {
+      break;
+    }
+    tail.unshift(paragraphs[i]);
+    tokens += paragraphTokens;
+  }
+
+  // A single paragraph may still exceed the budget; keep only its end
+  const text = tail.join('\n\n');
+  return text.length > maxTokens * 4 ? text.slice(-maxTokens * 4) : text;
+}
@@ -0,0 +1,37 @@
+import { AIRewriteOutput, AIRewriteResult, CITATION_MARKER_PATTERN } from '@news-curator/shared';
+
+export type AnchoredCitation = NonNullable<AIRewriteResult['citations']>[number];
+
+/**
+ * Remove citation markers from rewritten text, anchoring each citation at the
+ * character offset its marker occupied in the cleaned text. A marker used
+ * more than once is anchored at its first occurrence; citations whose marker
+ * does not appear are left out.
+ */
+export function anchorCitationMarkers(
+  content: string,
+  citations: AIRewriteOutput['citations']
+): { content: string; citations: AnchoredCitation[] } {
+  const positions = new Map<number, number>();
+  let removed = 0;
+
+  const cleaned = content.replace(CITATION_MARKER_PATTERN, (marker, number: string, offset: number) => {
+    const key = Number(number);
+    if (!positions.has(key)) {
+      positions.set(key, offset - removed);
+    }
+    removed += marker.length;
+    return '';
+  });
+
+  const anchored = citations
+    .filter(citation => positions.has(citation.marker))
+    .map(citation => ({
+      text: citation.text,
+      url: citation.url,
+      position: positions.get(citation.marker)!,
+    }))
+    .sort((a, b) => a.position - b.position);
+
+  return { content: cleaned, citations: anchored };
+}
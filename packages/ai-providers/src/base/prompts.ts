@@ -0,0 +1,238 @@
+import { PromptTemplateKey } from '@news-curator/shared';
+
+export type PromptVariables = Record<string, string | number | boolean | undefined>;
+
+/** Version number reported when a built-in template is used */
+export const BUILT_IN_PROMPT_VERSION = 1;
+
+/**
+ * Built-in prompt templates, used until a registry provides newer versions.
+ *
+ * `{{name}}` inserts a variable; `{{#name}}...{{/name}}` is only kept when the
+ * variable is set and `{{^name}}...{{/name}}` only when it is not.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKey, string> = {
+  [PromptTemplateKey.REWRITE_SYSTEM]: `You are an expert news writer who rewrites articles while maintaining accuracy and citing sources.
+
+{{toneInstruction}}
+{{lengthInstruction}}
+{{technicalLevelInstruction}}
+{{#styleInstruction}}
+{{styleInstruction}}
+{{/styleInstruction}}{{#structureInstruction}}
+Structure: {{structureInstruction}}
+{{/structureInstruction}}
+{{#includeKeyPoints}}Include key points at the beginning.{{/includeKeyPoints}}
+{{#includeContext}}Add relevant context and background information.{{/includeContext}}
+{{#targetLanguage}}
+Write in {{targetLanguage}}, translating the article if it is in another language. Keep the names of people, organizations and places as the article spells them. Keep direct quotes word for word in the article's language, each followed by a faithful {{targetLanguage}} translation in brackets.
+{{/targetLanguage}}{{#feedbackGuidance}}
+Readers of earlier rewrites in this style asked for the following:
+{{feedbackGuidance}}
+{{/feedbackGuidance}}
+Maintain all factual information and cite sources appropriately.`,
+
+  [PromptTemplateKey.REWRITE_SYSTEM_CUSTOM]: `You are an expert news writer who rewrites articles while maintaining accuracy and citing sources.
+
+{{customPrompt}}
+{{#targetLanguage}}
+Write in {{targetLanguage}}, translating the article if it is in another language. Keep the names of people, organizations and places as the article spells them. Keep direct quotes word for word in the article's language, each followed by a faithful {{targetLanguage}} translation in brackets.
+{{/targetLanguage}}{{#feedbackGuidance}}
+Readers of earlier rewrites in this style asked for the following:
+{{feedbackGuidance}}
+{{/feedbackGuidance}}`,
+
+  [PromptTemplateKey.REWRITE_USER]: `Rewrite the following article according to the specified style:
+
+{{content}}
+
+Ensure the rewritten version:
+1. Maintains all factual accuracy
+2. Preserves the core message
+3. Follows the specified tone and style
+4. Marks each claim that comes from the article with a citation marker [^1], [^2], ... placed directly after the claim`,
+
+  [PromptTemplateKey.REWRITE_CHUNK]: `You are rewriting part {{partNumber}} of {{totalParts}} of a long article according to the specified style.
+{{#previousOriginal}}
+For continuity, this is how the previous part of the original ended (do not rewrite it):
+
+{{previousOriginal}}
+{{/previousOriginal}}
+{{#previousRewrite}}
+Your rewrite of the previous part ended with:
+
+{{previousRewrite}}
+{{/previousRewrite}}
+
+Rewrite this part:
+
+{{content}}
+
+Ensure the rewritten part:
+- Maintains all factual accuracy
+{{#previousRewrite}}- Continues directly from the previous part without a new introduction
+{{/previousRewrite}}{{^isLastPart}}- Does not add a conclusion, as the article continues
+{{/isLastPart}}- Follows the specified tone and style
+- Marks each claim that comes from the article with a citation marker [^1], [^2], ... placed directly after the claim`,
+
+  [PromptTemplateKey.REWRITE_STITCH]: `The two passages below are consecutive sections of the same rewritten article, produced separately.
+
+End of the previous section:
+{{previousClosing}}
+
+Opening paragraph of the next section:
+{{opening}}
+
+Rewrite only the opening paragraph so it follows on naturally from the previous section. Remove any repeated introduction or restated facts, keep every new fact, keep citation markers such as [^1] after the same claims, and keep the same tone.`,
+
+  [PromptTemplateKey.SUMMARY]: `Summarize the following article in approximately {{maxLength}} words. Be concise and capture the main points:
+
+{{content}}`,
+
+  [PromptTemplateKey.KEY_POINTS]: `Extract exactly {{count}} key points from the following article:
+
+{{content}}`,
+
+  [PromptTemplateKey.BIAS_DETECTION]: `Analyze the following article for political or ideological bias. Provide:
+1. Overall bias (left/center-left/center/center-right/right/unknown)
+2. Confidence level (0-1)
+3. Specific indicators of bias
+4. Alternative perspectives that could balance the article
+
+Article:
+{{content}}`,
+
+  [PromptTemplateKey.CONTEXT_ENRICHMENT]: `Enrich the following article about "{{topic}}" with additional context, background information, and relevant facts. Add context naturally without changing the core message:
+
+{{content}}`,
+
+  [PromptTemplateKey.SYNTHESIS]: `The following {{sourceCount}} articles report on the same story. Combine them into a single article that covers everything they report, without repeating facts found in several sources.
+
+Rules:
+1. Only state facts that appear in at least one source, and attribute every claim to the sources that report it, using their labels (e.g. S1).
+2. Where sources disagree on a fact, figure or interpretation, do not pick a side: say in the article that the sources differ, and list the disagreement.
+3. Keep the meaning of every claim unchanged.
+
+Sources:
+{{sources}}`,
+
+  [PromptTemplateKey.STYLE_LEARNING]: `The following {{sampleCount}} samples were written in a style a reader wants their news rewritten in. Describe that style so that any news article can be rewritten to read like the samples.
+
+Rules:
+1. Describe how the samples are written (voice, sentence length, structure, vocabulary, use of jargon, humour, formatting), not what they are about.
+2. Write customPrompt as direct instructions to a writer rewriting a news article, without quoting or referring to the samples.
+3. Never tell the writer to add, drop or change facts.
+4. technicalLevel runs from 1 (no background knowledge assumed) to 10 (expert reader).
+
+Samples:
+{{samples}}`,
+
+  [PromptTemplateKey.ENTITY_EXTRACTION]: `List the people, organizations and places named in the following article. For each, give its role in the story in a few words (e.g. "mayor, proposed the budget" or "city where the flooding happened").
+
+Rules:
+1. List each entity once, under the fullest name the article uses.
+2. Only include entities the article names; do not add any from background knowledge.
+
+Article:
+{{content}}`,
+
+  [PromptTemplateKey.CLAIM_EXTRACTION]: `Find the factual claims in the following article that a fact-checker should verify: figures, statistics, dates, causes and effects, and statements about what someone did or said.
+
+Rules:
+1. Quote each claim exactly as it appears in the article.
+2. Leave out opinions, predictions and claims too vague to check.
+3. Rate how much each claim matters to the story and how likely it is to be wrong as check-worthiness: low, medium or high.
+
+Article:
+{{content}}`,
+
+  [PromptTemplateKey.QUOTE_EXTRACTION]: `List every direct quote in the following article, with the person or organization who said it.
+
+Rules:
+1. Only include words the article puts in quotation marks, copied exactly, without the quotation marks.
+2. Use the speaker's name as the article gives it, and their title or affiliation if the article mentions one.
+3. Skip quotes the article does not attribute to anyone.
+
+Article:
+{{content}}`,
+
+  [PromptTemplateKey.HEADLINE]: `Write a headline and a one-sentence teaser for the following article, in the style described above, to show in a news feed in place of the original headline: "{{title}}"
+
+Rules:
+1. Only say what the article reports: every name, number and date in the headline and teaser must appear in the article.
+2. No clickbait: no questions, exclamation marks, words in capitals for emphasis, or phrases such as "you won't believe" that hold back what happened.
+3. Write the headline in sentence case, in at most 12 words.
+{{#issues}}
+An earlier headline for this article was rejected because:
+{{issues}}
+{{/issues}}
+Article:
+{{content}}`,
+
+  [PromptTemplateKey.TIMELINE]: `The following {{sourceCount}} articles, oldest first, cover the same story. List the events of the story they report as a timeline.
+
+Rules:
+1. Only include events the articles report; do not add any from background knowledge.
+2. Date each event as precisely as the article allows (YYYY-MM-DD, YYYY-MM or YYYY). Work out relative dates such as "on Tuesday" from the article's publication date; leave out events that can't be dated.
+3. List each event once, under the label of the earliest article reporting it, and describe it in one sentence.
+
+Articles:
+{{sources}}`,
+};
+
+/**
+ * JSON response formats appended to prompts. These are kept out of the
+ * editable templates because the response parsers depend on them.
+ */
+export const PROMPT_RESPONSE_FORMATS: Partial<Record<PromptTemplateKey, string>> = {
+  [PromptTemplateKey.REWRITE_USER]: `Respond with JSON only, in this format:
+{"content": "<the rewritten text, with citation markers>", "citations": [{"marker": <number of the marker, e.g. 1 for [^1]>, "text": "<the sentence of the article above that supports the claim, copied exactly>", "url": "<URL the article gives for this claim, omit if none>"}]}
+
+Every marker in content must have an entry in citations.`,
+  [PromptTemplateKey.REWRITE_CHUNK]: `Respond with JSON only, in this format:
+{"content": "<the rewritten text, with citation markers>", "citations": [{"marker": <number of the marker, e.g. 1 for [^1]>, "text": "<the sentence of the article above that supports the claim, copied exactly>", "url": "<URL the article gives for this claim, omit if none>"}]}
+
+Every marker in content must have an entry in citations.`,
+  [PromptTemplateKey.REWRITE_STITCH]: `Respond with JSON only, in this format:
+{"content": "<the rewritten opening paragraph>"}`,
+  [PromptTemplateKey.SUMMARY]: `Respond with JSON only, in this format:
+{"summary": "<the summary>"}`,
+  [PromptTemplateKey.KEY_POINTS]: `Respond with JSON only, in this format:
+{"keyPoints": ["<first key point>", "<second key point>"]}`,
+  [PromptTemplateKey.BIAS_DETECTION]: `Respond with JSON only, in this format:
+{"overallBias": "left" | "center-left" | "center" | "center-right" | "right" | "unknown", "confidence": <0-1>, "indicators": [{"type": "<indicator type>", "description": "<what in the text shows it>", "severity": "low" | "medium" | "high"}], "alternativePerspectives": ["<perspective>"]}`,
+  [PromptTemplateKey.CONTEXT_ENRICHMENT]: `Respond with JSON only, in this format:
+{"content": "<the enriched article>"}`,
+  [PromptTemplateKey.SYNTHESIS]: `Respond with JSON only, in this format:
+{"content": "<the synthesized article>", "claims": [{"text": "<claim, quoted exactly as it appears in content>", "sources": ["<source label, e.g. S1>"]}], "disagreements": [{"topic": "<what the sources disagree on>", "positions": [{"source": "<source label>", "claim": "<what this source says>"}]}]}`,
+  [PromptTemplateKey.STYLE_LEARNING]: `Respond with JSON only, in this format:
+{"name": "<short name for the style>", "description": "<one or two sentences describing the style>", "tone": "formal" | "casual" | "neutral", "length": "concise" | "medium" | "detailed", "technicalLevel": <1-10>, "customPrompt": "<instructions for rewriting an article in this style>"}`,
+  [PromptTemplateKey.ENTITY_EXTRACTION]: `Respond with JSON only, in this format:
+{"entities": [{"name": "<name>", "type": "person" | "organization" | "place", "role": "<role in the story>"}]}`,
+  [PromptTemplateKey.CLAIM_EXTRACTION]: `Respond with JSON only, in this format:
+{"claims": [{"text": "<the claim, copied exactly from the article>", "claimant": "<who the article attributes it to, omit if no one>", "checkWorthiness": "low" | "medium" | "high", "reason": "<why it should be checked>"}]}`,
+  [PromptTemplateKey.QUOTE_EXTRACTION]: `Respond with JSON only, in this format:
+{"quotes": [{"text": "<the quoted words>", "speaker": "<who said them>", "speakerRole": "<their title or affiliation, omit if not given>"}]}`,
+  [PromptTemplateKey.HEADLINE]: `Respond with JSON only, in this format:
+{"headline": "<the headline>", "teaser": "<the teaser>"}`,
+  [PromptTemplateKey.TIMELINE]: `Respond with JSON only, in this format:
+{"entries": [{"date": "<YYYY-MM-DD, YYYY-MM or YYYY>", "event": "<what happened>", "source": "<article label, e.g. S1>"}]}`,
+};
+
+/**
+ * Fill in a template's sections and variables
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  const isSet = (name: string) => {
+    const value = variables[name];
+    return value !== undefined && value !== false && value !== '' && value !== 0;
+  };
+
+  return template
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, type: string, name: string, inner: string) =>
+      (type === '#') === isSet(name) ? inner : ''
+    )
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => String(variables[name] ?? ''))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
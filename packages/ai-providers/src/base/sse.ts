@@ -0,0 +1,88 @@
+import { StringDecoder } from 'string_decoder';
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Parse a Server-Sent Events byte stream (as returned by axios with
+ * `responseType: 'stream'`) into individual events.
+ */
+export async function* readServerSentEvents(
+  stream: AsyncIterable<Buffer | string>
+): AsyncGenerator<ServerSentEvent> {
+  // Characters split across chunks are held back until their last byte arrives
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+  // A '\r' ending a chunk may be the first half of a '\r\n'
+  let pendingCarriageReturn = false;
+
+  const append = (text: string) => {
+    if (pendingCarriageReturn) {
+      text = '\r' + text;
+      pendingCarriageReturn = false;
+    }
+
+    if (text.endsWith('\r')) {
+      pendingCarriageReturn = true;
+      text = text.slice(0, -1);
+    }
+
+    // Events may be separated by CRLF, LF or CR line endings
+    buffer += text.replace(/\r\n?/g, '\n');
+  };
+
+  for await (const chunk of stream) {
+    append(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const parsed = parseEvent(rawEvent);
+      if (parsed) {
+        yield parsed;
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  append(decoder.end());
+  if (pendingCarriageReturn) {
+    buffer += '\n';
+  }
+
+  for (const rawEvent of buffer.split('\n\n')) {
+    const parsed = parseEvent(rawEvent);
+    if (parsed) {
+      yield parsed;
+    }
+  }
+}
+
+function parseEvent(rawEvent: string): ServerSentEvent | null {
+  let event: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split('\n')) {
+    // Lines starting with ':' are comments (used as keep-alives)
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return { event, data: dataLines.join('\n') };
+}
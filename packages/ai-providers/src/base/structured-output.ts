@@ -0,0 +1,83 @@
+/**
+ * Extract a JSON value from a model response.
+ * Models sometimes wrap JSON in markdown fences or add a sentence before it,
+ * so the outermost object is located before parsing.
+ */
+export function parseJSONResponse(raw: string): unknown {
+  const unfenced = raw.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+
+    if (start === -1 || end <= start) {
+      throw new SyntaxError('Response does not contain a JSON object');
+    }
+
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+}
+
+/**
+ * Incrementally pull the value of one top-level string field out of a JSON
+ * object that is still being streamed, so the text can be shown as it
+ * arrives. Returns a function to feed raw tokens into.
+ */
+export function createJSONStringFieldStreamer(
+  field: string,
+  onText: (text: string) => void
+): (token: string) => void {
+  const opener = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = '';
+  let state: 'searching' | 'inString' | 'done' = 'searching';
+  let escape = '';
+
+  return (token: string) => {
+    if (state === 'done') {
+      return;
+    }
+
+    let input = token;
+
+    if (state === 'searching') {
+      buffer += token;
+      const match = opener.exec(buffer);
+      if (!match) {
+        return;
+      }
+      input = buffer.slice(match.index + match[0].length);
+      buffer = '';
+      state = 'inString';
+    }
+
+    let text = '';
+
+    for (const char of input) {
+      if (escape) {
+        escape += char;
+        // \uXXXX needs four hex digits before it can be decoded
+        if (escape.startsWith('\\u') && escape.length < 6) {
+          continue;
+        }
+        text += JSON.parse(`"${escape}"`);
+        escape = '';
+        continue;
+      }
+
+      if (char === '\\') {
+        escape = char;
+      } else if (char === '"') {
+        state = 'done';
+        break;
+      } else {
+        text += char;
+      }
+    }
+
+    if (text) {
+      onText(text);
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import { PredefinedStyle, StyleProfile } from '@news-curator/shared';
+
+export interface PredefinedStyleInstructions {
+  /** How the rewrite should read */
+  instruction: string;
+  /** How the rewrite should be laid out */
+  structure: string;
+}
+
+export const PREDEFINED_STYLE_INSTRUCTIONS: Record<PredefinedStyle, PredefinedStyleInstructions> = {
+  [PredefinedStyle.CONVERSATIONAL]: {
+    instruction:
+      'Write as if explaining the story to a friend: address the reader directly, use short sentences and everyday words, and keep the pace lively without losing any facts.',
+    structure:
+      'Open with a hook that says why the story matters, then tell it in short paragraphs of two to four sentences.',
+  },
+  [PredefinedStyle.ACADEMIC]: {
+    instruction:
+      'Write in a precise, objective academic register: attribute every claim to its source, distinguish established facts from claims and estimates, and avoid rhetorical or emotive language.',
+    structure:
+      'Start with a one-paragraph abstract, then cover background, the main findings or events, and their significance, each as a paragraph that opens with a topic sentence.',
+  },
+  [PredefinedStyle.BULLET_POINT]: {
+    instruction:
+      'Present the story as scannable bullet points: one fact or development per bullet, each a single complete sentence, with no narrative filler.',
+    structure:
+      'Start with a one-sentence headline summary, then group the bullets (lines starting with "- ") under short headings such as "What happened", "Key details" and "What happens next". Do not write prose paragraphs.',
+  },
+  [PredefinedStyle.ELI5]: {
+    instruction:
+      'Explain the story so a ten-year-old could follow it: use simple words and short sentences, replace jargon with plain explanations or everyday comparisons, and explain why it matters. This takes precedence over the technical level above.',
+    structure:
+      'Start with one sentence saying what happened, then explain it step by step in short paragraphs, and end with a sentence on why it matters.',
+  },
+  [PredefinedStyle.EXECUTIVE]: {
+    instruction:
+      'Write for a busy decision-maker: bottom line up front, quantify impact wherever the article allows, and cut anything that does not inform a decision.',
+    structure:
+      'Start with a "Bottom line:" paragraph of one or two sentences, then "Key facts:" as three to five bullets, then "Implications:" as bullets covering what this means for businesses, markets or policy, and finally "What to watch:" if the article points to upcoming developments.',
+  },
+  [PredefinedStyle.TECHNICAL]: {
+    instruction:
+      'Write for a technically literate reader: use the correct domain terminology without defining basics, keep exact figures, units and versions, and explain mechanisms and causes rather than just outcomes.',
+    structure:
+      'Start with a short summary paragraph, then cover the technical details, how it works, and limitations or open questions in separate paragraphs under short headings.',
+  },
+  [PredefinedStyle.CASUAL]: {
+    instruction:
+      'Keep it relaxed and easygoing, like a blog post: light phrasing and contractions are fine, but stay accurate and never add jokes at the expense of the facts.',
+    structure:
+      'Use a short, informal intro, a few brief paragraphs, and a one-line wrap-up.',
+  },
+};
+
+export const TONE_INSTRUCTIONS: Record<StyleProfile['tone'], string> = {
+  formal: 'Use a formal, professional tone.',
+  casual: 'Use a casual, conversational tone.',
+  neutral: 'Use a balanced, neutral tone.',
+};
+
+export const LENGTH_INSTRUCTIONS: Record<StyleProfile['length'], string> = {
+  concise: 'Be very concise. Aim for 50-70% of the original length.',
+  medium: 'Aim for similar length to the original.',
+  detailed: 'Provide detailed explanations. You may expand the content by 20-30%.',
+};
+
+/** One instruction per technical level, from 1 (no background) to 10 (specialist) */
+export const TECHNICAL_LEVEL_INSTRUCTIONS: Record<number, string> = {
+  1: 'Write for a general audience with no technical knowledge. Avoid all jargon and explain every concept in everyday terms.',
+  2: 'Write for a general audience. Avoid jargon; if a technical term is unavoidable, explain it in plain words the first time.',
+  3: 'Write for a casual reader who follows the news. Use only widely known terms and briefly explain anything more specialised.',
+  4: 'Write for an interested reader with some background. Common terms of the field are fine; define less familiar ones in a few words.',
+  5: 'Write for an informed reader with basic knowledge. Use standard terminology and only explain specialised concepts.',
+  6: 'Write for a well-informed reader. Use the field\'s terminology freely and keep explanations to brief asides.',
+  7: 'Write for a reader with working knowledge of the field. Skip introductory explanations and include relevant technical detail.',
+  8: 'Write for a practitioner. Use precise terminology, include quantitative detail, and discuss methods and trade-offs.',
+  9: 'Write for an advanced practitioner. Assume fluency in the field, focus on specifics, methodology and implications, and do not simplify.',
+  10: 'Write for an expert audience with deep technical knowledge. Use specialist vocabulary, full technical precision and nuance, and no explanations of fundamentals.',
+};
+
+/**
+ * Get the instruction for a technical level, rounding levels that are not
+ * whole numbers and clamping to 1-10
+ */
+export function getTechnicalLevelInstruction(level: number): string {
+  const clamped = Math.min(10, Math.max(1, Math.round(level)));
+  return TECHNICAL_LEVEL_INSTRUCTIONS[clamped];
+}
@@ -1,5 +1,9 @@
 import { AIProvider, AIProviderConfig } from '@news-curator/shared';
 import { OpenRouterProvider } from './providers/OpenRouterProvider';
+import { OpenAIProvider } from './providers/OpenAIProvider';
+import { AnthropicProvider } from './providers/AnthropicProvider';
+import { MockAIProvider } from './providers/MockAIProvider';
+import { FallbackAIProvider, FallbackOptions } from './providers/FallbackAIProvider';
 
 export class AIProviderFactory {
   /**
@@ -11,15 +15,32 @@ export class AIProviderFactory {
         return new OpenRouterProvider(config);
 
       case 'openai':
-        throw new Error('OpenAI provider not yet implemented');
+        return new OpenAIProvider(config);
 
       case 'anthropic':
-        throw new Error('Anthropic provider not yet implemented');
+        return new AnthropicProvider(config);
+
+      case 'mock':
+      case 'local':
+        return new MockAIProvider(config);
 
       default:
         throw new Error(`Unknown AI provider: ${config.provider}`);
     }
   }
+
+  /**
+   * Create a provider that fails over through an ordered list of configurations
+   */
+  static createWithFallback(
+    configs: AIProviderConfig[],
+    options?: FallbackOptions
+  ): AIProvider {
+    return new FallbackAIProvider(
+      configs.map(config => AIProviderFactory.create(config)),
+      options
+    );
+  }
 }
 
 // Keep the function export for backward compatibility
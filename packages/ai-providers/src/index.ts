@@ -1,3 +1,10 @@
 export * from './base/BaseAIProvider';
+export * from './base/CircuitBreaker';
+export * from './base/prompts';
+export * from './base/styles';
 export * from './providers/OpenRouterProvider';
+export * from './providers/OpenAIProvider';
+export * from './providers/AnthropicProvider';
+export * from './providers/MockAIProvider';
+export * from './providers/FallbackAIProvider';
 export * from './factory';
@@ -0,0 +1,304 @@
+import axios, { AxiosInstance } from 'axios';
+import { BaseAIProvider, AICallOptions } from '../base/BaseAIProvider';
+import { readServerSentEvents } from '../base/sse';
+import { AIOperation, AIProviderConfig, AIProviderError } from '@news-curator/shared';
+import PQueue from 'p-queue';
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+interface AnthropicRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string;
+  temperature?: number;
+  max_tokens: number;
+  stream?: boolean;
+}
+
+interface AnthropicResponse {
+  id: string;
+  model: string;
+  content: Array<{
+    type: string;
+    text?: string;
+  }>;
+  stop_reason: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: {
+    usage?: {
+      input_tokens: number;
+      output_tokens: number;
+    };
+  };
+  delta?: {
+    type?: string;
+    text?: string;
+  };
+  usage?: {
+    output_tokens: number;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+export class AnthropicProvider extends BaseAIProvider {
+  name = 'anthropic';
+  private client: AxiosInstance;
+  private queue: PQueue;
+  private config: AIProviderConfig;
+
+  constructor(config: AIProviderConfig) {
+    super();
+    this.config = config;
+    this.model = config.model;
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || 'https://api.anthropic.com/v1',
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+        'Content-Type': 'application/json',
+      },
+      timeout: config.timeoutMs || 30000,
+    });
+
+    // Rate limiting: 10 concurrent requests
+    this.queue = new PQueue({ concurrency: 10 });
+  }
+
+  protected async callAPI(
+    prompt: string,
+    systemPrompt?: string,
+    options?: AICallOptions
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number; total: number };
+  }> {
+    return this.queue.add(async () => {
+      // Anthropic takes the system prompt as a top-level field, not a message
+      const request: AnthropicRequest = {
+        model: this.config.model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        system: systemPrompt,
+        temperature: options?.temperature ?? this.config.temperature,
+        max_tokens: options?.maxTokens ?? this.config.maxTokens,
+      };
+
+      try {
+        const response = await this.client.post<AnthropicResponse>(
+          '/messages',
+          request
+        );
+
+        const textBlocks = (response.data.content || []).filter(
+          block => block.type === 'text' && block.text
+        );
+
+        if (textBlocks.length === 0) {
+          throw new AIProviderError('No response from Anthropic');
+        }
+
+        const content = textBlocks.map(block => block.text).join('');
+        const usage = response.data.usage;
+
+        return {
+          content,
+          tokensUsed: {
+            input: usage.input_tokens,
+            output: usage.output_tokens,
+            total: usage.input_tokens + usage.output_tokens,
+          },
+        };
+      } catch (error) {
+        if (error instanceof AIProviderError) {
+          throw error;
+        }
+
+        if (axios.isAxiosError(error)) {
+          const status = error.response?.status;
+          const message = error.response?.data?.error?.message || error.message;
+
+          if (status === 429) {
+            throw new AIProviderError('Rate limit exceeded', { status, retryAfter: 60 });
+          }
+
+          if (status === 401) {
+            throw new AIProviderError('Invalid API key');
+          }
+
+          throw new AIProviderError(`Anthropic API error: ${message}`, {
+            status,
+            code: error.code,
+            data: error.response?.data,
+          });
+        }
+
+        throw new AIProviderError(
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }) as Promise<{
+      content: string;
+      tokensUsed: { input: number; output: number; total: number };
+    }>;
+  }
+
+  protected async callAPIStream(
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: AICallOptions | undefined,
+    onToken: (token: string) => void
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number; total: number };
+  }> {
+    return this.queue.add(async () => {
+      const request: AnthropicRequest = {
+        model: this.config.model,
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        system: systemPrompt,
+        temperature: options?.temperature ?? this.config.temperature,
+        max_tokens: options?.maxTokens ?? this.config.maxTokens,
+        stream: true,
+      };
+
+      try {
+        const response = await this.client.post('/messages', request, {
+          responseType: 'stream',
+        });
+
+        let content = '';
+        let inputTokens = 0;
+        let outputTokens = 0;
+
+        for await (const event of readServerSentEvents(response.data)) {
+          const payload = JSON.parse(event.data) as AnthropicStreamEvent;
+
+          switch (payload.type) {
+            case 'message_start':
+              inputTokens = payload.message?.usage?.input_tokens ?? 0;
+              break;
+
+            case 'content_block_delta':
+              if (payload.delta?.text) {
+                content += payload.delta.text;
+                onToken(payload.delta.text);
+              }
+              break;
+
+            case 'message_delta':
+              outputTokens = payload.usage?.output_tokens ?? outputTokens;
+              break;
+
+            case 'error':
+              throw new AIProviderError(
+                `Anthropic API error: ${payload.error?.message || 'Stream error'}`,
+                { status: payload.error?.type === 'overloaded_error' ? 529 : undefined }
+              );
+          }
+        }
+
+        return {
+          content,
+          tokensUsed: {
+            input: inputTokens,
+            output: outputTokens,
+            total: inputTokens + outputTokens,
+          },
+        };
+      } catch (error) {
+        if (error instanceof AIProviderError) {
+          throw error;
+        }
+
+        if (axios.isAxiosError(error)) {
+          const status = error.response?.status;
+
+          if (status === 429) {
+            throw new AIProviderError('Rate limit exceeded', { status, retryAfter: 60 });
+          }
+
+          if (status === 401) {
+            throw new AIProviderError('Invalid API key');
+          }
+
+          throw new AIProviderError(`Anthropic API error: ${error.message}`, {
+            status,
+            code: error.code,
+          });
+        }
+
+        throw new AIProviderError(
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }) as Promise<{
+      content: string;
+      tokensUsed: { input: number; output: number; total: number };
+    }>;
+  }
+
+  estimateCost(
+    operation: AIOperation,
+    inputTokens: number,
+    outputTokens: number = 0
+  ): number {
+    // Published Anthropic list prices per 1M tokens
+    const modelPricing: Record<string, { input: number; output: number }> = {
+      'claude-3-opus-20240229': { input: 15, output: 75 },
+      'claude-3-sonnet-20240229': { input: 3, output: 15 },
+      'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+      'claude-3-5-sonnet-20240620': { input: 3, output: 15 },
+      'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+    };
+
+    const pricing = modelPricing[this.config.model] || { input: 3, output: 15 };
+
+    const inputCost = (inputTokens / 1_000_000) * pricing.input;
+    const outputCost = (outputTokens / 1_000_000) * pricing.output;
+
+    return inputCost + outputCost;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await this.client.get('/models');
+      return response.status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  async listAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.client.get('/models');
+      return response.data.data.map((model: any) => model.id);
+    } catch (error) {
+      throw new AIProviderError('Failed to list models');
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import {
+  AIProvider,
+  AIOperation,
+  AIRewriteResult,
+  AISynthesisResult,
+  AISynthesisSource,
+  AITimelineEntry,
+  AITimelineSource,
+  AIStyleLearningResult,
+  AIExtractedEntity,
+  AIExtractedClaim,
+  AIExtractedQuote,
+  AIHeadline,
+  BiasAnalysis,
+  StyleProfile,
+  AIProviderError,
+  AIResponseValidationError,
+  AIUsageListener,
+  PromptRegistry,
+} from '@news-curator/shared';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState } from '../base/CircuitBreaker';
+
+export interface FallbackOptions {
+  /** Retries per provider for transient failures (429, 5xx, timeouts) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff between retries */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs?: number;
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+interface ChainEntry {
+  label: string;
+  provider: AIProvider;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Composite provider that tries an ordered chain of providers.
+ *
+ * Transient failures are retried with exponential backoff on the same
+ * provider; any remaining failure moves on to the next provider. Each
+ * provider has its own circuit breaker so one that is clearly down is
+ * skipped until its cooldown expires.
+ */
+export class FallbackAIProvider implements AIProvider {
+  name = 'fallback';
+  private chain: ChainEntry[];
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+
+  constructor(providers: AIProvider[], options: FallbackOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error('FallbackAIProvider requires at least one provider');
+    }
+
+    this.chain = providers.map(provider => ({
+      label: provider.model ? `${provider.name}:${provider.model}` : provider.name,
+      provider,
+      breaker: new CircuitBreaker(options.circuitBreaker),
+    }));
+    this.maxRetries = options.maxRetries ?? 2;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 5000;
+  }
+
+  get model(): string | undefined {
+    return this.chain[0].provider.model;
+  }
+
+  async rewriteArticle(content: string, style: StyleProfile): Promise<AIRewriteResult> {
+    const { result, entry } = await this.execute('rewrite article', provider =>
+      provider.rewriteArticle(content, style)
+    );
+
+    // Record which provider in the chain actually served the rewrite
+    return {
+      ...result,
+      provider: entry.provider.name,
+      model: entry.provider.model,
+    };
+  }
+
+  async rewriteArticleStream(
+    content: string,
+    style: StyleProfile,
+    onToken: (token: string) => void
+  ): Promise<AIRewriteResult> {
+    let streamed = false;
+
+    const { result, entry } = await this.execute(
+      'rewrite article',
+      provider =>
+        provider.rewriteArticleStream(content, style, token => {
+          streamed = true;
+          onToken(token);
+        }),
+      // Once tokens have reached the caller, retrying would duplicate output
+      () => !streamed
+    );
+
+    return {
+      ...result,
+      provider: entry.provider.name,
+      model: entry.provider.model,
+    };
+  }
+
+  async generateSummary(content: string, maxLength: number): Promise<string> {
+    const { result } = await this.execute('generate summary', provider =>
+      provider.generateSummary(content, maxLength)
+    );
+    return result;
+  }
+
+  async extractKeyPoints(content: string, count: number): Promise<string[]> {
+    const { result } = await this.execute('extract key points', provider =>
+      provider.extractKeyPoints(content, count)
+    );
+    return result;
+  }
+
+  async detectBias(content: string): Promise<BiasAnalysis> {
+    const { result } = await this.execute('detect bias', provider =>
+      provider.detectBias(content)
+    );
+    return result;
+  }
+
+  async enrichWithContext(content: string, topic: string): Promise<string> {
+    const { result } = await this.execute('enrich with context', provider =>
+      provider.enrichWithContext(content, topic)
+    );
+    return result;
+  }
+
+  async extractEntities(content: string): Promise<AIExtractedEntity[]> {
+    const { result } = await this.execute('extract entities', provider =>
+      provider.extractEntities(content)
+    );
+    return result;
+  }
+
+  async extractClaims(content: string): Promise<AIExtractedClaim[]> {
+    const { result } = await this.execute('extract claims', provider =>
+      provider.extractClaims(content)
+    );
+    return result;
+  }
+
+  async extractQuotes(content: string): Promise<AIExtractedQuote[]> {
+    const { result } = await this.execute('extract quotes', provider =>
+      provider.extractQuotes(content)
+    );
+    return result;
+  }
+
+  async generateHeadline(
+    content: string,
+    title: string,
+    style: StyleProfile,
+    issues?: string[]
+  ): Promise<AIHeadline> {
+    const { result } = await this.execute('generate headline', provider =>
+      provider.generateHeadline(content, title, style, issues)
+    );
+    return result;
+  }
+
+  async generateTimeline(sources: AITimelineSource[]): Promise<AITimelineEntry[]> {
+    const { result } = await this.execute('generate timeline', provider =>
+      provider.generateTimeline(sources)
+    );
+    return result;
+  }
+
+  async synthesizeArticles(
+    sources: AISynthesisSource[],
+    style: StyleProfile
+  ): Promise<AISynthesisResult> {
+    const { result, entry } = await this.execute('synthesize articles', provider =>
+      provider.synthesizeArticles(sources, style)
+    );
+
+    return {
+      ...result,
+      provider: entry.provider.name,
+      model: entry.provider.model,
+    };
+  }
+
+  async learnStyle(samples: string[]): Promise<AIStyleLearningResult> {
+    const { result, entry } = await this.execute('learn style', provider =>
+      provider.learnStyle(samples)
+    );
+
+    return {
+      ...result,
+      provider: entry.provider.name,
+      model: entry.provider.model,
+    };
+  }
+
+  estimateCost(operation: AIOperation, inputTokens: number, outputTokens?: number): number {
+    // Estimates are based on the primary provider
+    return this.chain[0].provider.estimateCost(operation, inputTokens, outputTokens);
+  }
+
+  onUsage(listener: AIUsageListener): void {
+    // Usage is reported by the provider that actually made each call
+    for (const entry of this.chain) {
+      entry.provider.onUsage(listener);
+    }
+  }
+
+  setPromptRegistry(registry: PromptRegistry): void {
+    for (const entry of this.chain) {
+      entry.provider.setPromptRegistry(registry);
+    }
+  }
+
+  /**
+   * Current circuit state of every provider in the chain, for monitoring
+   */
+  getCircuitStates(): Array<{ provider: string; state: CircuitState; errorRate: number }> {
+    return this.chain.map(entry => ({
+      provider: entry.label,
+      state: entry.breaker.getState(),
+      errorRate: entry.breaker.getErrorRate(),
+    }));
+  }
+
+  private async execute<T>(
+    description: string,
+    fn: (provider: AIProvider) => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<{ result: T; entry: ChainEntry }> {
+    const failures: Array<{ provider: string; error: string }> = [];
+    let lastError: unknown;
+
+    for (const entry of this.chain) {
+      if (!entry.breaker.canRequest()) {
+        failures.push({ provider: entry.label, error: 'Circuit open' });
+        continue;
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await fn(entry.provider);
+          entry.breaker.recordSuccess();
+          return { result, entry };
+        } catch (error) {
+          if (!canRetry()) {
+            entry.breaker.recordFailure();
+            throw error;
+          }
+
+          if (attempt < this.maxRetries && isTransientError(error)) {
+            await sleep(this.getBackoffDelay(attempt));
+            continue;
+          }
+
+          entry.breaker.recordFailure();
+          lastError = error;
+          failures.push({
+            provider: entry.label,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          console.warn(`AI provider ${entry.label} failed to ${description}, trying next provider`);
+          break;
+        }
+      }
+    }
+
+    // Keep the typed error (with the raw response) when the last provider
+    // tried answered but its output could not be validated
+    if (lastError instanceof AIResponseValidationError) {
+      throw lastError;
+    }
+
+    throw new AIProviderError(`All AI providers failed to ${description}`, { failures });
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    const delay = this.baseDelayMs * Math.pow(2, attempt);
+    const jitter = Math.random() * this.baseDelayMs;
+    return Math.min(delay + jitter, this.maxDelayMs);
+  }
+}
+
+/**
+ * Whether an error is worth retrying: rate limits, server errors and timeouts.
+ * Provider errors are often wrapped, so the `originalError` chain is followed.
+ */
+export function isTransientError(error: unknown): boolean {
+  let current: unknown = error;
+
+  while (current) {
+    const details = (current as { details?: any }).details;
+    const status = details?.status;
+
+    if (status === 429 || (typeof status === 'number' && status >= 500)) {
+      return true;
+    }
+
+    const code = details?.code ?? (current as { code?: string }).code;
+    if (code === 'ECONNABORTED' || code === 'ETIMEDOUT' || code === 'ECONNRESET') {
+      return true;
+    }
+
+    if (current instanceof Error && /timeout/i.test(current.message)) {
+      return true;
+    }
+
+    current = details?.originalError;
+  }
+
+  return false;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,496 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { BaseAIProvider, AICallOptions } from '../base/BaseAIProvider';
+import {
+  AIOperation,
+  AIProviderConfig,
+  AIProviderError,
+  AIStyleLearningOutput,
+  AIExtractedClaim,
+  AIExtractedEntity,
+  AIExtractedQuote,
+  AIHeadline,
+  BiasAnalysis,
+  EntityType,
+  LANGUAGE_NAMES,
+  PredefinedStyle,
+  StyleProfile,
+} from '@news-curator/shared';
+
+// Words that nudge the fake bias analysis left or right
+const LEFT_LEANING_TERMS = ['progressive', 'inequality', 'climate crisis', 'workers', 'activists'];
+const RIGHT_LEANING_TERMS = ['conservative', 'taxpayers', 'border security', 'free market', 'traditional'];
+
+// Words that mark a capitalised name as an organization in the fake entity extraction
+const ORGANIZATION_WORDS = [
+  'Council', 'Department', 'Ministry', 'University', 'Company', 'Agency', 'Party',
+  'Bank', 'Association', 'Board', 'Inc', 'Ltd', 'Corp', 'Group', 'Commission',
+];
+
+/**
+ * Offline, deterministic AI provider for local development and tests.
+ *
+ * Produces style-aware output derived from the input text, so the same
+ * input always yields the same output without any network access.
+ * Responses can be pinned with fixture files, and latency/failures can be
+ * injected to exercise timeout and error handling paths.
+ */
+export class MockAIProvider extends BaseAIProvider {
+  name = 'mock';
+  private config: AIProviderConfig;
+  private rngState: number;
+
+  constructor(config: AIProviderConfig) {
+    super();
+    this.config = config;
+    this.model = config.model;
+    this.rngState = config.mock?.seed ?? 42;
+  }
+
+  protected async callAPI(
+    prompt: string,
+    systemPrompt?: string,
+    options?: AICallOptions
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number; total: number };
+  }> {
+    const latencyMs = this.config.mock?.latencyMs ?? 0;
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+
+    const failureRate = this.config.mock?.failureRate ?? 0;
+    if (failureRate > 0 && this.nextRandom() < failureRate) {
+      const status = this.config.mock?.failureStatus ?? 503;
+      throw new AIProviderError(`Mock provider injected failure (status ${status})`, { status });
+    }
+
+    const operation = options?.operation;
+    const source = options?.content ?? prompt;
+
+    const content =
+      this.loadFixture(operation, prompt, systemPrompt) ??
+      this.generateResponse(operation, source, options);
+
+    const input = this.countTokens(`${systemPrompt ?? ''}${prompt}`);
+    const output = this.countTokens(content);
+
+    return {
+      content,
+      tokensUsed: {
+        input,
+        output,
+        total: input + output,
+      },
+    };
+  }
+
+  protected async callAPIStream(
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: AICallOptions | undefined,
+    onToken: (token: string) => void
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number; total: number };
+  }> {
+    const response = await this.callAPI(prompt, systemPrompt, options);
+
+    // Emit word by word (keeping whitespace) to mimic a real token stream
+    for (const token of response.content.match(/\S+\s*|\s+/g) ?? []) {
+      onToken(token);
+    }
+
+    return response;
+  }
+
+  estimateCost(
+    operation: AIOperation,
+    inputTokens: number,
+    outputTokens: number = 0
+  ): number {
+    // Flat fake pricing per 1M tokens so cost tracking has something to add up
+    const pricing = { input: 1, output: 2 };
+
+    const inputCost = (inputTokens / 1_000_000) * pricing.input;
+    const outputCost = (outputTokens / 1_000_000) * pricing.output;
+
+    return inputCost + outputCost;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  async listAvailableModels(): Promise<string[]> {
+    return [this.config.model];
+  }
+
+  /**
+   * Look up a fixture for this call.
+   * `<operation>-<hash>.txt` pins a single prompt, `<operation>.txt` covers every call of that operation.
+   */
+  private loadFixture(
+    operation: AIOperation | undefined,
+    prompt: string,
+    systemPrompt?: string
+  ): string | null {
+    const fixturesDir = this.config.mock?.fixturesDir;
+    if (!fixturesDir) {
+      return null;
+    }
+
+    const name = operation ?? 'default';
+    const hash = createHash('sha256')
+      .update(`${systemPrompt ?? ''}\n${prompt}`)
+      .digest('hex')
+      .slice(0, 16);
+
+    const candidates = [
+      path.join(fixturesDir, `${name}-${hash}.txt`),
+      path.join(fixturesDir, `${name}.txt`),
+    ];
+
+    for (const candidate of candidates) {
+      if (existsSync(candidate)) {
+        return readFileSync(candidate, 'utf-8');
+      }
+    }
+
+    return null;
+  }
+
+  private generateResponse(
+    operation: AIOperation | undefined,
+    source: string,
+    options?: AICallOptions
+  ): string {
+    switch (operation) {
+      case AIOperation.REWRITE:
+        return JSON.stringify(
+          options?.style
+            ? this.cite(this.rewrite(source, options.style, options.chunk), source)
+            : { content: source, citations: [] }
+        );
+
+      case AIOperation.SUMMARY:
+        return JSON.stringify({
+          summary: this.summarize(source, Math.floor((options?.maxTokens ?? 300) / 1.5)),
+        });
+
+      case AIOperation.KEY_POINTS:
+        return JSON.stringify({
+          keyPoints: this.splitSentences(source).slice(0, 10),
+        });
+
+      case AIOperation.BIAS_DETECTION:
+        return JSON.stringify(this.analyzeBias(source));
+
+      case AIOperation.CONTEXT_ENRICHMENT:
+        return JSON.stringify({
+          content: `${source}\n\nBackground: ${this.summarize(source, 40)}`,
+        });
+
+      case AIOperation.SYNTHESIS: {
+        // One claim per source: its opening sentence
+        const claims = (options?.sources ?? [])
+          .map(({ label, content }) => ({ text: this.splitSentences(content)[0], sources: [label] }))
+          .filter(claim => claim.text);
+
+        return JSON.stringify({
+          content: claims.map(claim => claim.text).join(' '),
+          claims,
+          disagreements: [],
+        });
+      }
+
+      case AIOperation.STYLE_LEARNING:
+        return JSON.stringify(this.describeStyle(source));
+
+      case AIOperation.ENTITY_EXTRACTION:
+        return JSON.stringify({ entities: this.findEntities(source) });
+
+      case AIOperation.CLAIM_EXTRACTION:
+        return JSON.stringify({ claims: this.findClaims(source) });
+
+      case AIOperation.QUOTE_EXTRACTION:
+        return JSON.stringify({ quotes: this.findQuotes(source) });
+
+      case AIOperation.HEADLINE:
+        return JSON.stringify(this.writeHeadline(source, options?.style));
+
+      case AIOperation.TIMELINE:
+        // One event per article: its opening sentence, on its publication date
+        return JSON.stringify({
+          entries: (options?.sources ?? [])
+            .map(({ label, content, publishedAt }) => ({
+              date: publishedAt?.toISOString().slice(0, 10),
+              event: this.splitSentences(content)[0],
+              source: label,
+            }))
+            .filter(entry => entry.date && entry.event),
+        });
+
+      default:
+        return source;
+    }
+  }
+
+  private rewrite(
+    content: string,
+    style: StyleProfile,
+    chunk?: AICallOptions['chunk']
+  ): string {
+    let sentences = this.splitSentences(content);
+
+    if (style.length === 'concise') {
+      sentences = sentences.slice(0, Math.max(1, Math.ceil(sentences.length * 0.6)));
+    }
+
+    const intro: Record<StyleProfile['tone'], string> = {
+      formal: 'The following report sets out the relevant facts.',
+      casual: "Here's what's going on.",
+      neutral: 'Here is an overview of the story.',
+    };
+
+    // Chunks of a long article only get the intro at the start and notes at the end
+    const isFirst = !chunk || chunk.index === 0;
+    const isLast = !chunk || chunk.index === chunk.total - 1;
+
+    const body = style.predefinedStyle === PredefinedStyle.BULLET_POINT
+      ? sentences.map(sentence => `- ${sentence}`).join('\n')
+      : sentences.join(' ');
+    const opening = style.predefinedStyle === PredefinedStyle.EXECUTIVE
+      ? `Bottom line: ${sentences[0]}`
+      : intro[style.tone];
+
+    const paragraphs = isFirst ? [opening, body] : [body];
+
+    if (!isLast) {
+      return paragraphs.join('\n\n');
+    }
+
+    if (style.length === 'detailed') {
+      paragraphs.push(`In more detail: ${this.summarize(content, 60)}`);
+    }
+
+    if (style.technicalLevel <= 3) {
+      paragraphs.push('In simple terms, this is a story about what happened and why it matters.');
+    } else if (style.technicalLevel >= 8) {
+      paragraphs.push('Technical note: figures and terminology are preserved from the original reporting.');
+    }
+
+    if (style.targetLanguage) {
+      paragraphs.push(`(The mock provider does not translate; a real one would write this in ${LANGUAGE_NAMES[style.targetLanguage]}.)`);
+    }
+
+    return paragraphs.join('\n\n');
+  }
+
+  /**
+   * Cite the opening sentence of the original wherever the rewrite repeats it
+   */
+  private cite(
+    content: string,
+    source: string
+  ): { content: string; citations: Array<{ marker: number; text: string }> } {
+    const [opening] = this.splitSentences(source);
+    const index = opening ? content.indexOf(opening) : -1;
+
+    if (index === -1) {
+      return { content, citations: [] };
+    }
+
+    const end = index + opening.length;
+    return {
+      content: `${content.slice(0, end)}[^1]${content.slice(end)}`,
+      citations: [{ marker: 1, text: opening }],
+    };
+  }
+
+  private summarize(content: string, maxWords: number): string {
+    const words = content.split(/\s+/).filter(Boolean);
+    const summary = words.slice(0, Math.max(1, maxWords)).join(' ');
+    return words.length > maxWords ? `${summary}...` : summary;
+  }
+
+  private analyzeBias(content: string): BiasAnalysis {
+    const lower = content.toLowerCase();
+    const leftHits = LEFT_LEANING_TERMS.filter(term => lower.includes(term));
+    const rightHits = RIGHT_LEANING_TERMS.filter(term => lower.includes(term));
+    const score = rightHits.length - leftHits.length;
+
+    const overallBias: BiasAnalysis['overallBias'] =
+      score <= -2 ? 'left' :
+      score === -1 ? 'center-left' :
+      score === 0 ? 'center' :
+      score === 1 ? 'center-right' :
+      'right';
+
+    const indicators = [...leftHits, ...rightHits].map(term => ({
+      type: 'loaded_language',
+      description: `Uses the term "${term}"`,
+      severity: 'low' as const,
+    }));
+
+    return {
+      overallBias,
+      confidence: Math.min(0.9, 0.5 + indicators.length * 0.1),
+      indicators,
+      alternativePerspectives: overallBias === 'center'
+        ? []
+        : ['Consider how readers with the opposite viewpoint would frame these events.'],
+    };
+  }
+
+  /**
+   * Infer style settings from sentence length, contractions and word length
+   */
+  private describeStyle(samples: string): AIStyleLearningOutput {
+    const sentences = this.splitSentences(samples);
+    const words = samples.split(/\s+/).filter(Boolean);
+    const wordsPerSentence = words.length / Math.max(1, sentences.length);
+    const longWordShare = words.filter(word => word.replace(/\W/g, '').length >= 9).length /
+      Math.max(1, words.length);
+    const informal = /\b\w+'(s|re|ll|ve|t|d)\b|!/i.test(samples);
+
+    const tone: AIStyleLearningOutput['tone'] = informal ? 'casual' : wordsPerSentence > 22 ? 'formal' : 'neutral';
+    const length: AIStyleLearningOutput['length'] =
+      wordsPerSentence < 14 ? 'concise' : wordsPerSentence > 24 ? 'detailed' : 'medium';
+    const technicalLevel = Math.min(10, Math.max(1, Math.round(2 + longWordShare * 30)));
+
+    return {
+      name: `Learned ${tone} style`,
+      description: `A ${tone} style with about ${Math.round(wordsPerSentence)} words per sentence.`,
+      tone,
+      length,
+      technicalLevel,
+      customPrompt: `Write in a ${tone} voice, keeping sentences to about ${Math.round(wordsPerSentence)} words.`,
+    };
+  }
+
+  /**
+   * Treat runs of capitalised words as names: organizations by their wording,
+   * places after "in", "at" or "from", and other runs of two or more words as people
+   */
+  private findEntities(content: string): AIExtractedEntity[] {
+    const entities = new Map<string, AIExtractedEntity & { mentions: number }>();
+
+    for (const match of content.matchAll(/(\b(?:in|at|from)\s+)?\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/g)) {
+      const preposition = match[1];
+      const words = match[2].split(/\s+/);
+
+      // The first word of a sentence is capitalised anyway, e.g. "The" or "Mayor"
+      if (match.index === 0 || /[.!?"“]\s*$/.test(content.slice(0, match.index))) {
+        words.shift();
+      }
+
+      const name = words.join(' ');
+      if (!name) {
+        continue;
+      }
+
+      const type = words.some(word => ORGANIZATION_WORDS.includes(word))
+        ? EntityType.ORGANIZATION
+        : preposition
+          ? EntityType.PLACE
+          : words.length >= 2
+            ? EntityType.PERSON
+            : null;
+
+      if (!type) {
+        continue;
+      }
+
+      const existing = entities.get(name);
+      if (existing) {
+        existing.mentions++;
+      } else {
+        entities.set(name, { name, type, role: '', mentions: 1 });
+      }
+    }
+
+    return [...entities.values()].map(({ mentions, ...entity }) => ({
+      ...entity,
+      role: `mentioned ${mentions} time${mentions === 1 ? '' : 's'}`,
+    }));
+  }
+
+  /**
+   * Sentences with figures in them, rated higher for amounts and percentages
+   */
+  private findClaims(content: string): AIExtractedClaim[] {
+    return this.splitSentences(content)
+      .filter(sentence => /\d/.test(sentence))
+      .map(sentence => ({
+        text: sentence,
+        checkWorthiness: /[$€£%]|\bpercent\b|\bmillion\b|\bbillion\b/i.test(sentence)
+          ? ('high' as const)
+          : ('medium' as const),
+        reason: 'Contains a figure that can be checked against other sources',
+      }));
+  }
+
+  /**
+   * Quotes followed by "said <speaker>" or "<speaker> said"
+   */
+  private findQuotes(content: string): AIExtractedQuote[] {
+    const quotes: AIExtractedQuote[] = [];
+
+    for (const match of content.matchAll(/["“]([^"”]+?)[,.]?["”],?\s+(?:said|says)\s+([^.,;]+)/g)) {
+      const [, text, attribution] = match;
+      const speaker = attribution.match(/[A-Z][\w'-]*(?:\s+[A-Z][\w'-]*)*$/)?.[0];
+
+      if (!speaker) {
+        continue;
+      }
+
+      const speakerRole = attribution.slice(0, attribution.length - speaker.length).trim();
+      quotes.push({ text, speaker, speakerRole: speakerRole || undefined });
+    }
+
+    return quotes;
+  }
+
+  /**
+   * The opening sentence, cut short for concise styles, as the headline and
+   * the next sentence as the teaser
+   */
+  private writeHeadline(content: string, style?: StyleProfile): AIHeadline {
+    const [opening = content, next] = this.splitSentences(content);
+    const words = opening.replace(/[.!?]+$/, '').split(/\s+/);
+    const maxWords = style?.length === 'concise' ? 8 : 12;
+    const headline = words.slice(0, maxWords).join(' ');
+    const teaser = next ?? opening;
+
+    return {
+      headline: words.length > maxWords ? `${headline}...` : headline,
+      teaser: style?.tone === 'casual' ? `Here's the gist: ${teaser}` : teaser,
+    };
+  }
+
+  private splitSentences(content: string): string[] {
+    return content
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private countTokens(text: string): number {
+    // Rough heuristic: ~4 characters per token
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Seeded PRNG (mulberry32) so injected failures are reproducible
+   */
+  private nextRandom(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) | 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
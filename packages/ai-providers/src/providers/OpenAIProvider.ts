@@ -0,0 +1,298 @@
+import axios, { AxiosInstance } from 'axios';
+import { BaseAIProvider, AICallOptions } from '../base/BaseAIProvider';
+import { readServerSentEvents } from '../base/sse';
+import { AIOperation, AIProviderConfig, AIProviderError } from '@news-curator/shared';
+import PQueue from 'p-queue';
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface OpenAIRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  response_format?: { type: 'json_object' };
+  stream_options?: { include_usage: boolean };
+}
+
+interface OpenAIResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface OpenAIStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIResponse['usage'];
+}
+
+export class OpenAIProvider extends BaseAIProvider {
+  name = 'openai';
+  private client: AxiosInstance;
+  private queue: PQueue;
+  private config: AIProviderConfig;
+
+  constructor(config: AIProviderConfig) {
+    super();
+    this.config = config;
+    this.model = config.model;
+
+    this.client = axios.create({
+      baseURL: config.baseUrl || 'https://api.openai.com/v1',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      timeout: config.timeoutMs || 30000,
+    });
+
+    // Rate limiting: 10 concurrent requests
+    this.queue = new PQueue({ concurrency: 10 });
+  }
+
+  protected async callAPI(
+    prompt: string,
+    systemPrompt?: string,
+    options?: AICallOptions
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number; total: number };
+  }> {
+    return this.queue.add(async () => {
+      const messages: OpenAIMessage[] = [];
+
+      if (systemPrompt) {
+        messages.push({
+          role: 'system',
+          content: systemPrompt,
+        });
+      }
+
+      messages.push({
+        role: 'user',
+        content: prompt,
+      });
+
+      const request: OpenAIRequest = {
+        model: this.config.model,
+        messages,
+        temperature: options?.temperature ?? this.config.temperature,
+        max_tokens: options?.maxTokens ?? this.config.maxTokens,
+        response_format: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+      };
+
+      try {
+        const response = await this.client.post<OpenAIResponse>(
+          '/chat/completions',
+          request
+        );
+
+        if (!response.data.choices || response.data.choices.length === 0) {
+          throw new AIProviderError('No response from OpenAI');
+        }
+
+        const content = response.data.choices[0].message.content;
+        const usage = response.data.usage;
+
+        return {
+          content,
+          tokensUsed: {
+            input: usage.prompt_tokens,
+            output: usage.completion_tokens,
+            total: usage.total_tokens,
+          },
+        };
+      } catch (error) {
+        if (error instanceof AIProviderError) {
+          throw error;
+        }
+
+        if (axios.isAxiosError(error)) {
+          const status = error.response?.status;
+          const message = error.response?.data?.error?.message || error.message;
+
+          if (status === 429) {
+            throw new AIProviderError('Rate limit exceeded', { status, retryAfter: 60 });
+          }
+
+          if (status === 401) {
+            throw new AIProviderError('Invalid API key');
+          }
+
+          throw new AIProviderError(`OpenAI API error: ${message}`, {
+            status,
+            code: error.code,
+            data: error.response?.data,
+          });
+        }
+
+        throw new AIProviderError(
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }) as Promise<{
+      content: string;
+      tokensUsed: { input: number; output: number; total: number };
+    }>;
+  }
+
+  protected async callAPIStream(
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: AICallOptions | undefined,
+    onToken: (token: string) => void
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number; total: number };
+  }> {
+    return this.queue.add(async () => {
+      const messages: OpenAIMessage[] = [];
+
+      if (systemPrompt) {
+        messages.push({
+          role: 'system',
+          content: systemPrompt,
+        });
+      }
+
+      messages.push({
+        role: 'user',
+        content: prompt,
+      });
+
+      const request: OpenAIRequest = {
+        model: this.config.model,
+        messages,
+        temperature: options?.temperature ?? this.config.temperature,
+        max_tokens: options?.maxTokens ?? this.config.maxTokens,
+        response_format: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+        stream: true,
+        stream_options: { include_usage: true },
+      };
+
+      try {
+        const response = await this.client.post('/chat/completions', request, {
+          responseType: 'stream',
+        });
+
+        let content = '';
+        let usage: OpenAIResponse['usage'] | undefined;
+
+        for await (const event of readServerSentEvents(response.data)) {
+          if (event.data === '[DONE]') {
+            break;
+          }
+
+          const chunk = JSON.parse(event.data) as OpenAIStreamChunk;
+          const token = chunk.choices?.[0]?.delta?.content;
+
+          if (token) {
+            content += token;
+            onToken(token);
+          }
+
+          if (chunk.usage) {
+            usage = chunk.usage;
+          }
+        }
+
+        // Fall back to a character-based estimate if usage was not reported
+        const input = usage?.prompt_tokens ?? Math.ceil(((systemPrompt ?? '') + prompt).length / 4);
+        const output = usage?.completion_tokens ?? Math.ceil(content.length / 4);
+
+        return {
+          content,
+          tokensUsed: {
+            input,
+            output,
+            total: input + output,
+          },
+        };
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          const status = error.response?.status;
+
+          if (status === 429) {
+            throw new AIProviderError('Rate limit exceeded', { status, retryAfter: 60 });
+          }
+
+          if (status === 401) {
+            throw new AIProviderError('Invalid API key');
+          }
+
+          throw new AIProviderError(`OpenAI API error: ${error.message}`, {
+            status,
+            code: error.code,
+          });
+        }
+
+        throw new AIProviderError(
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }) as Promise<{
+      content: string;
+      tokensUsed: { input: number; output: number; total: number };
+    }>;
+  }
+
+  estimateCost(
+    operation: AIOperation,
+    inputTokens: number,
+    outputTokens: number = 0
+  ): number {
+    // Published OpenAI list prices per 1M tokens
+    const modelPricing: Record<string, { input: number; output: number }> = {
+      'gpt-4o': { input: 2.5, output: 10 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'gpt-4-turbo': { input: 10, output: 30 },
+      'gpt-4': { input: 30, output: 60 },
+      'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    };
+
+    const pricing = modelPricing[this.config.model] || { input: 1, output: 2 };
+
+    const inputCost = (inputTokens / 1_000_000) * pricing.input;
+    const outputCost = (outputTokens / 1_000_000) * pricing.output;
+
+    return inputCost + outputCost;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await this.client.get('/models');
+      return response.status === 200;
+    } catch {
+      return false;
+    }
+  }
+
+  async listAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.client.get('/models');
+      return response.data.data.map((model: any) => model.id);
+    } catch (error) {
+      throw new AIProviderError('Failed to list models');
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
-import { BaseAIProvider } from '../base/BaseAIProvider';
+import { BaseAIProvider, AICallOptions } from '../base/BaseAIProvider';
+import { readServerSentEvents } from '../base/sse';
 import { AIOperation, AIProviderConfig, AIProviderError } from '@news-curator/shared';
 import PQueue from 'p-queue';
 
@@ -16,6 +17,8 @@ interface OpenRouterRequest {
   top_p?: number;
   frequency_penalty?: number;
   presence_penalty?: number;
+  stream?: boolean;
+  response_format?: { type: 'json_object' };
 }
 
 interface OpenRouterResponse {
@@ -35,6 +38,16 @@ interface OpenRouterResponse {
   };
 }
 
+interface OpenRouterStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenRouterResponse['usage'];
+}
+
 export class OpenRouterProvider extends BaseAIProvider {
   name = 'openrouter';
   private client: AxiosInstance;
@@ -44,6 +57,7 @@ export class OpenRouterProvider extends BaseAIProvider {
   constructor(config: AIProviderConfig) {
     super();
     this.config = config;
+    this.model = config.model;
 
     this.client = axios.create({
       baseURL: 'https://openrouter.ai/api/v1',
@@ -63,10 +77,7 @@ export class OpenRouterProvider extends BaseAIProvider {
   protected async callAPI(
     prompt: string,
     systemPrompt?: string,
-    options?: {
-      temperature?: number;
-      maxTokens?: number;
-    }
+    options?: AICallOptions
   ): Promise<{
     content: string;
     tokensUsed: { input: number; output: number; total: number };
@@ -91,6 +102,7 @@ export class OpenRouterProvider extends BaseAIProvider {
         messages,
         temperature: options?.temperature ?? this.config.temperature,
         max_tokens: options?.maxTokens ?? this.config.maxTokens,
+        response_format: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined,
       };
 
       try {
@@ -120,7 +132,7 @@ export class OpenRouterProvider extends BaseAIProvider {
           const message = error.response?.data?.error?.message || error.message;
 
           if (status === 429) {
-            throw new AIProviderError('Rate limit exceeded', { retryAfter: 60 });
+            throw new AIProviderError('Rate limit exceeded', { status, retryAfter: 60 });
           }
 
           if (status === 401) {
@@ -129,6 +141,7 @@ export class OpenRouterProvider extends BaseAIProvider {
 
           throw new AIProviderError(`OpenRouter API error: ${message}`, {
             status,
+            code: error.code,
             data: error.response?.data,
           });
         }
@@ -143,6 +156,105 @@ export class OpenRouterProvider extends BaseAIProvider {
     }>;
   }
 
+  protected async callAPIStream(
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: AICallOptions | undefined,
+    onToken: (token: string) => void
+  ): Promise<{
+    content: string;
+    tokensUsed: { input: number; output: number; total: number };
+  }> {
+    return this.queue.add(async () => {
+      const messages: OpenRouterMessage[] = [];
+
+      if (systemPrompt) {
+        messages.push({
+          role: 'system',
+          content: systemPrompt,
+        });
+      }
+
+      messages.push({
+        role: 'user',
+        content: prompt,
+      });
+
+      const request: OpenRouterRequest = {
+        model: this.config.model,
+        messages,
+        temperature: options?.temperature ?? this.config.temperature,
+        max_tokens: options?.maxTokens ?? this.config.maxTokens,
+        response_format: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+        stream: true,
+      };
+
+      try {
+        const response = await this.client.post('/chat/completions', request, {
+          responseType: 'stream',
+        });
+
+        let content = '';
+        let usage: OpenRouterResponse['usage'] | undefined;
+
+        for await (const event of readServerSentEvents(response.data)) {
+          if (event.data === '[DONE]') {
+            break;
+          }
+
+          const chunk = JSON.parse(event.data) as OpenRouterStreamChunk;
+          const token = chunk.choices?.[0]?.delta?.content;
+
+          if (token) {
+            content += token;
+            onToken(token);
+          }
+
+          if (chunk.usage) {
+            usage = chunk.usage;
+          }
+        }
+
+        // Fall back to a character-based estimate if usage was not reported
+        const input = usage?.prompt_tokens ?? Math.ceil(((systemPrompt ?? '') + prompt).length / 4);
+        const output = usage?.completion_tokens ?? Math.ceil(content.length / 4);
+
+        return {
+          content,
+          tokensUsed: {
+            input,
+            output,
+            total: input + output,
+          },
+        };
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          const status = error.response?.status;
+
+          if (status === 429) {
+            throw new AIProviderError('Rate limit exceeded', { status, retryAfter: 60 });
+          }
+
+          if (status === 401) {
+            throw new AIProviderError('Invalid API key');
+          }
+
+          throw new AIProviderError(`OpenRouter API error: ${error.message}`, {
+            status,
+            code: error.code,
+          });
+        }
+
+        throw new AIProviderError(
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }) as Promise<{
+      content: string;
+      tokensUsed: { input: number; output: number; total: number };
+    }>;
+  }
+
   estimateCost(
     operation: AIOperation,
     inputTokens: number,
@@ -0,0 +1,107 @@
+import { AIOperation, StyleProfile } from '@news-curator/shared';
+import { AICallOptions, BaseAIProvider } from '../../src/base/BaseAIProvider';
+
+const style: StyleProfile = {
+  id: '00000000-0000-0000-0000-000000000001',
+  userId: '00000000-0000-0000-0000-000000000002',
+  name: 'Test',
+  tone: 'neutral',
+  length: 'medium',
+  technicalLevel: 5,
+  includeContext: false,
+  includeKeyPoints: false,
+  isDefault: false,
+  isPublic: false,
+  autoTune: false,
+  tags: [],
+  moderationStatus: 'visible',
+  usageCount: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+/**
+ * Provider answering chunk rewrites with two cited paragraphs per chunk, and
+ * stitching calls with `stitch(opening)`
+ */
+class ScriptedProvider extends BaseAIProvider {
+  name = 'scripted';
+  calls: AICallOptions[] = [];
+
+  constructor(private stitch: (opening: string) => string = opening => opening) {
+    super();
+  }
+
+  protected async callAPI(_prompt: string, _systemPrompt?: string, options: AICallOptions = {}) {
+    this.calls.push(options);
+    const tokensUsed = { input: 10, output: 5, total: 15 };
+
+    if (!options.chunk) {
+      return { content: JSON.stringify({ content: this.stitch(options.content ?? '') }), tokensUsed };
+    }
+
+    const part = options.chunk.index + 1;
+    return {
+      content: JSON.stringify({
+        content: `Part ${part} opens.[^1] More of part ${part}.\n\nPart ${part} closes.[^2]`,
+        citations: [
+          { marker: 1, text: `Opening fact ${part}` },
+          { marker: 2, text: `Closing fact ${part}` },
+        ],
+      }),
+      tokensUsed,
+    };
+  }
+
+  estimateCost(_operation: AIOperation, inputTokens: number, outputTokens: number = 0): number {
+    return (inputTokens + outputTokens) / 1000;
+  }
+}
+
+// Three paragraphs of about 1500 estimated tokens each, too large to share a chunk
+const longArticle = ['Council', 'Budget', 'Vote']
+  .map(topic => `${topic} news is reported here. `.repeat(200).trim())
+  .join('\n\n');
+
+describe('BaseAIProvider chunked rewrites', () => {
+  it('rewrites each chunk and joins them into one article', async () => {
+    const provider = new ScriptedProvider();
+
+    const result = await provider.rewriteArticle(longArticle, style);
+
+    expect(provider.calls.filter(call => call.chunk)).toHaveLength(3);
+    expect(result.content).toBe(
+      [1, 2, 3]
+        .map(part => `Part ${part} opens. More of part ${part}.\n\nPart ${part} closes.`)
+        .join('\n\n')
+    );
+    expect(result.tokensUsed).toEqual({ input: 50, output: 25, total: 75 });
+  });
+
+  it('shifts citation positions from their chunk into the whole article', async () => {
+    const provider = new ScriptedProvider();
+
+    const result = await provider.rewriteArticle(longArticle, style);
+
+    expect(result.citations).toHaveLength(6);
+    for (const citation of result.citations!) {
+      const [, kind, part] = citation.text.match(/^(Opening|Closing) fact (\d)$/)!;
+      const sentence = kind === 'Opening' ? `Part ${part} opens.` : `Part ${part} closes.`;
+
+      expect(result.content.slice(0, citation.position).endsWith(sentence)).toBe(true);
+    }
+  });
+
+  it('keeps citations whose marker was dropped while stitching in their chunk', async () => {
+    const provider = new ScriptedProvider(() => 'A smoother opening.');
+
+    const result = await provider.rewriteArticle(longArticle, style);
+    const secondPart = result.content.indexOf('A smoother opening.');
+    const thirdPart = result.content.lastIndexOf('A smoother opening.');
+    const opening = result.citations!.find(citation => citation.text === 'Opening fact 2')!;
+
+    expect(result.citations).toHaveLength(6);
+    expect(opening.position).toBeGreaterThanOrEqual(secondPart);
+    expect(opening.position).toBeLessThan(thirdPart);
+  });
+});
@@ -0,0 +1,100 @@
+import { CircuitBreaker } from '../../src/base/CircuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createBreaker = () =>
+    new CircuitBreaker({ windowSize: 4, minimumCalls: 4, errorRateThreshold: 0.5, cooldownMs: 1000 });
+
+  it('stays closed until the window has the minimum number of calls', () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('opens once the error rate reaches the threshold', () => {
+    const breaker = createBreaker();
+
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    expect(breaker.getErrorRate()).toBe(0.5);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('only counts the most recent calls', () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+
+    expect(breaker.getErrorRate()).toBe(0);
+  });
+
+  it('lets a single trial call through after the cooldown', () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      breaker.recordFailure();
+    }
+
+    now += 999;
+    expect(breaker.canRequest()).toBe(false);
+
+    now += 1;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('closes and forgets past failures when the trial call succeeds', () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      breaker.recordFailure();
+    }
+
+    now += 1000;
+    breaker.canRequest();
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getErrorRate()).toBe(0);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('opens again for another cooldown when the trial call fails', () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 4; i++) {
+      breaker.recordFailure();
+    }
+
+    now += 1000;
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+
+    now += 1000;
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
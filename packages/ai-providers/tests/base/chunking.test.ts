@@ -0,0 +1,62 @@
+import { estimateTokens, splitIntoChunks } from '../../src/base/chunking';
+
+// A paragraph of about `tokens` estimated tokens, made of short sentences
+const paragraph = (label: string, tokens: number) => {
+  const sentence = `${label} says something. `;
+  return sentence.repeat(Math.ceil((tokens * 4) / sentence.length)).trim();
+};
+
+describe('splitIntoChunks', () => {
+  it('keeps text that fits in one chunk whole', () => {
+    const content = 'First paragraph.\n\nSecond paragraph.';
+
+    expect(splitIntoChunks(content, { maxTokens: 100, overlapTokens: 10 })).toEqual([
+      { text: content, context: '' },
+    ]);
+  });
+
+  it('packs paragraphs into chunks without splitting them', () => {
+    const paragraphs = ['A', 'B', 'C'].map(label => paragraph(label, 40));
+    const chunks = splitIntoChunks(paragraphs.join('\n\n'), { maxTokens: 100, overlapTokens: 0 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual([
+      `${paragraphs[0]}\n\n${paragraphs[1]}`,
+      paragraphs[2],
+    ]);
+  });
+
+  it('gives each chunk after the first the end of the previous one as context', () => {
+    const paragraphs = ['A', 'B', 'C'].map(label => paragraph(label, 40));
+    const chunks = splitIntoChunks(paragraphs.join('\n\n'), { maxTokens: 100, overlapTokens: 50 });
+
+    expect(chunks[0].context).toBe('');
+    expect(chunks[1].context).toBe(paragraphs[1]);
+  });
+
+  it('cuts context that is longer than the overlap to its end', () => {
+    const paragraphs = ['A', 'B'].map(label => paragraph(label, 90));
+    const chunks = splitIntoChunks(paragraphs.join('\n\n'), { maxTokens: 100, overlapTokens: 10 });
+
+    expect(chunks[1].context).toHaveLength(40);
+    expect(paragraphs[0].endsWith(chunks[1].context)).toBe(true);
+  });
+
+  it('splits a paragraph that is too long on sentence boundaries', () => {
+    const long = paragraph('Officials', 250);
+    const chunks = splitIntoChunks(long, { maxTokens: 100, overlapTokens: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(100);
+      expect(chunk.text).toMatch(/^Officials.*\.$/);
+    }
+    expect(chunks.map(chunk => chunk.text).join(' ')).toBe(long);
+  });
+
+  it('splits text without sentence punctuation by length', () => {
+    const unpunctuated = 'x'.repeat(1000);
+    const chunks = splitIntoChunks(unpunctuated, { maxTokens: 100, overlapTokens: 0 });
+
+    expect(chunks.map(chunk => chunk.text.length)).toEqual([400, 400, 200]);
+  });
+});
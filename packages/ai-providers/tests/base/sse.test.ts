@@ -0,0 +1,54 @@
+import { readServerSentEvents, ServerSentEvent } from '../../src/base/sse';
+
+async function collect(chunks: Array<Buffer | string>): Promise<ServerSentEvent[]> {
+  async function* stream() {
+    yield* chunks;
+  }
+
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(stream())) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('readServerSentEvents', () => {
+  it('parses named events, multi-line data and comments', async () => {
+    const events = await collect([
+      ': keep-alive\n\nevent: delta\ndata: first line\ndata: second line\n\ndata: [DONE]\n\n',
+    ]);
+
+    expect(events).toEqual([
+      { event: 'delta', data: 'first line\nsecond line' },
+      { event: undefined, data: '[DONE]' },
+    ]);
+  });
+
+  it('keeps multi-byte characters split between chunks intact', async () => {
+    const bytes = Buffer.from('data: Überraschung in München 日本\n\n', 'utf8');
+
+    for (let cut = 1; cut < bytes.length; cut++) {
+      const events = await collect([bytes.subarray(0, cut), bytes.subarray(cut)]);
+      expect(events).toEqual([{ event: undefined, data: 'Überraschung in München 日本' }]);
+    }
+  });
+
+  it('accepts CRLF line endings, also when split between chunks', async () => {
+    const text = 'event: a\r\ndata: one\r\n\r\ndata: two\r\n\r\n';
+
+    for (let cut = 1; cut < text.length; cut++) {
+      const events = await collect([text.slice(0, cut), text.slice(cut)]);
+      expect(events).toEqual([
+        { event: 'a', data: 'one' },
+        { event: undefined, data: 'two' },
+      ]);
+    }
+  });
+
+  it('emits a last event without a trailing blank line', async () => {
+    expect(await collect(['data: one\n\ndata: two'])).toEqual([
+      { event: undefined, data: 'one' },
+      { event: undefined, data: 'two' },
+    ]);
+  });
+});
@@ -0,0 +1,144 @@
+import { AIProvider, AIProviderError, AIResponseValidationError } from '@news-curator/shared';
+import { FallbackAIProvider, isTransientError } from '../../src/providers/FallbackAIProvider';
+
+const transientError = () => new AIProviderError('Service unavailable', { status: 503 });
+const permanentError = () => new AIProviderError('Invalid API key', { status: 401 });
+
+function createProvider(name: string, generateSummary: jest.Mock): AIProvider {
+  return { name, model: `${name}-model`, generateSummary } as unknown as AIProvider;
+}
+
+const noBackoff = { baseDelayMs: 0, maxDelayMs: 0 };
+
+describe('FallbackAIProvider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the first provider\'s result without touching the rest', async () => {
+    const primary = jest.fn().mockResolvedValue('primary summary');
+    const secondary = jest.fn().mockResolvedValue('secondary summary');
+    const fallback = new FallbackAIProvider(
+      [createProvider('primary', primary), createProvider('secondary', secondary)],
+      noBackoff
+    );
+
+    await expect(fallback.generateSummary('text', 100)).resolves.toBe('primary summary');
+    expect(secondary).not.toHaveBeenCalled();
+  });
+
+  it('retries transient failures on the same provider', async () => {
+    const primary = jest.fn()
+      .mockRejectedValueOnce(transientError())
+      .mockRejectedValueOnce(transientError())
+      .mockResolvedValue('primary summary');
+    const secondary = jest.fn().mockResolvedValue('secondary summary');
+    const fallback = new FallbackAIProvider(
+      [createProvider('primary', primary), createProvider('secondary', secondary)],
+      { ...noBackoff, maxRetries: 2 }
+    );
+
+    await expect(fallback.generateSummary('text', 100)).resolves.toBe('primary summary');
+    expect(primary).toHaveBeenCalledTimes(3);
+    expect(secondary).not.toHaveBeenCalled();
+  });
+
+  it('moves on to the next provider once retries are used up', async () => {
+    const primary = jest.fn().mockRejectedValue(transientError());
+    const secondary = jest.fn().mockResolvedValue('secondary summary');
+    const fallback = new FallbackAIProvider(
+      [createProvider('primary', primary), createProvider('secondary', secondary)],
+      { ...noBackoff, maxRetries: 1 }
+    );
+
+    await expect(fallback.generateSummary('text', 100)).resolves.toBe('secondary summary');
+    expect(primary).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const primary = jest.fn().mockRejectedValue(permanentError());
+    const secondary = jest.fn().mockResolvedValue('secondary summary');
+    const fallback = new FallbackAIProvider(
+      [createProvider('primary', primary), createProvider('secondary', secondary)],
+      { ...noBackoff, maxRetries: 2 }
+    );
+
+    await expect(fallback.generateSummary('text', 100)).resolves.toBe('secondary summary');
+    expect(primary).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports every provider\'s failure when all of them fail', async () => {
+    const fallback = new FallbackAIProvider(
+      [
+        createProvider('primary', jest.fn().mockRejectedValue(permanentError())),
+        createProvider('secondary', jest.fn().mockRejectedValue(new Error('Bad gateway'))),
+      ],
+      noBackoff
+    );
+
+    const error = await fallback.generateSummary('text', 100).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AIProviderError);
+    expect(error.details.failures).toEqual([
+      { provider: 'primary:primary-model', error: 'Invalid API key' },
+      { provider: 'secondary:secondary-model', error: 'Bad gateway' },
+    ]);
+  });
+
+  it('keeps the validation error of the last provider tried', async () => {
+    const invalid = new AIResponseValidationError('Invalid summary response', {
+      operation: 'summary',
+      rawResponse: '{}',
+      issues: [],
+    });
+    const fallback = new FallbackAIProvider(
+      [createProvider('primary', jest.fn().mockRejectedValue(invalid))],
+      noBackoff
+    );
+
+    await expect(fallback.generateSummary('text', 100)).rejects.toBe(invalid);
+  });
+
+  it('skips a provider whose circuit is open', async () => {
+    const primary = jest.fn().mockRejectedValue(permanentError());
+    const secondary = jest.fn().mockResolvedValue('secondary summary');
+    const fallback = new FallbackAIProvider(
+      [createProvider('primary', primary), createProvider('secondary', secondary)],
+      { ...noBackoff, circuitBreaker: { minimumCalls: 2, errorRateThreshold: 0.5, cooldownMs: 60000 } }
+    );
+
+    await fallback.generateSummary('text', 100);
+    await fallback.generateSummary('text', 100);
+    await fallback.generateSummary('text', 100);
+
+    expect(primary).toHaveBeenCalledTimes(2);
+    expect(secondary).toHaveBeenCalledTimes(3);
+    expect(fallback.getCircuitStates()[0]).toMatchObject({ provider: 'primary:primary-model', state: 'open' });
+  });
+});
+
+describe('isTransientError', () => {
+  it('treats rate limits, server errors and timeouts as transient', () => {
+    expect(isTransientError(new AIProviderError('Rate limited', { status: 429 }))).toBe(true);
+    expect(isTransientError(new AIProviderError('Server error', { status: 500 }))).toBe(true);
+    expect(isTransientError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isTransientError(new Error('timeout of 30000ms exceeded'))).toBe(true);
+  });
+
+  it('follows wrapped errors', () => {
+    const wrapped = new AIProviderError('Failed to rewrite article', {
+      originalError: new AIProviderError('Overloaded', { status: 529 }),
+    });
+
+    expect(isTransientError(wrapped)).toBe(true);
+  });
+
+  it('treats client errors as permanent', () => {
+    expect(isTransientError(new AIProviderError('Bad request', { status: 400 }))).toBe(false);
+    expect(isTransientError(new Error('Unknown error'))).toBe(false);
+  });
+});
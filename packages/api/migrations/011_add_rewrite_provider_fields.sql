@@ -0,0 +1,6 @@
+-- Record which AI provider and model actually served each rewrite
+ALTER TABLE rewritten_articles
+  ADD COLUMN IF NOT EXISTS ai_provider VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS ai_model VARCHAR(255);
+
+CREATE INDEX idx_rewritten_articles_ai_provider ON rewritten_articles(ai_provider);
@@ -0,0 +1,19 @@
+-- Ledger of every AI provider call, for cost tracking and budgets
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  operation VARCHAR(50) NOT NULL,
+  provider VARCHAR(100) NOT NULL,
+  model VARCHAR(255),
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_ai_usage_user_created_at ON ai_usage(user_id, created_at DESC);
+CREATE INDEX idx_ai_usage_created_at ON ai_usage(created_at DESC);
+CREATE INDEX idx_ai_usage_operation ON ai_usage(operation);
@@ -0,0 +1,19 @@
+-- Versioned prompt templates, editable without redeploying
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key VARCHAR(100) NOT NULL,
+  version INTEGER NOT NULL,
+  template TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_prompt_template_version UNIQUE (key, version)
+);
+
+-- At most one active version per template
+CREATE UNIQUE INDEX idx_prompt_templates_active_key ON prompt_templates(key) WHERE is_active;
+
+-- Record which prompt template versions produced each rewrite
+ALTER TABLE rewritten_articles
+  ADD COLUMN IF NOT EXISTS prompt_versions JSONB;
@@ -0,0 +1,4 @@
+-- Fact-preservation check results for each rewrite
+ALTER TABLE rewritten_articles
+  ADD COLUMN IF NOT EXISTS fidelity_score DECIMAL(4, 3),
+  ADD COLUMN IF NOT EXISTS fidelity_discrepancies JSONB;
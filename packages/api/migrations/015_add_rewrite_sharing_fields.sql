@@ -0,0 +1,10 @@
+-- Content-addressed lookup so rewrites can be shared between users whose
+-- effective style settings are identical
+ALTER TABLE rewritten_articles
+  ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS style_fingerprint VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS shared_from_id UUID REFERENCES rewritten_articles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_rewritten_articles_fingerprint
+  ON rewritten_articles(content_hash, style_fingerprint, created_at DESC)
+  WHERE shared_from_id IS NULL;
@@ -0,0 +1,12 @@
+-- Rewrites queued ahead of a user's preferred reading time
+CREATE TABLE IF NOT EXISTS rewrite_warmups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  style_profile_id UUID NOT NULL REFERENCES style_profiles(id) ON DELETE CASCADE,
+  job_id VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_rewrite_warmup UNIQUE (user_id, article_id, style_profile_id)
+);
+
+CREATE INDEX idx_rewrite_warmups_user_created_at ON rewrite_warmups(user_id, created_at DESC);
@@ -0,0 +1,25 @@
+-- Single articles combining several reports of the same story
+CREATE TABLE IF NOT EXISTS story_syntheses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  style_profile_id UUID NOT NULL REFERENCES style_profiles(id) ON DELETE CASCADE,
+  article_ids UUID[] NOT NULL,
+  synthesized_content TEXT NOT NULL,
+  disagreements JSONB NOT NULL DEFAULT '[]',
+  processing_time_ms INTEGER,
+  ai_cost DECIMAL(10, 6),
+  ai_provider VARCHAR(100),
+  ai_model VARCHAR(255),
+  prompt_versions JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_story_syntheses_user_created_at ON story_syntheses(user_id, created_at DESC);
+
+-- Citations belong to either a rewrite or a synthesis
+ALTER TABLE citations
+  ALTER COLUMN rewritten_article_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS synthesis_id UUID REFERENCES story_syntheses(id) ON DELETE CASCADE,
+  ADD CONSTRAINT citations_single_owner CHECK (num_nonnulls(rewritten_article_id, synthesis_id) = 1);
+
+CREATE INDEX idx_citations_synthesis_id ON citations(synthesis_id);
@@ -0,0 +1,6 @@
+-- Anchor citations to a paragraph of the rewrite and to the supporting
+-- sentence in the source article
+ALTER TABLE citations
+  ADD COLUMN IF NOT EXISTS paragraph_index INTEGER,
+  ADD COLUMN IF NOT EXISTS original_start INTEGER,
+  ADD COLUMN IF NOT EXISTS original_end INTEGER;
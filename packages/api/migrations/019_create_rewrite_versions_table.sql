@@ -0,0 +1,73 @@
+-- Every generated version of a rewrite, so regenerating doesn't lose the previous one
+CREATE TABLE IF NOT EXISTS rewrite_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rewritten_article_id UUID NOT NULL REFERENCES rewritten_articles(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  rewritten_content TEXT NOT NULL,
+  summary TEXT,
+  key_points JSONB,
+  processing_time_ms INTEGER,
+  ai_cost DECIMAL(10, 6),
+  ai_provider VARCHAR(100),
+  ai_model VARCHAR(255),
+  prompt_versions JSONB,
+  fidelity_score DECIMAL(4, 3),
+  fidelity_discrepancies JSONB,
+  -- Citations as they were for this version, restored along with it
+  citations JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_rewrite_version UNIQUE (rewritten_article_id, version_number)
+);
+
+-- Version currently shown for each rewrite
+ALTER TABLE rewritten_articles
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Existing rewrites become their own first version
+INSERT INTO rewrite_versions (
+  rewritten_article_id,
+  version_number,
+  rewritten_content,
+  summary,
+  key_points,
+  processing_time_ms,
+  ai_cost,
+  ai_provider,
+  ai_model,
+  prompt_versions,
+  fidelity_score,
+  fidelity_discrepancies,
+  citations,
+  created_at
+)
+SELECT
+  ra.id,
+  1,
+  ra.rewritten_content,
+  ra.summary,
+  ra.key_points,
+  ra.processing_time_ms,
+  ra.ai_cost,
+  ra.ai_provider,
+  ra.ai_model,
+  ra.prompt_versions,
+  ra.fidelity_score,
+  ra.fidelity_discrepancies,
+  COALESCE(
+    (
+      SELECT jsonb_agg(jsonb_build_object(
+        'text', c.text,
+        'url', c.url,
+        'position', c.position,
+        'paragraphIndex', c.paragraph_index,
+        'originalStart', c.original_start,
+        'originalEnd', c.original_end
+      ) ORDER BY c.position)
+      FROM citations c
+      WHERE c.rewritten_article_id = ra.id
+    ),
+    '[]'
+  ),
+  ra.created_at
+FROM rewritten_articles ra
+ON CONFLICT (rewritten_article_id, version_number) DO NOTHING;
@@ -0,0 +1,37 @@
+-- Reader feedback on rewrites, one entry per reader and rewrite
+CREATE TABLE IF NOT EXISTS rewrite_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rewritten_article_id UUID NOT NULL REFERENCES rewritten_articles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  style_profile_id UUID NOT NULL REFERENCES style_profiles(id) ON DELETE CASCADE,
+  thumbs_up BOOLEAN NOT NULL,
+  rating SMALLINT CHECK (rating >= 1 AND rating <= 5),
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_rewrite_feedback UNIQUE (rewritten_article_id, user_id)
+);
+
+CREATE INDEX idx_rewrite_feedback_style_profile ON rewrite_feedback(style_profile_id, updated_at DESC);
+
+CREATE TRIGGER update_rewrite_feedback_updated_at BEFORE UPDATE ON rewrite_feedback
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Audit of the changes feedback made to style profiles
+CREATE TABLE IF NOT EXISTS style_profile_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  style_profile_id UUID NOT NULL REFERENCES style_profiles(id) ON DELETE CASCADE,
+  field VARCHAR(50) NOT NULL,
+  previous_value TEXT,
+  new_value TEXT,
+  reason TEXT NOT NULL,
+  feedback_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_style_profile_adjustments_profile ON style_profile_adjustments(style_profile_id, created_at DESC);
+
+ALTER TABLE style_profiles
+  ADD COLUMN IF NOT EXISTS auto_tune BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS feedback_guidance TEXT;
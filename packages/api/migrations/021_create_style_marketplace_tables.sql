@@ -0,0 +1,52 @@
+-- Gallery metadata, fork lineage and moderation state for style profiles
+ALTER TABLE style_profiles
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS forked_from_id UUID REFERENCES style_profiles(id) ON DELETE SET NULL,
+  -- Author of the first profile in the fork chain, kept even if forks in between are deleted
+  ADD COLUMN IF NOT EXISTS original_author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS moderation_status VARCHAR(20) NOT NULL DEFAULT 'visible'
+    CHECK (moderation_status IN ('visible', 'under_review', 'removed'));
+
+CREATE INDEX idx_style_profiles_tags ON style_profiles USING GIN (tags);
+CREATE INDEX idx_style_profiles_forked_from ON style_profiles(forked_from_id) WHERE forked_from_id IS NOT NULL;
+
+-- Uses per profile and day, for sorting the gallery by recent usage
+CREATE TABLE IF NOT EXISTS style_profile_daily_usage (
+  style_profile_id UUID NOT NULL REFERENCES style_profiles(id) ON DELETE CASCADE,
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  uses INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (style_profile_id, day)
+);
+
+CREATE INDEX idx_style_profile_daily_usage_day ON style_profile_daily_usage(day);
+
+CREATE TABLE IF NOT EXISTS style_profile_ratings (
+  style_profile_id UUID NOT NULL REFERENCES style_profiles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating >= 1 AND rating <= 5),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (style_profile_id, user_id)
+);
+
+CREATE TRIGGER update_style_profile_ratings_updated_at BEFORE UPDATE ON style_profile_ratings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS style_profile_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  style_profile_id UUID NOT NULL REFERENCES style_profiles(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason VARCHAR(50) NOT NULL,
+  details TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_style_profile_report UNIQUE (style_profile_id, reporter_id)
+);
+
+CREATE INDEX idx_style_profile_reports_open ON style_profile_reports(style_profile_id) WHERE status = 'open';
+
+-- Users allowed to review reported style profiles
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS is_moderator BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,54 @@
+-- One row per article and kind of analysis that has been run, so each
+-- analysis is only paid for once and an empty result is still remembered
+CREATE TABLE IF NOT EXISTS article_analyses (
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('entities', 'claims', 'quotes')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (article_id, kind)
+);
+
+-- People, organizations and places named in an article
+CREATE TABLE IF NOT EXISTS article_entities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('person', 'organization', 'place')),
+  role TEXT NOT NULL,
+  sort_order INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_article_entities_article_id ON article_entities(article_id, sort_order);
+CREATE INDEX idx_article_entities_name ON article_entities(LOWER(name));
+
+-- Check-worthy claims, anchored to their sentence in the original article
+CREATE TABLE IF NOT EXISTS article_claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  claimant VARCHAR(255),
+  check_worthiness VARCHAR(10) NOT NULL CHECK (check_worthiness IN ('low', 'medium', 'high')),
+  reason TEXT NOT NULL,
+  original_start INTEGER,
+  original_end INTEGER,
+  sort_order INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_article_claims_article_id ON article_claims(article_id, sort_order);
+
+-- Direct quotes with their speaker; only quotes found in the article are kept
+CREATE TABLE IF NOT EXISTS article_quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  text TEXT NOT NULL,
+  speaker VARCHAR(255) NOT NULL,
+  speaker_role VARCHAR(255),
+  original_start INTEGER NOT NULL,
+  original_end INTEGER NOT NULL,
+  sort_order INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_article_quotes_article_id ON article_quotes(article_id, sort_order);
+CREATE INDEX idx_article_quotes_speaker ON article_quotes(LOWER(speaker));
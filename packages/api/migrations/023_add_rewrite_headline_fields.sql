@@ -0,0 +1,10 @@
+-- Headline and teaser written in the rewrite's style, shown in the feed in
+-- place of the source's title. NULL when no headline passed the check that
+-- it is supported by the article.
+ALTER TABLE rewritten_articles
+  ADD COLUMN IF NOT EXISTS headline TEXT,
+  ADD COLUMN IF NOT EXISTS teaser TEXT;
+
+ALTER TABLE rewrite_versions
+  ADD COLUMN IF NOT EXISTS headline TEXT,
+  ADD COLUMN IF NOT EXISTS teaser TEXT;
@@ -0,0 +1,10 @@
+-- Language of each article, detected at ingestion. Articles ingested before
+-- this stay NULL, as do ones whose language couldn't be told.
+ALTER TABLE articles
+  ADD COLUMN IF NOT EXISTS language VARCHAR(8);
+
+CREATE INDEX idx_articles_language ON articles(language);
+
+-- Language a style's rewrites are written in; NULL keeps the article's language
+ALTER TABLE style_profiles
+  ADD COLUMN IF NOT EXISTS target_language VARCHAR(8);
@@ -0,0 +1,11 @@
+-- Readability metrics ({ grade, averageSentenceLength, rareWordRatio }) of the
+-- original and rewritten text. Only English text is measured, so other
+-- articles and rewrites stay NULL.
+ALTER TABLE articles
+  ADD COLUMN IF NOT EXISTS readability JSONB;
+
+ALTER TABLE rewritten_articles
+  ADD COLUMN IF NOT EXISTS readability JSONB;
+
+ALTER TABLE rewrite_versions
+  ADD COLUMN IF NOT EXISTS readability JSONB;
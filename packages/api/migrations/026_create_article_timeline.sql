@@ -0,0 +1,20 @@
+-- Timelines are stored like the other article analyses, once per article
+ALTER TABLE article_analyses DROP CONSTRAINT IF EXISTS article_analyses_kind_check;
+ALTER TABLE article_analyses
+  ADD CONSTRAINT article_analyses_kind_check
+  CHECK (kind IN ('entities', 'claims', 'quotes', 'timeline'));
+
+-- Dated events of the story an article is part of, each linked to the article
+-- (the timeline's own, or earlier coverage) it was reported in
+CREATE TABLE IF NOT EXISTS article_timeline_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  source_article_id UUID NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  -- YYYY, YYYY-MM or YYYY-MM-DD, so sorting as text is chronological
+  event_date VARCHAR(10) NOT NULL,
+  event TEXT NOT NULL,
+  sort_order INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_article_timeline_entries_article_id ON article_timeline_entries(article_id, sort_order);
@@ -0,0 +1,3 @@
+-- Users allowed to view and change the prompt templates every user's AI calls run on
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,8 @@
+-- Analyses are claimed as 'pending' before the AI call and marked 'done' once
+-- their results are stored, so no transaction stays open during the call.
+-- claim_id tells a claim apart from one that replaced it after going stale.
+ALTER TABLE article_analyses
+  ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'done'
+    CHECK (status IN ('pending', 'done')),
+  ADD COLUMN IF NOT EXISTS claim_id UUID,
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
@@ -10,6 +10,9 @@ import { styleProfilesRoutes } from './routes/style-profiles.routes';
 import { userRoutes } from './routes/user.routes';
 import { sourcesRoutes } from './routes/sources.routes';
 import { notificationsRoutes } from './routes/notifications.routes';
+import { promptTemplatesRoutes } from './routes/prompt-templates.routes';
+import { rewriteJobsRoutes } from './routes/rewrite-jobs.routes';
+import { synthesesRoutes } from './routes/syntheses.routes';
 import { AppError } from '@news-curator/shared';
 
 // Extend Fastify instance with database pool
@@ -85,6 +88,9 @@ export async function buildApp(): Promise<FastifyInstance> {
   await app.register(userRoutes, { prefix: '/api/user' });
   await app.register(sourcesRoutes, { prefix: '/api' });
   await app.register(notificationsRoutes, { prefix: '/api/notifications' });
+  await app.register(promptTemplatesRoutes, { prefix: '/api/prompt-templates' });
+  await app.register(rewriteJobsRoutes, { prefix: '/api/rewrite-jobs' });
+  await app.register(synthesesRoutes, { prefix: '/api/syntheses' });
 
   return app;
 }
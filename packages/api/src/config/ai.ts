@@ -0,0 +1,96 @@
+import { AIProvider, AIProviderConfig } from '@news-curator/shared';
+import { AIProviderFactory } from '@news-curator/ai-providers';
+import { env } from './env';
+import { getDatabasePool } from './database';
+import { AIUsageService, getAIUsageUser } from '../services/ai-usage.service';
+import { PromptTemplateService } from '../services/prompt-template.service';
+
+let aiProvider: AIProvider | null = null;
+let promptTemplateService: PromptTemplateService | null = null;
+
+function buildProviderConfig(
+  provider: AIProviderConfig['provider'],
+  model: string,
+  apiKey: string
+): AIProviderConfig {
+  return {
+    provider,
+    apiKey,
+    model,
+    temperature: 0.7,
+    maxTokens: 4000,
+    timeoutMs: 30000,
+    baseUrl: env.AI_BASE_URL,
+    mock: {
+      fixturesDir: env.AI_MOCK_FIXTURES_DIR,
+      latencyMs: env.AI_MOCK_LATENCY_MS,
+      failureRate: env.AI_MOCK_FAILURE_RATE,
+      failureStatus: 503,
+      seed: 42,
+    },
+  };
+}
+
+/**
+ * Parse AI_FALLBACK_CHAIN ("provider:model,provider:model") into provider configs.
+ * Each entry uses AI_API_KEY_<PROVIDER> when set, otherwise AI_API_KEY.
+ */
+function parseFallbackChain(chain: string): AIProviderConfig[] {
+  return chain
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      // Split on the first colon only; OpenRouter model ids may contain colons
+      const separator = entry.indexOf(':');
+      if (separator === -1) {
+        throw new Error(`Invalid AI_FALLBACK_CHAIN entry: ${entry}`);
+      }
+
+      const provider = entry.slice(0, separator) as AIProviderConfig['provider'];
+      const model = entry.slice(separator + 1);
+      const apiKey = process.env[`AI_API_KEY_${provider.toUpperCase()}`] || env.AI_API_KEY;
+
+      return buildProviderConfig(provider, model, apiKey);
+    });
+}
+
+/**
+ * Get the shared AI provider.
+ * The primary provider is always wrapped in a fallback chain so transient
+ * failures are retried and circuit breaker state is shared across the app.
+ * Wrap calls in runWithAIUsageUser() so their usage is attributed to a user.
+ */
+export function getAIProvider(): AIProvider {
+  if (!aiProvider) {
+    const configs = [
+      buildProviderConfig(env.AI_PROVIDER, env.AI_MODEL || 'anthropic/claude-3-haiku', env.AI_API_KEY),
+      ...(env.AI_FALLBACK_CHAIN ? parseFallbackChain(env.AI_FALLBACK_CHAIN) : []),
+    ];
+
+    aiProvider = AIProviderFactory.createWithFallback(configs);
+
+    // Record every model call in the usage ledger, attributed to the current user
+    aiProvider.onUsage(record => {
+      new AIUsageService(getDatabasePool())
+        .recordUsage(record, getAIUsageUser())
+        .catch(error => console.error('Failed to record AI usage:', error));
+    });
+
+    aiProvider.setPromptRegistry(getPromptTemplateService());
+  }
+
+  return aiProvider;
+}
+
+/**
+ * Get the shared prompt template registry.
+ * Until load() has completed, providers fall back to the built-in templates.
+ */
+export function getPromptTemplateService(): PromptTemplateService {
+  if (!promptTemplateService) {
+    promptTemplateService = new PromptTemplateService(getDatabasePool());
+  }
+
+  return promptTemplateService;
+}
@@ -24,9 +24,34 @@ export interface EnvConfig {
   JWT_REFRESH_EXPIRES_IN: string;
 
   // AI Provider
-  AI_PROVIDER: 'openrouter' | 'openai' | 'anthropic';
+  AI_PROVIDER: 'openrouter' | 'openai' | 'anthropic' | 'mock' | 'local';
   AI_API_KEY: string;
   AI_MODEL: string;
+  AI_BASE_URL?: string;
+  AI_FALLBACK_CHAIN?: string;
+
+  // Offline mock provider (AI_PROVIDER=mock)
+  AI_MOCK_FIXTURES_DIR?: string;
+  AI_MOCK_LATENCY_MS: number;
+  AI_MOCK_FAILURE_RATE: number;
+
+  // AI spending budgets in USD (unset = unlimited)
+  AI_BUDGET_USER_DAILY?: number;
+  AI_BUDGET_USER_MONTHLY?: number;
+  AI_BUDGET_GLOBAL_DAILY?: number;
+  AI_BUDGET_GLOBAL_MONTHLY?: number;
+
+  // Rewrites scoring below the fidelity threshold (0-1) are retried (unset = no retries)
+  REWRITE_FIDELITY_THRESHOLD?: number;
+  REWRITE_FIDELITY_MAX_RETRIES: number;
+
+  // Rewrites reading outside their style's grade range are retried this many times (0 = never)
+  REWRITE_READABILITY_MAX_RETRIES: number;
+
+  // Rewrites queued before each user's preferred reading time
+  WARMUP_ENABLED: boolean;
+  WARMUP_MAX_REWRITES_PER_USER_PER_DAY: number;
+  WARMUP_INACTIVE_AFTER_DAYS: number;
 
   // Redis (for queue)
   REDIS_HOST: string;
@@ -82,9 +107,24 @@ export const env: EnvConfig = {
   JWT_REFRESH_EXPIRES_IN: getEnv('JWT_REFRESH_EXPIRES_IN', '7d'),
 
   // AI Provider
-  AI_PROVIDER: getEnv('AI_PROVIDER', 'openrouter') as 'openrouter',
+  AI_PROVIDER: getEnv('AI_PROVIDER', 'openrouter') as EnvConfig['AI_PROVIDER'],
   AI_API_KEY: getEnv('AI_API_KEY', ''),
   AI_MODEL: getEnv('AI_MODEL', 'anthropic/claude-3-haiku'),
+  AI_BASE_URL: process.env.AI_BASE_URL,
+  AI_FALLBACK_CHAIN: process.env.AI_FALLBACK_CHAIN,
+  AI_MOCK_FIXTURES_DIR: process.env.AI_MOCK_FIXTURES_DIR,
+  AI_MOCK_LATENCY_MS: getEnvNumber('AI_MOCK_LATENCY_MS', 0),
+  AI_MOCK_FAILURE_RATE: process.env.AI_MOCK_FAILURE_RATE ? parseFloat(process.env.AI_MOCK_FAILURE_RATE) : 0,
+  AI_BUDGET_USER_DAILY: process.env.AI_BUDGET_USER_DAILY ? parseFloat(process.env.AI_BUDGET_USER_DAILY) : undefined,
+  AI_BUDGET_USER_MONTHLY: process.env.AI_BUDGET_USER_MONTHLY ? parseFloat(process.env.AI_BUDGET_USER_MONTHLY) : undefined,
+  AI_BUDGET_GLOBAL_DAILY: process.env.AI_BUDGET_GLOBAL_DAILY ? parseFloat(process.env.AI_BUDGET_GLOBAL_DAILY) : undefined,
+  AI_BUDGET_GLOBAL_MONTHLY: process.env.AI_BUDGET_GLOBAL_MONTHLY ? parseFloat(process.env.AI_BUDGET_GLOBAL_MONTHLY) : undefined,
+  REWRITE_FIDELITY_THRESHOLD: process.env.REWRITE_FIDELITY_THRESHOLD ? parseFloat(process.env.REWRITE_FIDELITY_THRESHOLD) : undefined,
+  REWRITE_FIDELITY_MAX_RETRIES: getEnvNumber('REWRITE_FIDELITY_MAX_RETRIES', 1),
+  REWRITE_READABILITY_MAX_RETRIES: getEnvNumber('REWRITE_READABILITY_MAX_RETRIES', 1),
+  WARMUP_ENABLED: process.env.WARMUP_ENABLED !== 'false',
+  WARMUP_MAX_REWRITES_PER_USER_PER_DAY: getEnvNumber('WARMUP_MAX_REWRITES_PER_USER_PER_DAY', 10),
+  WARMUP_INACTIVE_AFTER_DAYS: getEnvNumber('WARMUP_INACTIVE_AFTER_DAYS', 7),
 
   // Redis
   REDIS_HOST: getEnv('REDIS_HOST', 'localhost'),
@@ -23,6 +23,7 @@ export const createRedisConnection = () => {
 // Queue names
 export const QUEUE_NAMES = {
   NEWS_INGESTION: 'news-ingestion',
+  ARTICLE_REWRITE: 'article-rewrite',
 } as const;
 
 // Job types
@@ -32,6 +33,17 @@ export interface NewsIngestionJobData {
   url: string;
 }
 
+export interface ArticleRewriteJobData {
+  articleId: string;
+  userId: string;
+  styleProfileId: string;
+  options: {
+    skipCache?: boolean;
+    includeKeyPoints?: boolean;
+    includeSummary?: boolean;
+  };
+}
+
 // Create news ingestion queue
 export const newsIngestionQueue = new Queue<NewsIngestionJobData>(
   QUEUE_NAMES.NEWS_INGESTION,
@@ -54,6 +66,27 @@ export const newsIngestionQueue = new Queue<NewsIngestionJobData>(
   }
 );
 
+// Create article rewrite queue
+export const articleRewriteQueue = new Queue<ArticleRewriteJobData>(
+  QUEUE_NAMES.ARTICLE_REWRITE,
+  {
+    connection: createRedisConnection(),
+    defaultJobOptions: {
+      attempts: 2,
+      backoff: {
+        type: 'exponential',
+        delay: 5000,
+      },
+      removeOnComplete: {
+        age: 3600, // Keep completed jobs for an hour so clients can fetch the result
+      },
+      removeOnFail: {
+        age: 24 * 3600, // Keep failed jobs for 24 hours
+      },
+    },
+  }
+);
+
 // Queue events for monitoring
 export const newsIngestionQueueEvents = new QueueEvents(
   QUEUE_NAMES.NEWS_INGESTION,
@@ -66,6 +99,7 @@ export const newsIngestionQueueEvents = new QueueEvents(
 export const closeRedis = async () => {
   await newsIngestionQueue.close();
   await newsIngestionQueueEvents.close();
+  await articleRewriteQueue.close();
   await redis.quit();
 };
 
@@ -2,14 +2,19 @@ import { buildApp } from './app';
 import { createDatabasePool, closeDatabasePool, getDatabasePool } from './config/database';
 import { closeRedis } from './config/redis';
 import { env } from './config/env';
+import { getPromptTemplateService } from './config/ai';
 import { IngestionWorker } from './workers/ingestion.worker';
+import { RewriteWorker } from './workers/rewrite.worker';
 import { SchedulerService } from './services/scheduler.service';
 import { NotificationSchedulerService } from './services/notification-scheduler.service';
+import { RewriteWarmUpSchedulerService } from './services/rewrite-warmup-scheduler.service';
 
 async function start() {
   let worker: IngestionWorker | null = null;
+  let rewriteWorker: RewriteWorker | null = null;
   let scheduler: SchedulerService | null = null;
   let notificationScheduler: NotificationSchedulerService | null = null;
+  let warmUpScheduler: RewriteWarmUpSchedulerService | null = null;
 
   try {
     // Initialize database connection
@@ -23,10 +28,20 @@ async function start() {
 
     const db = getDatabasePool();
 
+    // Load versioned prompt templates (seeding the built-in ones on first run)
+    const promptTemplates = getPromptTemplateService();
+    await promptTemplates.load();
+    promptTemplates.startAutoRefresh();
+    console.log('✅ Prompt templates loaded');
+
     // Start ingestion worker
     worker = new IngestionWorker(db);
     console.log('✅ News ingestion worker started');
 
+    // Start article rewrite worker
+    rewriteWorker = new RewriteWorker(db);
+    console.log('✅ Article rewrite worker started');
+
     // Start scheduler for periodic ingestion (runs every 15 minutes)
     scheduler = new SchedulerService(db, 15);
     scheduler.start();
@@ -37,6 +52,13 @@ async function start() {
     notificationScheduler.start();
     console.log('✅ Notification scheduler started');
 
+    // Start pre-generating rewrites ahead of users' reading times
+    if (env.WARMUP_ENABLED) {
+      warmUpScheduler = new RewriteWarmUpSchedulerService(db);
+      warmUpScheduler.start();
+      console.log('✅ Rewrite warm-up scheduler started');
+    }
+
     // Build and start Fastify app
     const app = await buildApp();
 
@@ -60,11 +82,18 @@ async function start() {
         if (notificationScheduler) {
           notificationScheduler.stop();
         }
+        if (warmUpScheduler) {
+          warmUpScheduler.stop();
+        }
+        getPromptTemplateService().stopAutoRefresh();
 
-        // Close worker
+        // Close workers
         if (worker) {
           await worker.close();
         }
+        if (rewriteWorker) {
+          await rewriteWorker.close();
+        }
 
         // Close app
         await app.close();
@@ -85,12 +114,18 @@ async function start() {
     if (worker) {
       await worker.close();
     }
+    if (rewriteWorker) {
+      await rewriteWorker.close();
+    }
     if (scheduler) {
       scheduler.stop();
     }
     if (notificationScheduler) {
       notificationScheduler.stop();
     }
+    if (warmUpScheduler) {
+      warmUpScheduler.stop();
+    }
     await closeRedis();
     await closeDatabasePool();
 
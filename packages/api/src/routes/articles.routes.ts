@@ -1,18 +1,32 @@
-import { FastifyInstance, FastifyRequest } from 'fastify';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { OutgoingHttpHeaders } from 'http';
 import { ArticleService } from '../services/article.service';
 import { ArticleRewritingService } from '../services/article-rewriting.service';
 import { ArticleCacheService } from '../services/article-cache.service';
+import { AIUsageService, runWithAIUsageUser } from '../services/ai-usage.service';
+import { RewriteJobService } from '../services/rewrite-job.service';
+import { RewriteVersionService } from '../services/rewrite-version.service';
+import { RewriteFeedbackService } from '../services/rewrite-feedback.service';
+import { ArticleAnalysisService } from '../services/article-analysis.service';
 import { authenticateUser, optionalAuth } from '../middleware/auth.middleware';
-import { ArticleCategory, ValidationError, AIProviderError } from '@news-curator/shared';
-import { AIProviderFactory } from '@news-curator/ai-providers';
+import {
+  ArticleCategory,
+  CreateRewriteFeedbackSchema,
+  Language,
+  ValidationError,
+  AIProviderError,
+  AppError,
+} from '@news-curator/shared';
 import { redis } from '../config/redis';
-import { env } from '../config/env';
+import { getAIProvider, getPromptTemplateService } from '../config/ai';
 import { z } from 'zod';
 
 // Request schemas
 const ListArticlesQuerySchema = z.object({
   category: z.nativeEnum(ArticleCategory).optional(),
   sourceId: z.string().uuid().optional(),
+  /** Language the articles were originally written in */
+  language: z.nativeEnum(Language).optional(),
   search: z.string().optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
@@ -33,6 +47,10 @@ const RewriteArticleBodySchema = z.object({
   includeSummary: z.boolean().optional(),
 });
 
+const RewriteArticleQuerySchema = z.object({
+  async: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
 const GetRewrittenArticleParamsSchema = z.object({
   id: z.string().uuid(),
   styleProfileId: z.string().uuid(),
@@ -43,6 +61,16 @@ const ListRewrittenArticlesQuerySchema = z.object({
   offset: z.coerce.number().min(0).default(0),
 });
 
+const RewriteVersionParamsSchema = z.object({
+  id: z.string().uuid(),
+  version: z.coerce.number().int().positive(),
+});
+
+const RewriteDiffQuerySchema = z.object({
+  from: z.union([z.literal('original'), z.coerce.number().int().positive()]).default('original'),
+  to: z.coerce.number().int().positive().optional(),
+});
+
 const EnrichContextBodySchema = z.object({
   topic: z.string().optional(),
 });
@@ -52,14 +80,18 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
 
   // Initialize comprehensive rewriting service
   const cacheService = new ArticleCacheService(redis);
-  const aiProvider = AIProviderFactory.create({
-    provider: env.AI_PROVIDER,
-    apiKey: env.AI_API_KEY,
-    model: env.AI_MODEL || 'anthropic/claude-3-haiku',
-    temperature: 0.7,
-    maxTokens: 4000,
-  });
-  const rewritingService = new ArticleRewritingService(app.db, aiProvider, cacheService);
+  const aiProvider = getAIProvider();
+  const rewritingService = new ArticleRewritingService(
+    app.db,
+    aiProvider,
+    cacheService,
+    getPromptTemplateService()
+  );
+  const usageService = new AIUsageService(app.db);
+  const rewriteJobService = new RewriteJobService();
+  const versionService = new RewriteVersionService(app.db, cacheService);
+  const feedbackService = new RewriteFeedbackService(app.db);
+  const analysisService = new ArticleAnalysisService(app.db, aiProvider);
 
   /**
    * GET /articles
@@ -78,6 +110,7 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
         const filters = {
           category: query.category,
           sourceId: query.sourceId,
+          language: query.language,
           search: query.search,
           startDate: query.startDate ? new Date(query.startDate) : undefined,
           endDate: query.endDate ? new Date(query.endDate) : undefined,
@@ -140,7 +173,9 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
 
   /**
    * POST /articles/:id/rewrite
-   * Rewrite an article using a specific style profile
+   * Rewrite an article using a specific style profile.
+   * With `?async=true` the rewrite is queued and a job is returned (202);
+   * poll GET /rewrite-jobs/:id for progress and the result.
    * Requires authentication
    */
   app.post(
@@ -152,16 +187,37 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
       request: FastifyRequest<{
         Params: z.infer<typeof ArticleIdParamsSchema>;
         Body: z.infer<typeof RewriteArticleBodySchema>;
-      }>
+      }>,
+      reply: FastifyReply
     ) => {
       try {
         const params = ArticleIdParamsSchema.parse(request.params);
         const body = RewriteArticleBodySchema.parse(request.body);
+        const query = RewriteArticleQuerySchema.parse(request.query);
 
         if (!request.user) {
           throw new ValidationError('User not authenticated');
         }
 
+        if (query.async) {
+          const job = await rewriteJobService.enqueueRewrite(
+            params.id,
+            request.user.userId,
+            body.styleProfileId,
+            {
+              skipCache: body.skipCache,
+              includeKeyPoints: body.includeKeyPoints,
+              includeSummary: body.includeSummary,
+            }
+          );
+
+          reply.code(202);
+          return {
+            success: true,
+            data: job,
+          };
+        }
+
         const rewrittenArticle = await rewritingService.rewriteArticle(
           params.id,
           request.user.userId,
@@ -190,6 +246,89 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  /**
+   * POST /articles/:id/rewrite/stream
+   * Rewrite an article, streaming the rewritten text as Server-Sent Events.
+   * Emits `token` events while generating, then a single `complete` event
+   * with the stored rewrite, or an `error` event if the rewrite fails.
+   * Requires authentication
+   */
+  app.post(
+    '/:id/rewrite/stream',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      let params: z.infer<typeof ArticleIdParamsSchema>;
+      let body: z.infer<typeof RewriteArticleBodySchema>;
+
+      // Validate before switching to a streaming response so that bad
+      // requests still get a regular JSON error
+      try {
+        params = ArticleIdParamsSchema.parse(request.params);
+        body = RewriteArticleBodySchema.parse(request.body);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid request', { errors: error.errors });
+        }
+        throw error;
+      }
+
+      if (!request.user) {
+        throw new ValidationError('User not authenticated');
+      }
+
+      reply.hijack();
+      // Keep headers already set by plugins (e.g. CORS) on the raw response
+      reply.raw.writeHead(200, {
+        ...(reply.getHeaders() as OutgoingHttpHeaders),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+
+      // The request's own 'close' fires as soon as its body has been read, so
+      // a reader leaving is seen on the response
+      let clientClosed = false;
+      reply.raw.on('close', () => {
+        clientClosed = true;
+      });
+
+      const sendEvent = (event: string, data: unknown) => {
+        if (!clientClosed && !reply.raw.destroyed && !reply.raw.writableEnded) {
+          reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      };
+
+      try {
+        const rewrittenArticle = await rewritingService.rewriteArticleStream(
+          params.id,
+          request.user.userId,
+          body.styleProfileId,
+          text => sendEvent('token', { text }),
+          text => sendEvent('replace', { text }),
+          {
+            skipCache: body.skipCache,
+            includeKeyPoints: body.includeKeyPoints,
+            includeSummary: body.includeSummary,
+            addSourceCitation: true,
+          }
+        );
+
+        sendEvent('complete', rewrittenArticle);
+      } catch (error) {
+        request.log.error(error);
+        sendEvent('error', {
+          code: error instanceof AppError ? error.code : 'INTERNAL_SERVER_ERROR',
+          message: error instanceof AppError ? error.message : 'An unexpected error occurred',
+        });
+      } finally {
+        reply.raw.end();
+      }
+    }
+  );
+
   /**
    * GET /articles/:id/rewritten/:styleProfileId
    * Get a rewritten article by article ID and style profile ID
@@ -320,6 +459,190 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  /**
+   * GET /articles/rewritten/:id/versions
+   * List every generated version of a rewritten article, newest first
+   * Requires authentication
+   */
+  app.get(
+    '/rewritten/:id/versions',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = ArticleIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const versions = await versionService.getVersions(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: versions,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid rewritten article ID', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /articles/rewritten/:id/versions/:version/restore
+   * Show an earlier version of a rewritten article again
+   * Requires authentication
+   */
+  app.post(
+    '/rewritten/:id/versions/:version/restore',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = RewriteVersionParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const { articleId, styleProfileId } = await versionService.restoreVersion(
+          params.id,
+          params.version,
+          request.user.userId
+        );
+
+        const rewrittenArticle = await rewritingService.getRewrittenArticle(
+          articleId,
+          request.user.userId,
+          styleProfileId
+        );
+
+        return {
+          success: true,
+          data: rewrittenArticle,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid parameters', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /articles/rewritten/:id/diff
+   * Word-level diff between the original article (from=original) or a
+   * version (from=<n>) and another version (to, default the current one)
+   * Requires authentication
+   */
+  app.get(
+    '/rewritten/:id/diff',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = ArticleIdParamsSchema.parse(request.params);
+        const query = RewriteDiffQuerySchema.parse(request.query);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const diff = await versionService.diffVersions(
+          params.id,
+          request.user.userId,
+          query.from,
+          query.to
+        );
+
+        return {
+          success: true,
+          data: diff,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid parameters', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /articles/rewritten/:id/feedback
+   * Get the user's feedback on a rewritten article (null if none given)
+   * Requires authentication
+   */
+  app.get(
+    '/rewritten/:id/feedback',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = ArticleIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const feedback = await feedbackService.getFeedback(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: feedback,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid rewritten article ID', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /articles/rewritten/:id/feedback
+   * Rate a rewritten article (thumbs, optional 1-5 rating and reasons).
+   * Replaces earlier feedback; may tune the rewrite's style profile.
+   * Requires authentication
+   */
+  app.post(
+    '/rewritten/:id/feedback',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = ArticleIdParamsSchema.parse(request.params);
+        const data = CreateRewriteFeedbackSchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const feedback = await feedbackService.submitFeedback(params.id, request.user.userId, data);
+
+        return {
+          success: true,
+          data: feedback,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid request', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
   /**
    * GET /articles/cache/stats
    * Get cache statistics
@@ -381,10 +704,19 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
     ) => {
       try {
         const params = ArticleIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const userId = request.user.userId;
+        await usageService.assertWithinBudget(userId);
         const article = await articleService.getArticleById(params.id);
 
         // Analyze bias using AI provider
-        const biasAnalysis = await aiProvider.detectBias(article.content);
+        const biasAnalysis = await runWithAIUsageUser(userId, () =>
+          aiProvider.detectBias(article.originalContent)
+        );
 
         return {
           success: true,
@@ -421,18 +753,27 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
       try {
         const params = ArticleIdParamsSchema.parse(request.params);
         const body = EnrichContextBodySchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const userId = request.user.userId;
+        await usageService.assertWithinBudget(userId);
         const article = await articleService.getArticleById(params.id);
 
         // Use article title as topic if not provided
         const topic = body.topic || article.title;
 
         // Enrich with context using AI provider
-        const enrichedContent = await aiProvider.enrichWithContext(article.content, topic);
+        const enrichedContent = await runWithAIUsageUser(userId, () =>
+          aiProvider.enrichWithContext(article.originalContent, topic)
+        );
 
         return {
           success: true,
           data: {
-            originalContent: article.content,
+            originalContent: article.originalContent,
             enrichedContent,
             topic,
           },
@@ -468,10 +809,19 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
       try {
         const params = ArticleIdParamsSchema.parse(request.params);
         const count = request.query.count || 5;
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const userId = request.user.userId;
+        await usageService.assertWithinBudget(userId);
         const article = await articleService.getArticleById(params.id);
 
         // Extract key points using AI provider
-        const keyPoints = await aiProvider.extractKeyPoints(article.content, count);
+        const keyPoints = await runWithAIUsageUser(userId, () =>
+          aiProvider.extractKeyPoints(article.originalContent, count)
+        );
 
         return {
           success: true,
@@ -491,4 +841,149 @@ export async function articlesRoutes(app: FastifyInstance): Promise<void> {
       }
     }
   );
+
+  /**
+   * GET /articles/:id/entities
+   * People, organizations and places named in an article, with their roles
+   * Requires authentication
+   */
+  app.get(
+    '/:id/entities',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = ArticleIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const entities = await analysisService.getEntities(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: {
+            entities,
+            count: entities.length,
+          },
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid article ID', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /articles/:id/claims
+   * Check-worthy factual claims made in an article
+   * Requires authentication
+   */
+  app.get(
+    '/:id/claims',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = ArticleIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const claims = await analysisService.getClaims(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: {
+            claims,
+            count: claims.length,
+          },
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid article ID', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /articles/:id/quotes
+   * Direct quotes in an article, attributed to their speakers
+   * Requires authentication
+   */
+  app.get(
+    '/:id/quotes',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = ArticleIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const quotes = await analysisService.getQuotes(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: {
+            quotes,
+            count: quotes.length,
+          },
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid article ID', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /articles/:id/timeline
+   * Dated events of the story, from this and earlier articles about it,
+   * each linked to the article it came from
+   * Requires authentication
+   */
+  app.get(
+    '/:id/timeline',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = ArticleIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const entries = await analysisService.getTimeline(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: {
+            entries,
+            count: entries.length,
+          },
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid article ID', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
 }
@@ -0,0 +1,159 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { authenticateUser } from '../middleware/auth.middleware';
+import { getPromptTemplateService } from '../config/ai';
+import {
+  CreatePromptTemplateVersionSchema,
+  PromptTemplateKey,
+  ValidationError,
+} from '@news-curator/shared';
+import { z } from 'zod';
+
+// Request schemas
+const PromptTemplateKeyParamsSchema = z.object({
+  key: z.nativeEnum(PromptTemplateKey),
+});
+
+const PromptTemplateVersionParamsSchema = z.object({
+  key: z.nativeEnum(PromptTemplateKey),
+  version: z.coerce.number().int().positive(),
+});
+
+// Prompt management (admins only: templates are shared by every user's AI calls)
+export async function promptTemplatesRoutes(app: FastifyInstance): Promise<void> {
+  const promptTemplateService = getPromptTemplateService();
+
+  /**
+   * GET /prompt-templates
+   * Get the active version of every prompt template
+   * Requires authentication as an admin
+   */
+  app.get(
+    '/',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      if (!request.user) {
+        throw new ValidationError('User not authenticated');
+      }
+
+      const templates = await promptTemplateService.getActiveTemplates(request.user.userId);
+
+      return {
+        success: true,
+        data: templates,
+      };
+    }
+  );
+
+  /**
+   * GET /prompt-templates/:key/versions
+   * Get every version of a prompt template, newest first
+   * Requires authentication as an admin
+   */
+  app.get(
+    '/:key/versions',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = PromptTemplateKeyParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const versions = await promptTemplateService.getTemplateVersions(
+          params.key,
+          request.user.userId
+        );
+
+        return {
+          success: true,
+          data: versions,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid prompt template key', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /prompt-templates/:key/versions
+   * Create a new version of a prompt template (active immediately by default)
+   * Requires authentication as an admin
+   */
+  app.post(
+    '/:key/versions',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = PromptTemplateKeyParamsSchema.parse(request.params);
+        const body = CreatePromptTemplateVersionSchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const template = await promptTemplateService.createTemplateVersion(
+          params.key,
+          request.user.userId,
+          body
+        );
+
+        return {
+          success: true,
+          data: template,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid request', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /prompt-templates/:key/versions/:version/activate
+   * Make a version the active one, e.g. to roll back a bad prompt change
+   * Requires authentication as an admin
+   */
+  app.post(
+    '/:key/versions/:version/activate',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = PromptTemplateVersionParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const template = await promptTemplateService.activateTemplateVersion(
+          params.key,
+          params.version,
+          request.user.userId
+        );
+
+        return {
+          success: true,
+          data: template,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid request', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+}
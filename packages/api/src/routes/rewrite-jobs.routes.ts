@@ -0,0 +1,48 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { authenticateUser } from '../middleware/auth.middleware';
+import { RewriteJobService } from '../services/rewrite-job.service';
+import { ValidationError } from '@news-curator/shared';
+import { z } from 'zod';
+
+// Request schemas
+const RewriteJobParamsSchema = z.object({
+  id: z.string().min(1),
+});
+
+export async function rewriteJobsRoutes(app: FastifyInstance): Promise<void> {
+  const rewriteJobService = new RewriteJobService();
+
+  /**
+   * GET /rewrite-jobs/:id
+   * Get the state and progress of a queued rewrite, and the rewritten
+   * article once it has completed
+   * Requires authentication
+   */
+  app.get(
+    '/:id',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = RewriteJobParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const job = await rewriteJobService.getJob(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: job,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid rewrite job id', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -1,8 +1,21 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
 import { StyleProfileService } from '../services/style-profile.service';
+import { RewriteFeedbackService } from '../services/rewrite-feedback.service';
+import { StyleLearningService } from '../services/style-learning.service';
+import { StylePreviewService } from '../services/style-preview.service';
+import { StyleMarketplaceService } from '../services/style-marketplace.service';
 import { authenticateUser } from '../middleware/auth.middleware';
+import { getAIProvider, getPromptTemplateService } from '../config/ai';
+import { redis } from '../config/redis';
 import {
+  CreateStyleProfileReportSchema,
   CreateStyleProfileSchema,
+  ForkStyleProfileSchema,
+  LearnStyleProfileSchema,
+  ModerateStyleProfileSchema,
+  RateStyleProfileSchema,
+  StyleGalleryQuerySchema,
+  StylePreviewRequestSchema,
   UpdateStyleProfileSchema,
   ValidationError,
 } from '@news-curator/shared';
@@ -13,12 +26,25 @@ const StyleProfileIdParamsSchema = z.object({
   id: z.string().uuid(),
 });
 
-const GetPublicProfilesQuerySchema = z.object({
-  limit: z.coerce.number().min(1).max(100).default(20),
+const ListAdjustmentsQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
+
+const ModerationQueueQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(50),
 });
 
 export async function styleProfilesRoutes(app: FastifyInstance): Promise<void> {
   const styleProfileService = new StyleProfileService(app.db);
+  const feedbackService = new RewriteFeedbackService(app.db);
+  const learningService = new StyleLearningService(app.db, getAIProvider());
+  const previewService = new StylePreviewService(
+    app.db,
+    getAIProvider(),
+    redis,
+    getPromptTemplateService()
+  );
+  const marketplaceService = new StyleMarketplaceService(app.db);
 
   /**
    * GET /style-profiles
@@ -45,18 +71,26 @@ export async function styleProfilesRoutes(app: FastifyInstance): Promise<void> {
 
   /**
    * GET /style-profiles/public
-   * Get public style profiles (community templates)
+   * Search the gallery of public style profiles
    */
   app.get(
     '/public',
-    async (request: FastifyRequest<{ Querystring: z.infer<typeof GetPublicProfilesQuerySchema> }>) => {
+    async (request: FastifyRequest) => {
       try {
-        const query = GetPublicProfilesQuerySchema.parse(request.query);
-        const profiles = await styleProfileService.getPublicStyleProfiles(query.limit);
+        const query = StyleGalleryQuerySchema.parse(request.query);
+        const result = await marketplaceService.listPublicProfiles(query);
 
         return {
           success: true,
-          data: profiles,
+          data: {
+            profiles: result.profiles,
+            pagination: {
+              total: result.total,
+              limit: query.limit,
+              offset: query.offset,
+              hasMore: query.offset + query.limit < result.total,
+            },
+          },
         };
       } catch (error) {
         if (error instanceof z.ZodError) {
@@ -137,6 +171,72 @@ export async function styleProfilesRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  /**
+   * POST /style-profiles/preview
+   * Rewrite a built-in sample article with unsaved style settings.
+   * Cached per settings fingerprint.
+   */
+  app.post(
+    '/preview',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const settings = StylePreviewRequestSchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const preview = await previewService.preview(request.user.userId, settings);
+
+        return {
+          success: true,
+          data: preview,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid style settings', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /style-profiles/learn
+   * Draft a style profile from sample paragraphs, optionally previewed
+   * against an article. The draft is not saved.
+   */
+  app.post(
+    '/learn',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const data = LearnStyleProfileSchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const learned = await learningService.learnFromSamples(request.user.userId, data);
+
+        return {
+          success: true,
+          data: learned,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid request', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
   /**
    * PUT /style-profiles/:id
    * Update a style profile
@@ -210,4 +310,256 @@ export async function styleProfilesRoutes(app: FastifyInstance): Promise<void> {
       }
     }
   );
+
+  /**
+   * GET /style-profiles/:id/feedback
+   * Get aggregated reader feedback on rewrites made with a style profile
+   */
+  app.get(
+    '/:id/feedback',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = StyleProfileIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const summary = await feedbackService.getFeedbackSummary(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: summary,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid profile ID', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /style-profiles/:id/adjustments
+   * List the changes reader feedback made to a style profile, newest first
+   */
+  app.get(
+    '/:id/adjustments',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = StyleProfileIdParamsSchema.parse(request.params);
+        const query = ListAdjustmentsQuerySchema.parse(request.query);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const adjustments = await feedbackService.getAdjustments(
+          params.id,
+          request.user.userId,
+          query.limit
+        );
+
+        return {
+          success: true,
+          data: adjustments,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid request', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /style-profiles/moderation/queue
+   * List reported style profiles awaiting review (moderators only)
+   */
+  app.get(
+    '/moderation/queue',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const query = ModerationQueueQuerySchema.parse(request.query);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const queue = await marketplaceService.getModerationQueue(
+          request.user.userId,
+          query.limit
+        );
+
+        return {
+          success: true,
+          data: queue,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid query parameters', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /style-profiles/:id/fork
+   * Copy a public style profile into the user's own profiles
+   */
+  app.post(
+    '/:id/fork',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = StyleProfileIdParamsSchema.parse(request.params);
+        const data = ForkStyleProfileSchema.parse(request.body ?? {});
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const profile = await marketplaceService.forkProfile(
+          params.id,
+          request.user.userId,
+          data
+        );
+
+        return {
+          success: true,
+          data: profile,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid fork request', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /style-profiles/:id/rating
+   * Rate a public style profile from 1 to 5
+   */
+  app.post(
+    '/:id/rating',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = StyleProfileIdParamsSchema.parse(request.params);
+        const data = RateStyleProfileSchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const profile = await marketplaceService.rateProfile(
+          params.id,
+          request.user.userId,
+          data.rating
+        );
+
+        return {
+          success: true,
+          data: profile,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid rating', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /style-profiles/:id/report
+   * Report a public style profile for moderation
+   */
+  app.post(
+    '/:id/report',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = StyleProfileIdParamsSchema.parse(request.params);
+        const data = CreateStyleProfileReportSchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const report = await marketplaceService.reportProfile(
+          params.id,
+          request.user.userId,
+          data
+        );
+
+        return {
+          success: true,
+          data: report,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid report', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /style-profiles/:id/moderation
+   * Dismiss a profile's reports or remove it from the gallery (moderators only)
+   */
+  app.post(
+    '/:id/moderation',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = StyleProfileIdParamsSchema.parse(request.params);
+        const data = ModerateStyleProfileSchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const profile = await marketplaceService.moderateProfile(
+          params.id,
+          request.user.userId,
+          data
+        );
+
+        return {
+          success: true,
+          data: profile,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid moderation request', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
 }
@@ -0,0 +1,132 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authenticateUser } from '../middleware/auth.middleware';
+import { StorySynthesisService } from '../services/story-synthesis.service';
+import { getAIProvider } from '../config/ai';
+import { CreateStorySynthesisSchema, ValidationError } from '@news-curator/shared';
+import { z } from 'zod';
+
+// Request schemas
+const SynthesisIdParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const ListSynthesesQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(20),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export async function synthesesRoutes(app: FastifyInstance): Promise<void> {
+  const synthesisService = new StorySynthesisService(app.db, getAIProvider());
+
+  /**
+   * POST /syntheses
+   * Combine several articles about the same story into one article in the
+   * given style, attributing each claim to its source articles
+   * Requires authentication
+   */
+  app.post(
+    '/',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const body = CreateStorySynthesisSchema.parse(request.body);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const synthesis = await synthesisService.synthesize(request.user.userId, body);
+
+        reply.code(201);
+        return {
+          success: true,
+          data: synthesis,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid request body', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /syntheses
+   * Get the authenticated user's syntheses, newest first
+   * Requires authentication
+   */
+  app.get(
+    '/',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const query = ListSynthesesQuerySchema.parse(request.query);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const syntheses = await synthesisService.getUserSyntheses(
+          request.user.userId,
+          query.limit,
+          query.offset
+        );
+
+        return {
+          success: true,
+          data: {
+            syntheses,
+            pagination: {
+              limit: query.limit,
+              offset: query.offset,
+              count: syntheses.length,
+            },
+          },
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid query parameters', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /syntheses/:id
+   * Get a synthesis with its source articles and citations
+   * Requires authentication
+   */
+  app.get(
+    '/:id',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const params = SynthesisIdParamsSchema.parse(request.params);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const synthesis = await synthesisService.getSynthesis(params.id, request.user.userId);
+
+        return {
+          success: true,
+          data: synthesis,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid synthesis id', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -1,6 +1,7 @@
 import { FastifyInstance, FastifyRequest } from 'fastify';
 import { UserPreferencesService } from '../services/user-preferences.service';
 import { ReadingHistoryService } from '../services/reading-history.service';
+import { AIUsageService } from '../services/ai-usage.service';
 import { authenticateUser } from '../middleware/auth.middleware';
 import {
   UpdateUserPreferencesSchema,
@@ -23,9 +24,14 @@ const ArticleIdParamsSchema = z.object({
   articleId: z.string().uuid(),
 });
 
+const AIUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
 export async function userRoutes(app: FastifyInstance): Promise<void> {
   const userPreferencesService = new UserPreferencesService(app.db);
   const readingHistoryService = new ReadingHistoryService(app.db);
+  const aiUsageService = new AIUsageService(app.db);
 
   /**
    * GET /user/preferences
@@ -317,4 +323,39 @@ export async function userRoutes(app: FastifyInstance): Promise<void> {
       }
     }
   );
+
+  /**
+   * GET /user/ai-usage
+   * Get the authenticated user's AI spending, budgets and usage breakdown
+   */
+  app.get(
+    '/ai-usage',
+    {
+      preHandler: authenticateUser,
+    },
+    async (request: FastifyRequest) => {
+      try {
+        const query = AIUsageQuerySchema.parse(request.query);
+
+        if (!request.user) {
+          throw new ValidationError('User not authenticated');
+        }
+
+        const usage = await aiUsageService.getUserUsageSummary(
+          request.user.userId,
+          query.days
+        );
+
+        return {
+          success: true,
+          data: usage,
+        };
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new ValidationError('Invalid query parameters', { errors: error.errors });
+        }
+        throw error;
+      }
+    }
+  );
 }
@@ -0,0 +1,202 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool } from 'pg';
+import {
+  AIOperation,
+  AIUsageRecord,
+  AIUsageSummary,
+  AIBudgetExceededError,
+} from '@news-curator/shared';
+import { env } from '../config/env';
+
+export interface AIBudgets {
+  userDaily?: number;
+  userMonthly?: number;
+  globalDaily?: number;
+  globalMonthly?: number;
+}
+
+export interface AIBudgetCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+type BudgetPeriod = 'day' | 'month';
+
+// The user on whose behalf AI calls are currently being made
+const usageContext = new AsyncLocalStorage<{ userId: string | null }>();
+
+/**
+ * Attribute every AI call made inside `fn` (including nested async work) to a user
+ */
+export function runWithAIUsageUser<T>(userId: string | null, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run({ userId }, fn);
+}
+
+export function getAIUsageUser(): string | null {
+  return usageContext.getStore()?.userId ?? null;
+}
+
+/**
+ * Service for the AI usage ledger and spending budgets
+ */
+export class AIUsageService {
+  constructor(
+    private db: Pool,
+    private budgets: AIBudgets = {
+      userDaily: env.AI_BUDGET_USER_DAILY,
+      userMonthly: env.AI_BUDGET_USER_MONTHLY,
+      globalDaily: env.AI_BUDGET_GLOBAL_DAILY,
+      globalMonthly: env.AI_BUDGET_GLOBAL_MONTHLY,
+    }
+  ) {}
+
+  /**
+   * Record a single provider call in the ledger
+   */
+  async recordUsage(record: AIUsageRecord, userId: string | null): Promise<void> {
+    await this.db.query(
+      `INSERT INTO ai_usage (
+        user_id, operation, provider, model,
+        input_tokens, output_tokens, total_tokens,
+        cost, latency_ms, success
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        userId,
+        record.operation,
+        record.provider,
+        record.model || null,
+        record.tokensUsed.input,
+        record.tokensUsed.output,
+        record.tokensUsed.total,
+        record.cost,
+        record.latencyMs,
+        record.success,
+      ]
+    );
+  }
+
+  /**
+   * Check the user's and the global budgets before starting AI work
+   */
+  async checkBudget(userId: string): Promise<AIBudgetCheck> {
+    const checks: Array<{ limit?: number; userId: string | null; period: BudgetPeriod; label: string }> = [
+      { limit: this.budgets.userDaily, userId, period: 'day', label: 'Daily AI budget' },
+      { limit: this.budgets.userMonthly, userId, period: 'month', label: 'Monthly AI budget' },
+      { limit: this.budgets.globalDaily, userId: null, period: 'day', label: 'Daily AI budget for the service' },
+      { limit: this.budgets.globalMonthly, userId: null, period: 'month', label: 'Monthly AI budget for the service' },
+    ];
+
+    for (const check of checks) {
+      if (check.limit === undefined) {
+        continue;
+      }
+
+      const spent = await this.getSpend(check.userId, check.period);
+      if (spent >= check.limit) {
+        return {
+          allowed: false,
+          reason: `${check.label} of $${check.limit.toFixed(2)} exceeded`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Throw if the user or the service is over budget
+   */
+  async assertWithinBudget(userId: string): Promise<void> {
+    const check = await this.checkBudget(userId);
+
+    if (!check.allowed) {
+      throw new AIBudgetExceededError(check.reason);
+    }
+  }
+
+  /**
+   * Total spend for the current day or month, for one user or (null) everyone
+   */
+  async getSpend(userId: string | null, period: BudgetPeriod): Promise<number> {
+    const params: any[] = [period];
+    let userClause = '';
+
+    if (userId) {
+      params.push(userId);
+      userClause = 'AND user_id = $2';
+    }
+
+    const result = await this.db.query(
+      `SELECT COALESCE(SUM(cost), 0) AS spent
+       FROM ai_usage
+       WHERE created_at >= date_trunc($1, CURRENT_TIMESTAMP) ${userClause}`,
+      params
+    );
+
+    return parseFloat(result.rows[0].spent);
+  }
+
+  /**
+   * Spending summary for a user over the last `days` days
+   */
+  async getUserUsageSummary(userId: string, days: number = 30): Promise<AIUsageSummary> {
+    const [dailySpent, monthlySpent, totalsResult, byOperationResult, byDayResult] = await Promise.all([
+      this.getSpend(userId, 'day'),
+      this.getSpend(userId, 'month'),
+      this.db.query(
+        `SELECT COUNT(*) AS calls,
+                COALESCE(SUM(total_tokens), 0) AS tokens,
+                COALESCE(SUM(cost), 0) AS cost
+         FROM ai_usage
+         WHERE user_id = $1 AND created_at >= CURRENT_TIMESTAMP - make_interval(days => $2)`,
+        [userId, days]
+      ),
+      this.db.query(
+        `SELECT operation,
+                COUNT(*) AS calls,
+                COALESCE(SUM(total_tokens), 0) AS tokens,
+                COALESCE(SUM(cost), 0) AS cost
+         FROM ai_usage
+         WHERE user_id = $1 AND created_at >= CURRENT_TIMESTAMP - make_interval(days => $2)
+         GROUP BY operation
+         ORDER BY cost DESC`,
+        [userId, days]
+      ),
+      this.db.query(
+        `SELECT to_char(date_trunc('day', created_at), 'YYYY-MM-DD') AS date,
+                COUNT(*) AS calls,
+                COALESCE(SUM(cost), 0) AS cost
+         FROM ai_usage
+         WHERE user_id = $1 AND created_at >= CURRENT_TIMESTAMP - make_interval(days => $2)
+         GROUP BY 1
+         ORDER BY 1`,
+        [userId, days]
+      ),
+    ]);
+
+    const totals = totalsResult.rows[0];
+
+    return {
+      budgets: {
+        daily: { spent: dailySpent, limit: this.budgets.userDaily ?? null },
+        monthly: { spent: monthlySpent, limit: this.budgets.userMonthly ?? null },
+      },
+      totals: {
+        calls: parseInt(totals.calls, 10),
+        tokens: parseInt(totals.tokens, 10),
+        cost: parseFloat(totals.cost),
+      },
+      byOperation: byOperationResult.rows.map((row) => ({
+        operation: row.operation as AIOperation,
+        calls: parseInt(row.calls, 10),
+        tokens: parseInt(row.tokens, 10),
+        cost: parseFloat(row.cost),
+      })),
+      byDay: byDayResult.rows.map((row) => ({
+        date: row.date,
+        calls: parseInt(row.calls, 10),
+        cost: parseFloat(row.cost),
+      })),
+    };
+  }
+}
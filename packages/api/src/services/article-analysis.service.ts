@@ -0,0 +1,421 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  AIProvider,
+  ArticleClaim,
+  ArticleEntity,
+  ArticleQuote,
+  ArticleTimelineEntry,
+  NotFoundError,
+} from '@news-curator/shared';
+import { AIUsageService, runWithAIUsageUser } from './ai-usage.service';
+import { locateSentence } from './citation-extraction.service';
+import { RelatedArticlesService } from './related-articles.service';
+
+type AnalysisKind = 'entities' | 'claims' | 'quotes' | 'timeline';
+
+/** Earlier articles a timeline is built from, besides the article itself */
+const MAX_TIMELINE_ARTICLES = 8;
+
+/** A pending run older than this is assumed lost and can be claimed again */
+const STALE_CLAIM_MINUTES = 5;
+
+/** How often a request waiting on another request's run checks whether it is done */
+const CLAIM_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Service for the entities, check-worthy claims, quotes and timeline of an
+ * article. Each analysis runs once per article, on first request, and is
+ * stored for every later reader.
+ */
+export class ArticleAnalysisService {
+  private usageService: AIUsageService;
+  private relatedService: RelatedArticlesService;
+
+  constructor(
+    private db: Pool,
+    private aiProvider: AIProvider
+  ) {
+    this.usageService = new AIUsageService(db);
+    this.relatedService = new RelatedArticlesService(db);
+  }
+
+  /**
+   * People, organizations and places named in the article, with their role in the story
+   */
+  async getEntities(articleId: string, userId: string): Promise<ArticleEntity[]> {
+    return this.getOrAnalyze(
+      articleId,
+      userId,
+      'entities',
+      () => this.loadEntities(articleId),
+      content => this.aiProvider.extractEntities(content),
+      async (client, entities) => {
+        // The model may list the same entity twice under one name
+        const seen = new Set<string>();
+        const unique = entities.filter(entity => {
+          const key = entity.name.trim().toLowerCase();
+          return !seen.has(key) && seen.add(key);
+        });
+
+        for (const [index, entity] of unique.entries()) {
+          await client.query(
+            `INSERT INTO article_entities (article_id, name, type, role, sort_order)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [articleId, entity.name.trim(), entity.type, entity.role, index]
+          );
+        }
+      }
+    );
+  }
+
+  /**
+   * Factual claims in the article worth checking, anchored to the original text where found
+   */
+  async getClaims(articleId: string, userId: string): Promise<ArticleClaim[]> {
+    return this.getOrAnalyze(
+      articleId,
+      userId,
+      'claims',
+      () => this.loadClaims(articleId),
+      content => this.aiProvider.extractClaims(content),
+      async (client, claims, content) => {
+        for (const [index, claim] of claims.entries()) {
+          const original = locateSentence(content, claim.text);
+
+          await client.query(
+            `INSERT INTO article_claims (
+               article_id, text, claimant, check_worthiness, reason,
+               original_start, original_end, sort_order
+             )
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+            [
+              articleId,
+              claim.text,
+              claim.claimant || null,
+              claim.checkWorthiness,
+              claim.reason,
+              original?.start ?? null,
+              original?.end ?? null,
+              index,
+            ]
+          );
+        }
+      }
+    );
+  }
+
+  /**
+   * Direct quotes in the article with their speaker. Quotes that can't be
+   * found in the article are dropped, since they were not quoted verbatim.
+   */
+  async getQuotes(articleId: string, userId: string): Promise<ArticleQuote[]> {
+    return this.getOrAnalyze(
+      articleId,
+      userId,
+      'quotes',
+      () => this.loadQuotes(articleId),
+      content => this.aiProvider.extractQuotes(content),
+      async (client, quotes, content) => {
+        let index = 0;
+
+        for (const quote of quotes) {
+          const original = locateSentence(content, quote.text);
+
+          if (!original) {
+            continue;
+          }
+
+          await client.query(
+            `INSERT INTO article_quotes (
+               article_id, text, speaker, speaker_role, original_start, original_end, sort_order
+             )
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [
+              articleId,
+              quote.text,
+              quote.speaker,
+              quote.speakerRole || null,
+              original.start,
+              original.end,
+              index++,
+            ]
+          );
+        }
+      }
+    );
+  }
+
+  /**
+   * Dated events of the story the article is part of, oldest first, taken
+   * from the article and earlier articles about the same story. Each entry
+   * links to the article it came from.
+   */
+  async getTimeline(articleId: string, userId: string): Promise<ArticleTimelineEntry[]> {
+    if (await this.hasRun(articleId, 'timeline')) {
+      return this.loadTimeline(articleId);
+    }
+
+    // Without earlier coverage there is no story to tell yet. The run isn't
+    // recorded, so a timeline is made once coverage turns up.
+    const related = await this.relatedService.findEarlierCoverage(articleId, MAX_TIMELINE_ARTICLES);
+
+    if (related.length === 0) {
+      return [];
+    }
+
+    return this.getOrAnalyze(
+      articleId,
+      userId,
+      'timeline',
+      () => this.loadTimeline(articleId),
+      async () => {
+        const articleResult = await this.db.query(
+          `SELECT a.id, a.title, a.original_content, a.published_at, s.name AS source_name
+           FROM articles a
+           JOIN sources s ON a.source_id = s.id
+           WHERE a.id = $1`,
+          [articleId]
+        );
+        const article = articleResult.rows[0];
+        const sources = [
+          ...related,
+          {
+            id: article.id,
+            title: article.title,
+            content: article.original_content,
+            sourceName: article.source_name,
+            publishedAt: new Date(article.published_at),
+          },
+        ];
+        const publishedAt = new Map(sources.map(source => [source.id, source.publishedAt.getTime()]));
+
+        const entries = await this.aiProvider.generateTimeline(sources);
+
+        // Dates are ISO prefixes, so they sort as text. Events on the same
+        // date keep the order their articles were published in.
+        return entries.sort((a, b) =>
+          a.date.localeCompare(b.date) ||
+          publishedAt.get(a.sourceArticleId)! - publishedAt.get(b.sourceArticleId)!
+        );
+      },
+      async (client, entries) => {
+        for (const [index, entry] of entries.entries()) {
+          await client.query(
+            `INSERT INTO article_timeline_entries (
+               article_id, source_article_id, event_date, event, sort_order
+             )
+             VALUES ($1, $2, $3, $4, $5)`,
+            [articleId, entry.sourceArticleId, entry.date, entry.event, index]
+          );
+        }
+      }
+    );
+  }
+
+  // Private helper methods
+
+  private async hasRun(articleId: string, kind: AnalysisKind): Promise<boolean> {
+    const result = await this.db.query(
+      `SELECT 1 FROM article_analyses WHERE article_id = $1 AND kind = $2 AND status = 'done'`,
+      [articleId, kind]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Return the stored analysis, or run it and store the result. The run is
+   * claimed before the AI call, so a second request for the same article
+   * waits for the first one's result instead of paying for its own. No
+   * transaction or connection is held during the call itself.
+   */
+  private async getOrAnalyze<T, R>(
+    articleId: string,
+    userId: string,
+    kind: AnalysisKind,
+    load: () => Promise<T>,
+    analyze: (content: string) => Promise<R>,
+    store: (client: PoolClient, result: R, content: string) => Promise<void>
+  ): Promise<T> {
+    const content = await this.getArticleContent(articleId);
+
+    if (await this.hasRun(articleId, kind)) {
+      return load();
+    }
+
+    await this.usageService.assertWithinBudget(userId);
+
+    const claimId = await this.claimRun(articleId, kind);
+
+    if (!claimId) {
+      return load();
+    }
+
+    let result: R;
+    try {
+      result = await runWithAIUsageUser(userId, () => analyze(content));
+    } catch (error) {
+      // Let the next request try again
+      await this.db.query(
+        'DELETE FROM article_analyses WHERE article_id = $1 AND kind = $2 AND claim_id = $3',
+        [articleId, kind, claimId]
+      );
+      throw error;
+    }
+
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const completed = await client.query(
+        `UPDATE article_analyses SET status = 'done'
+         WHERE article_id = $1 AND kind = $2 AND claim_id = $3 AND status = 'pending'
+         RETURNING article_id`,
+        [articleId, kind, claimId]
+      );
+
+      // The claim went stale and another request took it over; its result is kept
+      if (completed.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return load();
+      }
+
+      await store(client, result, content);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      await this.db.query(
+        'DELETE FROM article_analyses WHERE article_id = $1 AND kind = $2 AND claim_id = $3',
+        [articleId, kind, claimId]
+      );
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return load();
+  }
+
+  /**
+   * Claim a run of the analysis, returning the claim's id. While another
+   * request holds the claim this waits for it, and returns undefined once that
+   * run is done. Claims older than STALE_CLAIM_MINUTES (e.g. of a crashed
+   * instance) are taken over.
+   */
+  private async claimRun(articleId: string, kind: AnalysisKind): Promise<string | undefined> {
+    for (;;) {
+      const claimed = await this.db.query(
+        `INSERT INTO article_analyses (article_id, kind, status, claim_id, claimed_at)
+         VALUES ($1, $2, 'pending', gen_random_uuid(), CURRENT_TIMESTAMP)
+         ON CONFLICT (article_id, kind) DO UPDATE
+           SET claim_id = EXCLUDED.claim_id, claimed_at = EXCLUDED.claimed_at
+           WHERE article_analyses.status = 'pending'
+             AND article_analyses.claimed_at < CURRENT_TIMESTAMP - make_interval(mins => $3)
+         RETURNING claim_id`,
+        [articleId, kind, STALE_CLAIM_MINUTES]
+      );
+
+      if (claimed.rows.length > 0) {
+        return claimed.rows[0].claim_id;
+      }
+
+      if (await this.hasRun(articleId, kind)) {
+        return undefined;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, CLAIM_POLL_INTERVAL_MS));
+    }
+  }
+
+  private async getArticleContent(articleId: string): Promise<string> {
+    const result = await this.db.query(
+      'SELECT original_content FROM articles WHERE id = $1',
+      [articleId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Article');
+    }
+
+    return result.rows[0].original_content;
+  }
+
+  private async loadEntities(articleId: string): Promise<ArticleEntity[]> {
+    const result = await this.db.query(
+      'SELECT * FROM article_entities WHERE article_id = $1 ORDER BY sort_order',
+      [articleId]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      articleId: row.article_id,
+      name: row.name,
+      type: row.type,
+      role: row.role,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private async loadClaims(articleId: string): Promise<ArticleClaim[]> {
+    const result = await this.db.query(
+      'SELECT * FROM article_claims WHERE article_id = $1 ORDER BY sort_order',
+      [articleId]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      articleId: row.article_id,
+      text: row.text,
+      claimant: row.claimant || undefined,
+      checkWorthiness: row.check_worthiness,
+      reason: row.reason,
+      originalStart: row.original_start ?? undefined,
+      originalEnd: row.original_end ?? undefined,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private async loadQuotes(articleId: string): Promise<ArticleQuote[]> {
+    const result = await this.db.query(
+      'SELECT * FROM article_quotes WHERE article_id = $1 ORDER BY sort_order',
+      [articleId]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      articleId: row.article_id,
+      text: row.text,
+      speaker: row.speaker,
+      speakerRole: row.speaker_role || undefined,
+      originalStart: row.original_start,
+      originalEnd: row.original_end,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private async loadTimeline(articleId: string): Promise<ArticleTimelineEntry[]> {
+    const result = await this.db.query(
+      `SELECT t.*, a.title AS source_title, a.published_at AS source_published_at, s.name AS source_name
+       FROM article_timeline_entries t
+       JOIN articles a ON t.source_article_id = a.id
+       JOIN sources s ON a.source_id = s.id
+       WHERE t.article_id = $1
+       ORDER BY t.sort_order`,
+      [articleId]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      articleId: row.article_id,
+      date: row.event_date,
+      event: row.event,
+      sourceArticleId: row.source_article_id,
+      sourceArticleTitle: row.source_title,
+      sourceName: row.source_name,
+      sourcePublishedAt: row.source_published_at,
+      createdAt: row.created_at,
+    }));
+  }
+}
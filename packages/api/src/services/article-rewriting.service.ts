@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import {
   AIProvider,
@@ -10,15 +11,36 @@ import {
   Citation,
   DatabaseError,
   AIProviderError,
+  AIBudgetExceededError,
+  AppError,
+  AIRewriteResult,
+  AIHeadline,
+  FidelityDiscrepancy,
+  Language,
+  PromptRegistry,
+  Readability,
 } from '@news-curator/shared';
 import { CitationExtractionService } from './citation-extraction.service';
 import { ArticleCacheService } from './article-cache.service';
+import { AIUsageService, runWithAIUsageUser } from './ai-usage.service';
+import { FidelityCheckOptions, FidelityCheckService, FidelityReport } from './fidelity-check.service';
+import { GradeRange, ReadabilityService } from './readability.service';
+import { RewriteVersionService } from './rewrite-version.service';
+import { StyleFingerprintService } from './style-fingerprint.service';
+import { env } from '../config/env';
+
+/** Headlines rejected by the support check are regenerated once before giving up */
+const MAX_HEADLINE_ATTEMPTS = 2;
 
 export interface RewriteOptions {
   skipCache?: boolean;
   includeKeyPoints?: boolean;
   includeSummary?: boolean;
   addSourceCitation?: boolean;
+  /** Retry rewrites scoring below this fidelity (defaults to REWRITE_FIDELITY_THRESHOLD) */
+  minFidelityScore?: number;
+  /** Called with a rough completion percentage (0-100) as the rewrite progresses */
+  onProgress?: (percent: number) => void;
 }
 
 /**
@@ -27,14 +49,25 @@ export interface RewriteOptions {
 export class ArticleRewritingService {
   private citationService: CitationExtractionService;
   private cacheService: ArticleCacheService;
+  private usageService: AIUsageService;
+  private fidelityService: FidelityCheckService;
+  private readabilityService: ReadabilityService;
+  private versionService: RewriteVersionService;
+  private fingerprintService: StyleFingerprintService;
 
   constructor(
     private db: Pool,
     private aiProvider: AIProvider,
-    cacheService: ArticleCacheService
+    cacheService: ArticleCacheService,
+    promptRegistry?: PromptRegistry
   ) {
     this.citationService = new CitationExtractionService(db);
     this.cacheService = cacheService;
+    this.usageService = new AIUsageService(db);
+    this.fidelityService = new FidelityCheckService();
+    this.readabilityService = new ReadabilityService();
+    this.versionService = new RewriteVersionService(db, cacheService);
+    this.fingerprintService = new StyleFingerprintService(promptRegistry);
   }
 
   /**
@@ -45,12 +78,42 @@ export class ArticleRewritingService {
     userId: string,
     styleProfileId: string,
     options: RewriteOptions = {}
+  ): Promise<RewrittenArticleWithDetails> {
+    return this.performRewrite(articleId, userId, styleProfileId, options);
+  }
+
+  /**
+   * Rewrite an article, reporting the rewritten text as it is generated.
+   * Cached and previously stored rewrites are reported as a single token.
+   * When the streamed text misses the style's reading level and a retry
+   * replaces it, the new text is reported through `onReplace`.
+   */
+  async rewriteArticleStream(
+    articleId: string,
+    userId: string,
+    styleProfileId: string,
+    onToken: (token: string) => void,
+    onReplace: (content: string) => void,
+    options: RewriteOptions = {}
+  ): Promise<RewrittenArticleWithDetails> {
+    return this.performRewrite(articleId, userId, styleProfileId, options, onToken, onReplace);
+  }
+
+  private async performRewrite(
+    articleId: string,
+    userId: string,
+    styleProfileId: string,
+    options: RewriteOptions,
+    onToken?: (token: string) => void,
+    onReplace?: (content: string) => void
   ): Promise<RewrittenArticleWithDetails> {
     const {
       skipCache = false,
       includeKeyPoints = true,
       includeSummary = true,
       addSourceCitation = true,
+      minFidelityScore = env.REWRITE_FIDELITY_THRESHOLD,
+      onProgress,
     } = options;
 
     // Check cache first (unless skipped)
@@ -63,6 +126,7 @@ export class ArticleRewritingService {
 
       if (cached) {
         console.log(`Cache hit for article ${articleId}`);
+        onToken?.(cached.rewrittenContent);
         return cached;
       }
     }
@@ -84,8 +148,14 @@ export class ArticleRewritingService {
       throw new DatabaseError(`Style profile with id ${styleProfileId} not found`);
     }
 
-    // If exists and not skipping cache, return from database
-    if (existingRewrite && !skipCache) {
+    onProgress?.(10);
+
+    // Over budget: fall back to a stored rewrite if there is one, even when
+    // a fresh rewrite was requested, rather than failing outright
+    const budget = await this.usageService.checkBudget(userId);
+
+    // If exists and not skipping cache (or no budget left), return from database
+    if (existingRewrite && (!skipCache || !budget.allowed)) {
       const citations = await this.citationService.getCitationsForArticle(existingRewrite.id);
 
       const result: RewrittenArticleWithDetails = {
@@ -97,111 +167,553 @@ export class ArticleRewritingService {
       // Cache it for next time
       await this.cacheService.cacheRewrittenArticleWithDetails(result);
 
+      onToken?.(result.rewrittenContent);
       return result;
     }
 
-    // Perform AI rewriting
-    const startTime = Date.now();
-
-    try {
-      const aiResult = await this.aiProvider.rewriteArticle(
-        article.originalContent,
-        styleProfile
+    // Reuse a rewrite made for another user when the article content and the
+    // effective style are identical. Private custom prompts are never shared.
+    const contentHash = this.hashArticleContent(article.originalContent);
+    const styleFingerprint = this.fingerprintService.getFingerprint(styleProfile);
+    const shareable = styleProfile.isPublic || !styleProfile.customPrompt;
+
+    if (shareable && (!skipCache || !budget.allowed)) {
+      const sharedRewrite = await this.findSharedRewrite(
+        contentHash,
+        styleFingerprint,
+        minFidelityScore
       );
 
-      const processingTimeMs = Date.now() - startTime;
+      if (sharedRewrite) {
+        console.log(`Reusing shared rewrite ${sharedRewrite.id} for article ${articleId}`);
 
-      // Generate summary if requested
-      let summary: string | undefined;
-      if (includeSummary || styleProfile.includeKeyPoints) {
-        summary = aiResult.summary || await this.aiProvider.generateSummary(
-          aiResult.content,
-          200
+        const result = await this.copySharedRewrite(
+          sharedRewrite,
+          article,
+          userId,
+          styleProfileId,
+          contentHash,
+          styleFingerprint
         );
+
+        await this.cacheService.cacheRewrittenArticleWithDetails(result);
+
+        onToken?.(result.rewrittenContent);
+        return result;
       }
+    }
 
-      // Extract key points if requested
-      let keyPoints: string[] | undefined;
-      if (includeKeyPoints || styleProfile.includeKeyPoints) {
-        keyPoints = aiResult.keyPoints || await this.aiProvider.extractKeyPoints(
+    if (!budget.allowed) {
+      throw new AIBudgetExceededError(budget.reason);
+    }
+
+    await this.backfillArticleReadability(article);
+
+    // Perform AI rewriting, attributing usage to the requesting user
+    return runWithAIUsageUser(userId, async () => {
+      const startTime = Date.now();
+      onProgress?.(20);
+
+      try {
+        let aiResult = onToken
+          ? await this.aiProvider.rewriteArticleStream(
+              article.originalContent,
+              styleProfile,
+              onToken
+            )
+          : await this.aiProvider.rewriteArticle(
+              article.originalContent,
+              styleProfile
+            );
+
+        const fidelityOptions = this.getFidelityOptions(article, styleProfile);
+        let fidelity = this.fidelityService.checkFidelity(
+          article.originalContent,
           aiResult.content,
-          5
+          fidelityOptions
         );
-      }
 
-      // Extract citations from rewritten content
-      const extractedCitations = this.citationService.extractCitationsFromAIResponse(
-        aiResult.content,
-        aiResult.citations
-      );
+        // A streamed rewrite has already been shown to the reader, so only
+        // non-streamed rewrites are retried
+        if (!onToken && minFidelityScore !== undefined && fidelity.score < minFidelityScore) {
+          ({ aiResult, fidelity } = await this.retryLowFidelityRewrite(
+            article.originalContent,
+            styleProfile,
+            userId,
+            minFidelityScore,
+            aiResult,
+            fidelity,
+            fidelityOptions
+          ));
+        }
+
+        let readability = this.isEnglishRewrite(article, styleProfile)
+          ? this.readabilityService.measure(aiResult.content)
+          : undefined;
+        const gradeRange = this.getGradeRange(article, styleProfile);
+
+        // Streamed rewrites are retried too, since they are shared like any
+        // other; the reader is sent the replacement text
+        if (
+          readability &&
+          gradeRange &&
+          this.readabilityService.distanceFromRange(readability, gradeRange) > 0
+        ) {
+          const offRangeContent = aiResult.content;
+          ({ aiResult, fidelity, readability } = await this.retryOffRangeReadability(
+            article.originalContent,
+            styleProfile,
+            userId,
+            gradeRange,
+            minFidelityScore,
+            { aiResult, fidelity, readability },
+            fidelityOptions
+          ));
+
+          if (aiResult.content !== offRangeContent) {
+            onReplace?.(aiResult.content);
+          }
+        }
+
+        const processingTimeMs = Date.now() - startTime;
+        onProgress?.(70);
+
+        // Skip the optional extras rather than fail if the rewrite used up the budget
+        const extrasAllowed = (await this.usageService.checkBudget(userId)).allowed;
+
+        // Generate summary if requested
+        let summary: string | undefined;
+        if (extrasAllowed && (includeSummary || styleProfile.includeKeyPoints)) {
+          summary = aiResult.summary || await this.aiProvider.generateSummary(
+            aiResult.content,
+            200
+          );
+        }
+
+        // Extract key points if requested
+        let keyPoints: string[] | undefined;
+        if (extrasAllowed && (includeKeyPoints || styleProfile.includeKeyPoints)) {
+          keyPoints = aiResult.keyPoints || await this.aiProvider.extractKeyPoints(
+            aiResult.content,
+            5
+          );
+        }
+
+        // Headline and teaser in the style; the feed keeps the source's title without one
+        const styledHeadline = extrasAllowed
+          ? await this.generateStyledHeadline(article, styleProfile, userId)
+          : undefined;
+
+        onProgress?.(90);
+
+        // Anchor citations in the rewrite and the original, and drop made-up URLs
+        const extractedCitations = await this.citationService.verifyCitationUrls(
+          this.citationService.anchorCitations(
+            aiResult.content,
+            article.originalContent,
+            aiResult.citations
+          ),
+          article
+        );
 
-      // Store or update rewritten article
-      const rewrittenArticle = existingRewrite
-        ? await this.updateRewrittenArticle(existingRewrite.id, {
-            rewrittenContent: aiResult.content,
-            summary,
-            keyPoints,
-            processingTimeMs,
-            aiCost: aiResult.cost,
-          })
-        : await this.storeRewrittenArticle({
+        // Store or update rewritten article
+        const rewrittenArticle = existingRewrite
+          ? await this.updateRewrittenArticle(existingRewrite.id, {
+              rewrittenContent: aiResult.content,
+              summary,
+              keyPoints,
+              headline: styledHeadline?.headline,
+              teaser: styledHeadline?.teaser,
+              readability,
+              processingTimeMs,
+              aiCost: aiResult.cost,
+              aiProvider: aiResult.provider,
+              aiModel: aiResult.model,
+              promptVersions: aiResult.promptVersions,
+              fidelityScore: fidelity.score,
+              fidelityDiscrepancies: fidelity.discrepancies,
+              contentHash: shareable ? contentHash : undefined,
+              styleFingerprint: shareable ? styleFingerprint : undefined,
+            })
+          : await this.storeRewrittenArticle({
+              articleId,
+              userId,
+              styleProfileId,
+              rewrittenContent: aiResult.content,
+              summary,
+              keyPoints,
+              headline: styledHeadline?.headline,
+              teaser: styledHeadline?.teaser,
+              readability,
+              processingTimeMs,
+              aiCost: aiResult.cost,
+              aiProvider: aiResult.provider,
+              aiModel: aiResult.model,
+              promptVersions: aiResult.promptVersions,
+              fidelityScore: fidelity.score,
+              fidelityDiscrepancies: fidelity.discrepancies,
+              contentHash: shareable ? contentHash : undefined,
+              styleFingerprint: shareable ? styleFingerprint : undefined,
+            });
+
+        // Delete old citations if updating (the previous version keeps a copy)
+        if (existingRewrite) {
+          await this.citationService.deleteCitationsForArticle(rewrittenArticle.id);
+        }
+
+        // Store citations
+        const citations = await this.citationService.storeCitations(
+          rewrittenArticle.id,
+          extractedCitations,
+          articleId
+        );
+
+        // Add source article citation if requested
+        if (addSourceCitation) {
+          const sourceCitation = await this.citationService.addSourceArticleCitation(
+            rewrittenArticle.id,
             articleId,
-            userId,
-            styleProfileId,
-            rewrittenContent: aiResult.content,
-            summary,
-            keyPoints,
-            processingTimeMs,
-            aiCost: aiResult.cost,
-          });
-
-      // Delete old citations if updating
-      if (existingRewrite) {
-        await this.citationService.deleteCitationsForArticle(rewrittenArticle.id);
+            article.url,
+            article.source.name
+          );
+          citations.unshift(sourceCitation);
+        }
+
+        const version = await this.versionService.recordVersion(rewrittenArticle, citations);
+
+        // Increment style profile usage count
+        await this.incrementStyleUsage(styleProfileId);
+
+        const result: RewrittenArticleWithDetails = {
+          ...rewrittenArticle,
+          version,
+          article,
+          citations,
+        };
+
+        // Cache the result
+        await this.cacheService.cacheRewrittenArticleWithDetails(result);
+
+        return result;
+      } catch (error) {
+        console.error('Failed to rewrite article:', error);
+
+        if (error instanceof AppError) {
+          throw error;
+        }
+
+        throw new AIProviderError(
+          `Failed to rewrite article: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
       }
+    });
+  }
+
+  /**
+   * Find the most recent original (not itself copied) rewrite with the same
+   * content hash and style fingerprint
+   */
+  private async findSharedRewrite(
+    contentHash: string,
+    styleFingerprint: string,
+    minFidelityScore?: number
+  ): Promise<RewrittenArticle | null> {
+    const query = `
+      SELECT * FROM rewritten_articles
+      WHERE content_hash = $1
+        AND style_fingerprint = $2
+        AND shared_from_id IS NULL
+        AND (fidelity_score IS NULL OR fidelity_score >= $3)
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+
+    const result = await this.db.query(query, [contentHash, styleFingerprint, minFidelityScore ?? 0]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToRewrittenArticle(result.rows[0]);
+  }
+
+  /**
+   * Give a user their own copy of a shared rewrite, so it shows up in their
+   * history and can be deleted independently. No AI cost is recorded.
+   */
+  private async copySharedRewrite(
+    sharedRewrite: RewrittenArticle,
+    article: ArticleWithSource,
+    userId: string,
+    styleProfileId: string,
+    contentHash: string,
+    styleFingerprint: string
+  ): Promise<RewrittenArticleWithDetails> {
+    const rewrittenArticle = await this.storeRewrittenArticle({
+      articleId: article.id,
+      userId,
+      styleProfileId,
+      rewrittenContent: sharedRewrite.rewrittenContent,
+      summary: sharedRewrite.summary,
+      keyPoints: sharedRewrite.keyPoints,
+      headline: sharedRewrite.headline,
+      teaser: sharedRewrite.teaser,
+      readability: sharedRewrite.readability,
+      aiProvider: sharedRewrite.aiProvider,
+      aiModel: sharedRewrite.aiModel,
+      promptVersions: sharedRewrite.promptVersions,
+      fidelityScore: sharedRewrite.fidelityScore,
+      fidelityDiscrepancies: sharedRewrite.fidelityDiscrepancies,
+      contentHash,
+      styleFingerprint,
+      sharedFromId: sharedRewrite.id,
+    });
+
+    const sharedCitations = await this.citationService.getCitationsForArticle(sharedRewrite.id);
+    const citations = await this.citationService.storeCitations(
+      rewrittenArticle.id,
+      sharedCitations.map(citation => ({
+        text: citation.text,
+        url: citation.url,
+        position: citation.position,
+        paragraphIndex: citation.paragraphIndex,
+        originalStart: citation.originalStart,
+        originalEnd: citation.originalEnd,
+      })),
+      article.id
+    );
+
+    const version = await this.versionService.recordVersion(rewrittenArticle, citations);
+
+    await this.incrementStyleUsage(styleProfileId);
 
-      // Store citations
-      const citations = await this.citationService.storeCitations(
-        rewrittenArticle.id,
-        extractedCitations,
-        articleId
+    return {
+      ...rewrittenArticle,
+      version,
+      article,
+      citations,
+    };
+  }
+
+  private hashArticleContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * A style with a target language other than the article's translates it.
+   * Articles whose language wasn't detected are assumed to need translating.
+   */
+  private getFidelityOptions(
+    article: ArticleWithSource,
+    styleProfile: StyleProfile
+  ): FidelityCheckOptions {
+    return {
+      translated: !!styleProfile.targetLanguage && styleProfile.targetLanguage !== article.language,
+    };
+  }
+
+  /**
+   * Whether the rewrite is in English (or a language that wasn't detected),
+   * the only language readability is measured for
+   */
+  private isEnglishRewrite(article: ArticleWithSource, styleProfile: StyleProfile): boolean {
+    const language = styleProfile.targetLanguage ?? article.language;
+    return !language || language === Language.ENGLISH;
+  }
+
+  /**
+   * Grades a rewrite in the style should read at. Custom prompts replace the
+   * technical level, so rewrites with one have no range to meet.
+   */
+  private getGradeRange(
+    article: ArticleWithSource,
+    styleProfile: StyleProfile
+  ): GradeRange | undefined {
+    if (styleProfile.customPrompt || !this.isEnglishRewrite(article, styleProfile)) {
+      return undefined;
+    }
+
+    return this.readabilityService.getTargetRange(styleProfile.technicalLevel);
+  }
+
+  /**
+   * Measure articles ingested before readability was, so rewrites of them
+   * can be compared with the original
+   */
+  private async backfillArticleReadability(article: ArticleWithSource): Promise<void> {
+    if (article.readability || (article.language && article.language !== Language.ENGLISH)) {
+      return;
+    }
+
+    article.readability = this.readabilityService.measure(article.originalContent);
+
+    if (article.readability) {
+      await this.db.query(
+        'UPDATE articles SET readability = $2 WHERE id = $1',
+        [article.id, JSON.stringify(article.readability)]
       );
+    }
+  }
 
-      // Add source article citation if requested
-      if (addSourceCitation) {
-        const sourceCitation = await this.citationService.addSourceArticleCitation(
-          rewrittenArticle.id,
-          articleId,
-          article.url,
-          article.source.name
+  /**
+   * Write a headline and teaser for the article in the style, regenerating
+   * once with the problems found if it isn't supported by the article.
+   * Returns undefined if no attempt passes the check or the provider fails.
+   */
+  private async generateStyledHeadline(
+    article: ArticleWithSource,
+    styleProfile: StyleProfile,
+    userId: string
+  ): Promise<AIHeadline | undefined> {
+    let issues: string[] | undefined;
+
+    for (let attempt = 1; attempt <= MAX_HEADLINE_ATTEMPTS; attempt++) {
+      if (attempt > 1 && !(await this.usageService.checkBudget(userId)).allowed) {
+        break;
+      }
+
+      let headline: AIHeadline;
+      try {
+        headline = await this.aiProvider.generateHeadline(
+          article.originalContent,
+          article.title,
+          styleProfile,
+          issues
         );
-        citations.unshift(sourceCitation);
+      } catch (error) {
+        // The rewrite is already paid for; keep it and show the source's title
+        console.error(`Failed to generate headline for article ${article.id}:`, error);
+        return undefined;
       }
 
-      // Increment style profile usage count
-      await this.incrementStyleUsage(styleProfileId);
+      const check = this.fidelityService.checkHeadline(
+        article.originalContent,
+        headline.headline,
+        headline.teaser,
+        this.getFidelityOptions(article, styleProfile)
+      );
 
-      const result: RewrittenArticleWithDetails = {
-        ...rewrittenArticle,
-        article,
-        citations,
-      };
+      if (check.supported) {
+        return headline;
+      }
 
-      // Cache the result
-      await this.cacheService.cacheRewrittenArticleWithDetails(result);
+      console.log(`Headline for article ${article.id} not supported: ${check.issues.join('; ')}`);
+      issues = check.issues;
+    }
 
-      return result;
-    } catch (error) {
-      console.error('Failed to rewrite article:', error);
+    return undefined;
+  }
+
+  /**
+   * Regenerate a rewrite that failed the fidelity check, keeping the best
+   * scoring attempt. The cost of every attempt is included in the result.
+   */
+  private async retryLowFidelityRewrite(
+    originalContent: string,
+    styleProfile: StyleProfile,
+    userId: string,
+    minFidelityScore: number,
+    aiResult: AIRewriteResult,
+    fidelity: FidelityReport,
+    fidelityOptions: FidelityCheckOptions
+  ): Promise<{ aiResult: AIRewriteResult; fidelity: FidelityReport }> {
+    let best = { aiResult, fidelity };
+    let totalCost = aiResult.cost;
+
+    for (let attempt = 1; attempt <= env.REWRITE_FIDELITY_MAX_RETRIES; attempt++) {
+      if (best.fidelity.score >= minFidelityScore) {
+        break;
+      }
+
+      if (!(await this.usageService.checkBudget(userId)).allowed) {
+        break;
+      }
+
+      console.log(
+        `Rewrite fidelity ${best.fidelity.score} below ${minFidelityScore}, retrying (attempt ${attempt})`
+      );
+
+      const retryResult = await this.aiProvider.rewriteArticle(originalContent, styleProfile);
+      const retryFidelity = this.fidelityService.checkFidelity(
+        originalContent,
+        retryResult.content,
+        fidelityOptions
+      );
+      totalCost += retryResult.cost;
 
-      if (error instanceof AIProviderError) {
-        throw error;
+      if (retryFidelity.score > best.fidelity.score) {
+        best = { aiResult: retryResult, fidelity: retryFidelity };
       }
+    }
+
+    return {
+      aiResult: { ...best.aiResult, cost: totalCost },
+      fidelity: best.fidelity,
+    };
+  }
+
+  /**
+   * Regenerate a rewrite that reads outside its style's grade range, telling
+   * the provider which way it missed. A retry is only kept if it comes closer
+   * to the range without scoring worse on fidelity. The cost of every attempt
+   * is included in the result.
+   */
+  private async retryOffRangeReadability(
+    originalContent: string,
+    styleProfile: StyleProfile,
+    userId: string,
+    gradeRange: GradeRange,
+    minFidelityScore: number | undefined,
+    attempt: { aiResult: AIRewriteResult; fidelity: FidelityReport; readability: Readability },
+    fidelityOptions: FidelityCheckOptions
+  ): Promise<{ aiResult: AIRewriteResult; fidelity: FidelityReport; readability: Readability }> {
+    let best = attempt;
+    let totalCost = attempt.aiResult.cost;
+
+    for (let retry = 1; retry <= env.REWRITE_READABILITY_MAX_RETRIES; retry++) {
+      const distance = this.readabilityService.distanceFromRange(best.readability, gradeRange);
+
+      if (distance === 0) {
+        break;
+      }
+
+      if (!(await this.usageService.checkBudget(userId)).allowed) {
+        break;
+      }
+
+      console.log(
+        `Rewrite reads at grade ${best.readability.grade}, outside ${gradeRange.min}-${gradeRange.max}, retrying (attempt ${retry})`
+      );
 
-      throw new AIProviderError(
-        `Failed to rewrite article: ${error instanceof Error ? error.message : 'Unknown error'}`
+      // The miss is passed on the same way reader feedback is
+      const guidance = this.readabilityService.describeMiss(best.readability, gradeRange);
+      const retryResult = await this.aiProvider.rewriteArticle(originalContent, {
+        ...styleProfile,
+        feedbackGuidance: [styleProfile.feedbackGuidance, guidance].filter(Boolean).join('\n'),
+      });
+      totalCost += retryResult.cost;
+
+      const retryReadability = this.readabilityService.measure(retryResult.content);
+      const retryFidelity = this.fidelityService.checkFidelity(
+        originalContent,
+        retryResult.content,
+        fidelityOptions
       );
+      const keepsFacts = retryFidelity.score >= Math.min(best.fidelity.score, minFidelityScore ?? 1);
+
+      if (
+        retryReadability &&
+        keepsFacts &&
+        this.readabilityService.distanceFromRange(retryReadability, gradeRange) < distance
+      ) {
+        best = { aiResult: retryResult, fidelity: retryFidelity, readability: retryReadability };
+      }
     }
+
+    return {
+      ...best,
+      aiResult: { ...best.aiResult, cost: totalCost },
+    };
   }
 
   /**
@@ -263,7 +775,9 @@ export class ArticleRewritingService {
       SELECT
         ra.*,
         a.*,
-        s.*
+        s.*,
+        ra.readability as rewrite_readability,
+        a.readability as article_readability
       FROM rewritten_articles ra
       JOIN articles a ON ra.article_id = a.id
       JOIN sources s ON a.source_id = s.id
@@ -341,6 +855,8 @@ export class ArticleRewritingService {
       category: row.category,
       imageUrl: row.image_url,
       importanceScore: row.importance_score,
+      language: row.language || undefined,
+      readability: row.readability || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
       source: {
@@ -359,7 +875,7 @@ export class ArticleRewritingService {
   private async getStyleProfile(styleProfileId: string, userId: string): Promise<StyleProfile | null> {
     const query = `
       SELECT * FROM style_profiles
-      WHERE id = $1 AND (user_id = $2 OR is_public = TRUE)
+      WHERE id = $1 AND (user_id = $2 OR (is_public = TRUE AND moderation_status = 'visible'))
     `;
 
     const result = await this.db.query(query, [styleProfileId, userId]);
@@ -382,8 +898,15 @@ export class ArticleRewritingService {
       technicalLevel: row.technical_level,
       includeContext: row.include_context,
       includeKeyPoints: row.include_key_points,
+      targetLanguage: row.target_language || undefined,
       isDefault: row.is_default,
       isPublic: row.is_public,
+      autoTune: row.auto_tune,
+      feedbackGuidance: row.feedback_guidance || undefined,
+      tags: row.tags,
+      forkedFromId: row.forked_from_id || undefined,
+      originalAuthorId: row.original_author_id || undefined,
+      moderationStatus: row.moderation_status,
       usageCount: row.usage_count,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
@@ -416,8 +939,19 @@ export class ArticleRewritingService {
     rewrittenContent: string;
     summary?: string;
     keyPoints?: string[];
+    headline?: string;
+    teaser?: string;
+    readability?: Readability;
     processingTimeMs?: number;
     aiCost?: number;
+    aiProvider?: string;
+    aiModel?: string;
+    promptVersions?: Record<string, number>;
+    fidelityScore?: number;
+    fidelityDiscrepancies?: FidelityDiscrepancy[];
+    contentHash?: string;
+    styleFingerprint?: string;
+    sharedFromId?: string;
   }): Promise<RewrittenArticle> {
     const id = uuidv4();
     const query = `
@@ -431,9 +965,20 @@ export class ArticleRewritingService {
         key_points,
         processing_time_ms,
         ai_cost,
-        created_at
+        ai_provider,
+        ai_model,
+        prompt_versions,
+        fidelity_score,
+        fidelity_discrepancies,
+        content_hash,
+        style_fingerprint,
+        shared_from_id,
+        created_at,
+        headline,
+        teaser,
+        readability
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
       RETURNING *
     `;
 
@@ -447,7 +992,18 @@ export class ArticleRewritingService {
       JSON.stringify(data.keyPoints || []),
       data.processingTimeMs || null,
       data.aiCost || null,
+      data.aiProvider || null,
+      data.aiModel || null,
+      data.promptVersions ? JSON.stringify(data.promptVersions) : null,
+      data.fidelityScore ?? null,
+      data.fidelityDiscrepancies ? JSON.stringify(data.fidelityDiscrepancies) : null,
+      data.contentHash || null,
+      data.styleFingerprint || null,
+      data.sharedFromId || null,
       new Date(),
+      data.headline || null,
+      data.teaser || null,
+      data.readability ? JSON.stringify(data.readability) : null,
     ]);
 
     return this.mapRowToRewrittenArticle(result.rows[0]);
@@ -459,8 +1015,18 @@ export class ArticleRewritingService {
       rewrittenContent: string;
       summary?: string;
       keyPoints?: string[];
+      headline?: string;
+      teaser?: string;
+      readability?: Readability;
       processingTimeMs?: number;
       aiCost?: number;
+      aiProvider?: string;
+      aiModel?: string;
+      promptVersions?: Record<string, number>;
+      fidelityScore?: number;
+      fidelityDiscrepancies?: FidelityDiscrepancy[];
+      contentHash?: string;
+      styleFingerprint?: string;
     }
   ): Promise<RewrittenArticle> {
     const query = `
@@ -470,7 +1036,18 @@ export class ArticleRewritingService {
         summary = $3,
         key_points = $4,
         processing_time_ms = $5,
-        ai_cost = $6
+        ai_cost = $6,
+        ai_provider = $7,
+        ai_model = $8,
+        prompt_versions = $9,
+        fidelity_score = $10,
+        fidelity_discrepancies = $11,
+        content_hash = $12,
+        style_fingerprint = $13,
+        headline = $14,
+        teaser = $15,
+        readability = $16,
+        shared_from_id = NULL
       WHERE id = $1
       RETURNING *
     `;
@@ -482,6 +1059,16 @@ export class ArticleRewritingService {
       JSON.stringify(data.keyPoints || []),
       data.processingTimeMs || null,
       data.aiCost || null,
+      data.aiProvider || null,
+      data.aiModel || null,
+      data.promptVersions ? JSON.stringify(data.promptVersions) : null,
+      data.fidelityScore ?? null,
+      data.fidelityDiscrepancies ? JSON.stringify(data.fidelityDiscrepancies) : null,
+      data.contentHash || null,
+      data.styleFingerprint || null,
+      data.headline || null,
+      data.teaser || null,
+      data.readability ? JSON.stringify(data.readability) : null,
     ]);
 
     return this.mapRowToRewrittenArticle(result.rows[0]);
@@ -489,7 +1076,13 @@ export class ArticleRewritingService {
 
   private async incrementStyleUsage(styleProfileId: string): Promise<void> {
     await this.db.query(
-      'UPDATE style_profiles SET usage_count = usage_count + 1 WHERE id = $1',
+      `WITH used AS (
+         UPDATE style_profiles SET usage_count = usage_count + 1 WHERE id = $1 RETURNING id
+       )
+       INSERT INTO style_profile_daily_usage (style_profile_id, day, uses)
+       SELECT id, CURRENT_DATE, 1 FROM used
+       ON CONFLICT (style_profile_id, day)
+       DO UPDATE SET uses = style_profile_daily_usage.uses + 1`,
       [styleProfileId]
     );
   }
@@ -505,6 +1098,16 @@ export class ArticleRewritingService {
       keyPoints: row.key_points ? JSON.parse(row.key_points) : undefined,
       processingTimeMs: row.processing_time_ms,
       aiCost: row.ai_cost ? parseFloat(row.ai_cost) : undefined,
+      aiProvider: row.ai_provider || undefined,
+      aiModel: row.ai_model || undefined,
+      promptVersions: row.prompt_versions || undefined,
+      fidelityScore: row.fidelity_score != null ? parseFloat(row.fidelity_score) : undefined,
+      fidelityDiscrepancies: row.fidelity_discrepancies || undefined,
+      headline: row.headline || undefined,
+      teaser: row.teaser || undefined,
+      readability: row.readability || undefined,
+      sharedFromId: row.shared_from_id || undefined,
+      version: row.version,
       createdAt: row.created_at,
     };
   }
@@ -523,6 +1126,16 @@ export class ArticleRewritingService {
       keyPoints: row.key_points ? JSON.parse(row.key_points) : undefined,
       processingTimeMs: row.processing_time_ms,
       aiCost: row.ai_cost ? parseFloat(row.ai_cost) : undefined,
+      aiProvider: row.ai_provider || undefined,
+      aiModel: row.ai_model || undefined,
+      promptVersions: row.prompt_versions || undefined,
+      fidelityScore: row.fidelity_score != null ? parseFloat(row.fidelity_score) : undefined,
+      fidelityDiscrepancies: row.fidelity_discrepancies || undefined,
+      headline: row.headline || undefined,
+      teaser: row.teaser || undefined,
+      readability: row.rewrite_readability || undefined,
+      sharedFromId: row.shared_from_id || undefined,
+      version: row.version,
       createdAt: row.created_at,
       article: {
         id: row.article_id,
@@ -535,6 +1148,8 @@ export class ArticleRewritingService {
         category: row.category,
         imageUrl: row.image_url,
         importanceScore: row.importance_score,
+        language: row.language || undefined,
+        readability: row.article_readability || undefined,
         createdAt: row.article_created_at,
         updatedAt: row.article_updated_at,
         source: {
@@ -5,15 +5,17 @@ import {
   RewrittenArticle,
   StyleProfile,
   ArticleCategory,
+  Language,
   NotFoundError,
   ValidationError,
 } from '@news-curator/shared';
-import { createAIProvider } from '@news-curator/ai-providers';
-import { env } from '../config/env';
+import { getAIProvider } from '../config/ai';
+import { AIUsageService, runWithAIUsageUser } from './ai-usage.service';
 
 export interface ArticleFilters {
   category?: ArticleCategory;
   sourceId?: string;
+  language?: Language;
   search?: string;
   startDate?: Date;
   endDate?: Date;
@@ -40,6 +42,7 @@ export class ArticleService {
     const {
       category,
       sourceId,
+      language,
       search,
       startDate,
       endDate,
@@ -69,6 +72,12 @@ export class ArticleService {
       paramCounter++;
     }
 
+    if (language) {
+      whereClauses.push(`a.language = $${paramCounter}`);
+      queryParams.push(language);
+      paramCounter++;
+    }
+
     if (search) {
       whereClauses.push(`(a.title ILIKE $${paramCounter} OR a.original_content ILIKE $${paramCounter})`);
       queryParams.push(`%${search}%`);
@@ -87,15 +96,19 @@ export class ArticleService {
       paramCounter++;
     }
 
+    let defaultStyleProfileId: string | null = null;
+
     // Apply user preferences if provided
     if (userId) {
       const prefsResult = await this.db.query(
-        'SELECT muted_categories, muted_sources FROM user_preferences WHERE user_id = $1',
+        `SELECT muted_categories, muted_sources, default_style_profile_id
+         FROM user_preferences WHERE user_id = $1`,
         [userId]
       );
 
       if (prefsResult.rows.length > 0) {
-        const { muted_categories, muted_sources } = prefsResult.rows[0];
+        const { muted_categories, muted_sources, default_style_profile_id } = prefsResult.rows[0];
+        defaultStyleProfileId = default_style_profile_id;
 
         if (muted_categories && muted_categories.length > 0) {
           whereClauses.push(`a.category != ALL($${paramCounter})`);
@@ -115,6 +128,19 @@ export class ArticleService {
       ? `WHERE ${whereClauses.join(' AND ')}`
       : '';
 
+    // Show the headline of the user's rewrite in their default style, where there is one
+    const headlineColumns = defaultStyleProfileId
+      ? ', ra.headline as styled_headline, ra.teaser as styled_teaser'
+      : '';
+    const headlineJoin = defaultStyleProfileId
+      ? `LEFT JOIN rewritten_articles ra
+           ON ra.article_id = a.id
+          AND ra.user_id = $${paramCounter}
+          AND ra.style_profile_id = $${paramCounter + 1}`
+      : '';
+    const headlineParams = defaultStyleProfileId ? [userId, defaultStyleProfileId] : [];
+    const pageParam = paramCounter + headlineParams.length;
+
     // Build the main query
     const query = `
       SELECT
@@ -128,6 +154,8 @@ export class ArticleService {
         a.category,
         a.image_url,
         a.importance_score,
+        a.language,
+        a.readability,
         a.created_at,
         a.updated_at,
         s.id as source_id,
@@ -138,15 +166,15 @@ export class ArticleService {
         s.is_active as source_is_active,
         s.created_at as source_created_at,
         s.updated_at as source_updated_at
+        ${headlineColumns}
       FROM articles a
       INNER JOIN sources s ON a.source_id = s.id
+      ${headlineJoin}
       ${whereClause}
       ORDER BY a.${sortBy} ${sortOrder.toUpperCase()}
-      LIMIT $${paramCounter} OFFSET $${paramCounter + 1}
+      LIMIT $${pageParam} OFFSET $${pageParam + 1}
     `;
 
-    queryParams.push(limit, offset);
-
     // Get total count
     const countQuery = `
       SELECT COUNT(*) as total
@@ -155,8 +183,8 @@ export class ArticleService {
     `;
 
     const [articlesResult, countResult] = await Promise.all([
-      this.db.query(query, queryParams),
-      this.db.query(countQuery, queryParams.slice(0, -2)), // Exclude limit and offset
+      this.db.query(query, [...queryParams, ...headlineParams, limit, offset]),
+      this.db.query(countQuery, queryParams),
     ]);
 
     const articles: ArticleWithSource[] = articlesResult.rows.map(row => ({
@@ -170,6 +198,8 @@ export class ArticleService {
       category: row.category,
       imageUrl: row.image_url,
       importanceScore: row.importance_score,
+      language: row.language || undefined,
+      readability: row.readability || undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
       source: {
@@ -182,6 +212,9 @@ export class ArticleService {
         createdAt: new Date(row.source_created_at),
         updatedAt: new Date(row.source_updated_at),
       },
+      styledHeadline: row.styled_headline
+        ? { headline: row.styled_headline, teaser: row.styled_teaser }
+        : undefined,
     }));
 
     return {
@@ -206,6 +239,8 @@ export class ArticleService {
         a.category,
         a.image_url,
         a.importance_score,
+        a.language,
+        a.readability,
         a.created_at,
         a.updated_at,
         s.id as source_id,
@@ -240,6 +275,8 @@ export class ArticleService {
       category: row.category,
       imageUrl: row.image_url,
       importanceScore: row.importance_score,
+      language: row.language || undefined,
+      readability: row.readability || undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
       source: {
@@ -327,27 +364,26 @@ export class ArticleService {
       technicalLevel: styleRow.technical_level,
       includeContext: styleRow.include_context,
       includeKeyPoints: styleRow.include_key_points,
+      targetLanguage: styleRow.target_language || undefined,
       isDefault: styleRow.is_default,
       isPublic: styleRow.is_public,
+      autoTune: styleRow.auto_tune,
+      feedbackGuidance: styleRow.feedback_guidance || undefined,
+      tags: styleRow.tags,
+      forkedFromId: styleRow.forked_from_id || undefined,
+      originalAuthorId: styleRow.original_author_id || undefined,
+      moderationStatus: styleRow.moderation_status,
       usageCount: styleRow.usage_count,
       createdAt: new Date(styleRow.created_at),
       updatedAt: new Date(styleRow.updated_at),
     };
 
-    // Create AI provider
-    const aiProvider = createAIProvider({
-      provider: env.AI_PROVIDER,
-      apiKey: env.AI_API_KEY,
-      model: env.AI_MODEL,
-      temperature: 0.7,
-      maxTokens: 4000,
-      timeoutMs: 30000,
-    });
+    const aiProvider = getAIProvider();
+    await new AIUsageService(this.db).assertWithinBudget(userId);
 
     // Rewrite the article
-    const rewriteResult = await aiProvider.rewriteArticle(
-      article.originalContent,
-      styleProfile
+    const rewriteResult = await runWithAIUsageUser(userId, () =>
+      aiProvider.rewriteArticle(article.originalContent, styleProfile)
     );
 
     // Generate summary and key points if requested
@@ -355,7 +391,9 @@ export class ArticleService {
     let keyPoints: string[] | undefined;
 
     if (styleProfile.includeKeyPoints) {
-      keyPoints = await aiProvider.extractKeyPoints(article.originalContent, 5);
+      keyPoints = await runWithAIUsageUser(userId, () =>
+        aiProvider.extractKeyPoints(article.originalContent, 5)
+      );
     }
 
     // Save the rewritten article
@@ -384,9 +422,15 @@ export class ArticleService {
       rewriteResult.cost,
     ]);
 
-    // Update style profile usage count
+    // Update style profile usage count, overall and for today
     await this.db.query(
-      'UPDATE style_profiles SET usage_count = usage_count + 1 WHERE id = $1',
+      `WITH used AS (
+         UPDATE style_profiles SET usage_count = usage_count + 1 WHERE id = $1 RETURNING id
+       )
+       INSERT INTO style_profile_daily_usage (style_profile_id, day, uses)
+       SELECT id, CURRENT_DATE, 1 FROM used
+       ON CONFLICT (style_profile_id, day)
+       DO UPDATE SET uses = style_profile_daily_usage.uses + 1`,
       [styleProfileId]
     );
 
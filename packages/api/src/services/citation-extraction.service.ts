@@ -1,91 +1,106 @@
-import { Pool } from 'pg';
-import { Citation } from '@news-curator/shared';
+import { Pool, PoolClient } from 'pg';
+import { ArticleWithSource, Citation } from '@news-curator/shared';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface ExtractedCitation {
   text: string;
   url?: string;
   position: number;
+  paragraphIndex?: number;
+  originalStart?: number;
+  originalEnd?: number;
 }
 
+const CITATION_COLUMNS = `
+  id,
+  rewritten_article_id,
+  synthesis_id,
+  source_article_id,
+  text,
+  url,
+  position,
+  paragraph_index,
+  original_start,
+  original_end,
+  created_at
+`;
+
 /**
- * Service for extracting and managing citations from rewritten articles
+ * Service for anchoring, verifying and managing citations of rewritten articles
  */
 export class CitationExtractionService {
   constructor(private db: Pool) {}
 
   /**
-   * Extract citations from rewritten content
-   * Looks for citation patterns like [1], [Source: URL], etc.
+   * Anchor citations returned by the AI provider: record the paragraph of the
+   * rewritten content each one is placed in, and where its supporting
+   * sentence appears in the original article
    */
-  extractCitations(content: string): ExtractedCitation[] {
-    const citations: ExtractedCitation[] = [];
-
-    // Pattern 1: [Source: text](url) - Markdown-style citations
-    const markdownPattern = /\[Source:\s*([^\]]+)\]\(([^)]+)\)/gi;
-    let match;
-    let position = 0;
-
-    while ((match = markdownPattern.exec(content)) !== null) {
-      citations.push({
-        text: match[1].trim(),
-        url: match[2].trim(),
-        position: position++,
-      });
-    }
+  anchorCitations(
+    content: string,
+    originalContent: string,
+    aiCitations: Array<{ text: string; url?: string; position: number }> = []
+  ): ExtractedCitation[] {
+    return aiCitations.map(citation => {
+      const original = locateSentence(originalContent, citation.text);
 
-    // Pattern 2: [Citation: text - url] - Custom format
-    const customPattern = /\[Citation:\s*([^\-]+)\s*-\s*([^\]]+)\]/gi;
+      return {
+        text: citation.text,
+        url: citation.url,
+        position: citation.position,
+        paragraphIndex: getParagraphIndex(content, citation.position),
+        originalStart: original?.start,
+        originalEnd: original?.end,
+      };
+    });
+  }
 
-    while ((match = customPattern.exec(content)) !== null) {
-      citations.push({
-        text: match[1].trim(),
-        url: match[2].trim(),
-        position: position++,
-      });
+  /**
+   * Drop citation URLs that point anywhere other than the source article's
+   * site or a known source, since the model may have made them up. The
+   * citations themselves are kept.
+   */
+  async verifyCitationUrls(
+    citations: ExtractedCitation[],
+    article: ArticleWithSource
+  ): Promise<ExtractedCitation[]> {
+    if (!citations.some(citation => citation.url)) {
+      return citations;
     }
 
-    // Pattern 3: (Source: text) - Simple parenthetical citations
-    const parentheticalPattern = /\(Source:\s*([^)]+)\)/gi;
+    const result = await this.db.query('SELECT url FROM sources');
+    const allowedHosts = [article.url, article.source.url, ...result.rows.map(row => row.url)]
+      .map(getHost)
+      .filter((host): host is string => host !== null);
 
-    while ((match = parentheticalPattern.exec(content)) !== null) {
-      const sourceText = match[1].trim();
-      // Check if it contains a URL
-      const urlMatch = sourceText.match(/(https?:\/\/[^\s]+)/);
+    return citations.map(citation => {
+      if (!citation.url) {
+        return citation;
+      }
 
-      citations.push({
-        text: urlMatch ? sourceText.replace(urlMatch[0], '').trim() : sourceText,
-        url: urlMatch ? urlMatch[0] : undefined,
-        position: position++,
-      });
-    }
+      const host = getHost(citation.url);
+      const known = host !== null && allowedHosts.some(
+        allowed => host === allowed || host.endsWith(`.${allowed}`)
+      );
 
-    return citations;
-  }
+      if (known) {
+        return citation;
+      }
 
-  /**
-   * Extract citations from AI response that may include structured citation data
-   */
-  extractCitationsFromAIResponse(
-    content: string,
-    aiCitations?: Array<{ text: string; url?: string; position: number }>
-  ): ExtractedCitation[] {
-    // If AI provided structured citations, use those
-    if (aiCitations && aiCitations.length > 0) {
-      return aiCitations;
-    }
-
-    // Otherwise, extract from content
-    return this.extractCitations(content);
+      console.warn(`Dropping unverified citation URL ${citation.url} for article ${article.id}`);
+      return { ...citation, url: undefined };
+    });
   }
 
   /**
-   * Store citations in the database
+   * Store citations in the database. Pass a client to store them inside
+   * that client's transaction.
    */
   async storeCitations(
     rewrittenArticleId: string,
     citations: ExtractedCitation[],
-    sourceArticleId?: string
+    sourceArticleId?: string,
+    db: Pool | PoolClient = this.db
   ): Promise<Citation[]> {
     if (citations.length === 0) {
       return [];
@@ -98,6 +113,9 @@ export class CitationExtractionService {
       citation.text,
       citation.url || null,
       citation.position,
+      citation.paragraphIndex ?? null,
+      citation.originalStart ?? null,
+      citation.originalEnd ?? null,
       new Date(),
     ]);
 
@@ -109,39 +127,69 @@ export class CitationExtractionService {
         text,
         url,
         position,
+        paragraph_index,
+        original_start,
+        original_end,
         created_at
       )
-      VALUES ${values.map((_, i) => `($${i * 7 + 1}, $${i * 7 + 2}, $${i * 7 + 3}, $${i * 7 + 4}, $${i * 7 + 5}, $${i * 7 + 6}, $${i * 7 + 7})`).join(', ')}
+      VALUES ${values.map((_, i) => `(${Array.from({ length: 10 }, (_, j) => `$${i * 10 + j + 1}`).join(', ')})`).join(', ')}
       RETURNING *
     `;
 
     const params = values.flat();
-    const result = await this.db.query(query, params);
+    const result = await db.query(query, params);
 
-    return result.rows.map(row => ({
-      id: row.id,
-      rewrittenArticleId: row.rewritten_article_id,
-      sourceArticleId: row.source_article_id,
-      text: row.text,
-      url: row.url,
-      position: row.position,
-      createdAt: row.created_at,
-    }));
+    return result.rows.map(row => this.mapRowToCitation(row));
   }
 
   /**
-   * Get citations for a rewritten article
+   * Store the citations of a story synthesis, each attributed to the source
+   * article that reports the claim
    */
-  async getCitationsForArticle(rewrittenArticleId: string): Promise<Citation[]> {
+  async storeSynthesisCitations(
+    synthesisId: string,
+    citations: Array<ExtractedCitation & { sourceArticleId: string }>,
+    db: Pool | PoolClient = this.db
+  ): Promise<Citation[]> {
+    if (citations.length === 0) {
+      return [];
+    }
+
+    const values = citations.map((citation) => [
+      uuidv4(),
+      synthesisId,
+      citation.sourceArticleId,
+      citation.text,
+      citation.url || null,
+      citation.position,
+      new Date(),
+    ]);
+
     const query = `
-      SELECT
+      INSERT INTO citations (
         id,
-        rewritten_article_id,
+        synthesis_id,
         source_article_id,
         text,
         url,
         position,
         created_at
+      )
+      VALUES ${values.map((_, i) => `($${i * 7 + 1}, $${i * 7 + 2}, $${i * 7 + 3}, $${i * 7 + 4}, $${i * 7 + 5}, $${i * 7 + 6}, $${i * 7 + 7})`).join(', ')}
+      RETURNING *
+    `;
+
+    const result = await db.query(query, values.flat());
+
+    return result.rows.map(row => this.mapRowToCitation(row));
+  }
+
+  /**
+   * Get citations for a rewritten article
+   */
+  async getCitationsForArticle(rewrittenArticleId: string): Promise<Citation[]> {
+    const query = `
+      SELECT ${CITATION_COLUMNS}
       FROM citations
       WHERE rewritten_article_id = $1
       ORDER BY position ASC
@@ -149,22 +197,33 @@ export class CitationExtractionService {
 
     const result = await this.db.query(query, [rewrittenArticleId]);
 
-    return result.rows.map(row => ({
-      id: row.id,
-      rewrittenArticleId: row.rewritten_article_id,
-      sourceArticleId: row.source_article_id,
-      text: row.text,
-      url: row.url,
-      position: row.position,
-      createdAt: row.created_at,
-    }));
+    return result.rows.map(row => this.mapRowToCitation(row));
+  }
+
+  /**
+   * Get citations for a story synthesis
+   */
+  async getCitationsForSynthesis(synthesisId: string): Promise<Citation[]> {
+    const query = `
+      SELECT ${CITATION_COLUMNS}
+      FROM citations
+      WHERE synthesis_id = $1
+      ORDER BY position ASC
+    `;
+
+    const result = await this.db.query(query, [synthesisId]);
+
+    return result.rows.map(row => this.mapRowToCitation(row));
   }
 
   /**
    * Delete citations for a rewritten article
    */
-  async deleteCitationsForArticle(rewrittenArticleId: string): Promise<void> {
-    await this.db.query(
+  async deleteCitationsForArticle(
+    rewrittenArticleId: string,
+    db: Pool | PoolClient = this.db
+  ): Promise<void> {
+    await db.query(
       'DELETE FROM citations WHERE rewritten_article_id = $1',
       [rewrittenArticleId]
     );
@@ -204,15 +263,96 @@ export class CitationExtractionService {
       new Date(),
     ]);
 
-    const row = result.rows[0];
+    return this.mapRowToCitation(result.rows[0]);
+  }
+
+  private mapRowToCitation(row: any): Citation {
     return {
       id: row.id,
-      rewrittenArticleId: row.rewritten_article_id,
+      rewrittenArticleId: row.rewritten_article_id || undefined,
+      synthesisId: row.synthesis_id || undefined,
       sourceArticleId: row.source_article_id,
       text: row.text,
       url: row.url,
       position: row.position,
+      paragraphIndex: row.paragraph_index ?? undefined,
+      originalStart: row.original_start ?? undefined,
+      originalEnd: row.original_end ?? undefined,
       createdAt: row.created_at,
     };
   }
 }
+
+/**
+ * Index of the paragraph (non-empty line) containing the offset, counting
+ * paragraphs the way the reader renders them
+ */
+function getParagraphIndex(content: string, position: number): number {
+  const lines = content.slice(0, position).split('\n');
+  return lines.slice(0, -1).filter(line => line.trim().length > 0).length;
+}
+
+/**
+ * Find a sentence in the original text, first exactly and then ignoring
+ * differences in case and whitespace
+ */
+export function locateSentence(original: string, sentence: string): { start: number; end: number } | null {
+  const exact = original.indexOf(sentence);
+  if (exact !== -1) {
+    return { start: exact, end: exact + sentence.length };
+  }
+
+  const haystack = normalizeWithOffsets(original);
+  const needle = normalizeWithOffsets(sentence).text;
+  const index = needle ? haystack.text.indexOf(needle) : -1;
+
+  if (index === -1) {
+    return null;
+  }
+
+  return {
+    start: haystack.offsets[index],
+    end: haystack.offsets[index + needle.length - 1] + 1,
+  };
+}
+
+/**
+ * Lowercase text with whitespace runs collapsed to one space, with the
+ * offset in the input of every character kept. Characters that lowercase to
+ * more than one (e.g. 'İ') map each of them to the same offset.
+ */
+function normalizeWithOffsets(value: string): { text: string; offsets: number[] } {
+  let text = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    if (/\s/.test(value[i])) {
+      if (text.length > 0 && !text.endsWith(' ')) {
+        text += ' ';
+        offsets.push(i);
+      }
+      continue;
+    }
+
+    const lower = value[i].toLowerCase();
+    text += lower;
+    for (let j = 0; j < lower.length; j++) {
+      offsets.push(i);
+    }
+  }
+
+  if (text.endsWith(' ')) {
+    text = text.slice(0, -1);
+    offsets.pop();
+  }
+
+  return { text, offsets };
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,389 @@
+import { FidelityDiscrepancy } from '@news-curator/shared';
+
+export interface FidelityReport {
+  /** 0-1, where 1 means every checked fact was preserved and nothing was added */
+  score: number;
+  discrepancies: FidelityDiscrepancy[];
+}
+
+export interface HeadlineCheck {
+  /** Whether the headline and teaser only state what the article reports, without clickbait */
+  supported: boolean;
+  /** What is wrong with them, phrased so it can be passed back to the model */
+  issues: string[];
+}
+
+export interface FidelityCheckOptions {
+  /** The rewrite is in a different language from the original */
+  translated?: boolean;
+}
+
+interface ExtractedFacts {
+  entities: string[];
+  numbers: string[];
+  dates: string[];
+  quotes: string[];
+}
+
+// Dropping a fact is often legitimate (e.g. concise styles); adding or
+// changing one is what a hallucination looks like, so it costs more
+const PENALTIES: Record<FidelityDiscrepancy['kind'], number> = {
+  added: 1,
+  altered: 1,
+  dropped: 0.5,
+};
+
+const MONTHS =
+  'January|February|March|April|May|June|July|August|September|October|November|December|' +
+  'Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec';
+
+const DATE_PATTERN = new RegExp(
+  [
+    `\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?\\b`,
+    `\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?(?:,?\\s+\\d{4})?\\b`,
+    `\\b(?:${MONTHS})\\.?\\s+\\d{4}\\b`,
+    '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+    '\\b\\d{1,2}/\\d{1,2}/\\d{2,4}\\b',
+    '\\b(?:19|20)\\d{2}\\b',
+  ].join('|'),
+  'g'
+);
+
+const NUMBER_PATTERN = /[$€£]?\d[\d,]*(?:\.\d+)?(?:\s?(?:%|percent|million|billion|trillion|thousand))?/gi;
+
+const QUOTE_PATTERN = /["“]([^"”]+)["”]/g;
+
+// Phrasing that holds back or oversells what happened
+const CLICKBAIT_PATTERNS = [
+  /\byou won['’]?t believe\b/i,
+  /\bwhat happen(?:s|ed) next\b/i,
+  /\b(?:will|might) (?:shock|surprise|amaze) you\b/i,
+  /\byou need to (?:see|know)\b/i,
+  /\b(?:this|one) (?:simple |weird )?trick\b/i,
+  /\bthe reason (?:why )?(?:will|may)\b/i,
+  /\b(?:shocking|jaw-dropping|mind-blowing|unbelievable)\b/i,
+  /\bgoes viral\b/i,
+];
+
+// A word of four or more capitals, e.g. "HUGE" (acronyms are allowed if the article uses them)
+const SHOUTING_PATTERN = /\b[A-Z]{4,}\b/g;
+
+// Capitalized words that start sentences or are otherwise not names
+const ENTITY_STOPWORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'it', 'its', 'he', 'she', 'they', 'we', 'i',
+  'his', 'her', 'their', 'our', 'in', 'on', 'at', 'for', 'but', 'and', 'or', 'if', 'when', 'while',
+  'after', 'before', 'as', 'so', 'however', 'meanwhile', 'here', 'there', 'what', 'why', 'how',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  ...MONTHS.toLowerCase().split('|'),
+]);
+
+/**
+ * Service for checking that a rewrite preserves the facts of the original.
+ *
+ * Named entities, numbers, dates and quotes are extracted from both texts
+ * with lightweight heuristics and compared, flagging anything the rewrite
+ * added, dropped or altered.
+ *
+ * A translation writes numbers and dates in its own language's format and
+ * capitalizes other words, so for translations only names and quotes, which
+ * are kept as in the original, are checked, and only for being dropped or
+ * altered.
+ */
+export class FidelityCheckService {
+  checkFidelity(
+    original: string,
+    rewritten: string,
+    options: FidelityCheckOptions = {}
+  ): FidelityReport {
+    const originalFacts = this.extractFacts(original);
+    const rewrittenFacts = this.extractFacts(rewritten);
+
+    const discrepancies: FidelityDiscrepancy[] = options.translated
+      ? [
+          ...this.compareTerms('entity', originalFacts.entities, [], original, rewritten),
+          ...this.compareQuotes(originalFacts.quotes, rewrittenFacts.quotes, original)
+            .filter(discrepancy => discrepancy.kind !== 'added'),
+        ]
+      : [
+          ...this.compareTerms('entity', originalFacts.entities, rewrittenFacts.entities, original, rewritten),
+          ...pairAlterations(this.compareTerms('number', originalFacts.numbers, rewrittenFacts.numbers)),
+          ...pairAlterations(this.compareTerms('date', originalFacts.dates, rewrittenFacts.dates)),
+          ...this.compareQuotes(originalFacts.quotes, rewrittenFacts.quotes, original),
+        ];
+
+    const factCount = options.translated
+      ? originalFacts.entities.length + originalFacts.quotes.length
+      : originalFacts.entities.length +
+        originalFacts.numbers.length +
+        originalFacts.dates.length +
+        originalFacts.quotes.length;
+
+    const penalty = discrepancies.reduce((sum, discrepancy) => sum + PENALTIES[discrepancy.kind], 0);
+    const score = Math.max(0, 1 - penalty / Math.max(factCount, 1));
+
+    return {
+      score: Math.round(score * 1000) / 1000,
+      discrepancies,
+    };
+  }
+
+  /**
+   * Check that a generated headline and teaser are supported by the article:
+   * every name, number, date and quote in them must come from the article,
+   * and they must not use clickbait phrasing. For translations, only quotes
+   * and the language-independent signs of clickbait are checked.
+   */
+  checkHeadline(
+    article: string,
+    headline: string,
+    teaser: string,
+    options: FidelityCheckOptions = {}
+  ): HeadlineCheck {
+    const text = `${headline.replace(/[.!?…]*$/, '')}. ${teaser}`;
+    const articleFacts = this.extractFacts(article);
+    const headlineFacts = this.extractFacts(text);
+    const articleLower = article.toLowerCase();
+    const articleWords = new Set(articleLower.split(/[^\w'’-]+/));
+    const issues: string[] = [];
+
+    if (!options.translated) {
+      // Headlines abbreviate names, so every word of the name appearing is enough.
+      // Words in capitals are checked for shouting below.
+      for (const entity of headlineFacts.entities.filter(entity => !/^[A-Z]{4,}$/.test(entity))) {
+        const key = entity.toLowerCase();
+        if (!articleLower.includes(key) && !key.split(/\s+/).every(word => articleWords.has(word))) {
+          issues.push(`It mentions "${entity}", which the article does not`);
+        }
+      }
+
+      const unsupportedFigures = [
+        ...this.compareTerms('number', articleFacts.numbers, headlineFacts.numbers),
+        ...this.compareTerms('date', articleFacts.dates, headlineFacts.dates),
+      ].filter(discrepancy => discrepancy.kind === 'added');
+
+      for (const figure of unsupportedFigures) {
+        issues.push(`It gives "${figure.rewritten}", which the article does not`);
+      }
+    }
+
+    const normalizedArticle = normalizeWhitespace(article);
+    for (const quote of headlineFacts.quotes) {
+      if (!normalizedArticle.includes(quote)) {
+        issues.push(`It quotes "${quote}", which the article does not`);
+      }
+    }
+
+    for (const pattern of CLICKBAIT_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) {
+        issues.push(`It uses clickbait phrasing ("${match[0]}")`);
+      }
+    }
+
+    if (/\?\s*$/.test(headline)) {
+      issues.push('The headline is a question instead of saying what happened');
+    }
+
+    if (text.includes('!')) {
+      issues.push('It uses an exclamation mark');
+    }
+
+    for (const match of text.matchAll(SHOUTING_PATTERN)) {
+      if (!articleWords.has(match[0].toLowerCase())) {
+        issues.push(`It uses capitals for emphasis ("${match[0]}")`);
+      }
+    }
+
+    return {
+      supported: issues.length === 0,
+      issues,
+    };
+  }
+
+  extractFacts(text: string): ExtractedFacts {
+    const quotes = unique(
+      Array.from(text.matchAll(QUOTE_PATTERN), match => normalizeQuote(match[1]))
+        .filter(quote => quote.split(' ').length >= 3)
+    );
+
+    const dates = unique(Array.from(text.matchAll(DATE_PATTERN), match => normalizeDate(match[0])));
+
+    // Numbers inside dates were already counted as dates
+    const withoutDates = text.replace(DATE_PATTERN, ' ');
+    const numbers = unique(
+      Array.from(withoutDates.matchAll(NUMBER_PATTERN), match => normalizeNumber(match[0]))
+    );
+
+    return {
+      entities: this.extractEntities(text),
+      numbers,
+      dates,
+      quotes,
+    };
+  }
+
+  /**
+   * Sequences of capitalized words, ignoring single sentence-initial words
+   * that are common English
+   */
+  private extractEntities(text: string): string[] {
+    const entities: string[] = [];
+    const pattern = /\b[A-Z][\w'’-]*(?:\s+(?:of|for|and|de|van|von)?\s*[A-Z][\w'’-]*)*/g;
+
+    for (const match of text.matchAll(pattern)) {
+      const words = match[0].split(/\s+/);
+
+      // Drop a leading stopword ("The White House" -> "White House")
+      while (words.length > 0 && ENTITY_STOPWORDS.has(words[0].toLowerCase())) {
+        words.shift();
+      }
+
+      if (words.length === 0 || /^\d/.test(words[0])) {
+        continue;
+      }
+
+      const entity = words.join(' ');
+      const before = text.slice(0, match.index).trimEnd();
+      const sentenceStart = before === '' || /[.!?:"“]$/.test(before);
+
+      // A lone capitalized word at the start of a sentence is usually not a name
+      if (words.length === 1 && sentenceStart && match[0] === entity) {
+        continue;
+      }
+
+      entities.push(entity);
+    }
+
+    return unique(entities);
+  }
+
+  /**
+   * Compare extracted terms. When the full texts are given, a term counts as
+   * present if it appears anywhere in the other text, which tolerates
+   * extraction differences (e.g. a name at the start of a sentence).
+   */
+  private compareTerms(
+    type: FidelityDiscrepancy['type'],
+    originalTerms: string[],
+    rewrittenTerms: string[],
+    originalText?: string,
+    rewrittenText?: string
+  ): FidelityDiscrepancy[] {
+    const discrepancies: FidelityDiscrepancy[] = [];
+    const originalSet = new Set(originalTerms.map(term => term.toLowerCase()));
+    const rewrittenSet = new Set(rewrittenTerms.map(term => term.toLowerCase()));
+    const originalLower = originalText?.toLowerCase();
+    const rewrittenLower = rewrittenText?.toLowerCase();
+
+    for (const term of originalTerms) {
+      const key = term.toLowerCase();
+      if (!rewrittenSet.has(key) && !rewrittenLower?.includes(key)) {
+        discrepancies.push({ type, kind: 'dropped', original: term });
+      }
+    }
+
+    for (const term of rewrittenTerms) {
+      const key = term.toLowerCase();
+      if (!originalSet.has(key) && !originalLower?.includes(key)) {
+        discrepancies.push({ type, kind: 'added', rewritten: term });
+      }
+    }
+
+    return discrepancies;
+  }
+
+  /**
+   * Quotes must be reproduced exactly; a close but different quote is
+   * reported as altered
+   */
+  private compareQuotes(
+    originalQuotes: string[],
+    rewrittenQuotes: string[],
+    originalText: string
+  ): FidelityDiscrepancy[] {
+    const discrepancies: FidelityDiscrepancy[] = [];
+    const unmatched = new Set(rewrittenQuotes);
+    const normalizedOriginal = normalizeWhitespace(originalText);
+
+    for (const quote of originalQuotes) {
+      if (unmatched.has(quote)) {
+        unmatched.delete(quote);
+        continue;
+      }
+
+      const similar = [...unmatched].find(candidate => wordOverlap(quote, candidate) >= 0.6);
+
+      if (similar) {
+        unmatched.delete(similar);
+        discrepancies.push({ type: 'quote', kind: 'altered', original: quote, rewritten: similar });
+      } else {
+        discrepancies.push({ type: 'quote', kind: 'dropped', original: quote });
+      }
+    }
+
+    for (const quote of unmatched) {
+      // Quoting a phrase that does appear in the original is fine
+      if (!normalizedOriginal.includes(quote)) {
+        discrepancies.push({ type: 'quote', kind: 'added', rewritten: quote });
+      }
+    }
+
+    return discrepancies;
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function normalizeQuote(quote: string): string {
+  return normalizeWhitespace(quote).replace(/[,.;:!?]+$/, '');
+}
+
+function normalizeDate(date: string): string {
+  return normalizeWhitespace(date)
+    .replace(/(\d)(st|nd|rd|th)\b/g, '$1')
+    .replace(/\.(?=\s)/g, '')
+    .replace(/,/g, '');
+}
+
+function normalizeNumber(value: string): string {
+  return normalizeWhitespace(value)
+    .toLowerCase()
+    .replace(/,/g, '')
+    .replace(/\s?percent$/, '%')
+    .replace(/\s(?=%)/, '');
+}
+
+/**
+ * A figure that disappeared while a new one appeared was most likely
+ * changed, e.g. "March 14" becoming "March 15"
+ */
+function pairAlterations(discrepancies: FidelityDiscrepancy[]): FidelityDiscrepancy[] {
+  const dropped = discrepancies.filter(discrepancy => discrepancy.kind === 'dropped');
+  const added = discrepancies.filter(discrepancy => discrepancy.kind === 'added');
+  const pairs = Math.min(dropped.length, added.length);
+
+  return [
+    ...dropped.slice(0, pairs).map((discrepancy, i) => ({
+      type: discrepancy.type,
+      kind: 'altered' as const,
+      original: discrepancy.original,
+      rewritten: added[i].rewritten,
+    })),
+    ...dropped.slice(pairs),
+    ...added.slice(pairs),
+  ];
+}
+
+function wordOverlap(a: string, b: string): number {
+  const wordsA = new Set(a.toLowerCase().split(/\W+/).filter(Boolean));
+  const wordsB = new Set(b.toLowerCase().split(/\W+/).filter(Boolean));
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+
+  return shared / Math.max(wordsA.size, wordsB.size, 1);
+}
@@ -0,0 +1,85 @@
+import { Language } from '@news-curator/shared';
+
+// Frequent short words of each language. Some are shared ("de", "la", "en"),
+// but each list has enough of its own to tell the languages apart.
+const STOPWORDS: Record<Language, string[]> = {
+  [Language.ENGLISH]: [
+    'the', 'and', 'of', 'to', 'is', 'that', 'for', 'with', 'was', 'on',
+    'are', 'this', 'have', 'from', 'by', 'it', 'said', 'they', 'be', 'has',
+  ],
+  [Language.SPANISH]: [
+    'el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una',
+    'por', 'con', 'para', 'es', 'del', 'se', 'su', 'al', 'como', 'fue',
+  ],
+  [Language.FRENCH]: [
+    'le', 'la', 'les', 'de', 'des', 'et', 'est', 'une', 'un', 'du',
+    'que', 'pour', 'dans', 'en', 'sur', 'pas', 'qui', 'au', 'avec', 'sont',
+  ],
+  [Language.GERMAN]: [
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den',
+    'mit', 'von', 'sich', 'auf', 'für', 'im', 'dem', 'des', 'auch', 'wird',
+  ],
+  [Language.ITALIAN]: [
+    'il', 'la', 'di', 'che', 'e', 'del', 'della', 'un', 'una', 'per',
+    'non', 'sono', 'con', 'gli', 'le', 'nel', 'alla', 'anche', 'è', 'dei',
+  ],
+  [Language.PORTUGUESE]: [
+    'o', 'a', 'os', 'as', 'de', 'que', 'e', 'do', 'da', 'em',
+    'um', 'uma', 'para', 'com', 'não', 'no', 'na', 'por', 'dos', 'foi',
+  ],
+  [Language.DUTCH]: [
+    'de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'in',
+    'voor', 'niet', 'met', 'zijn', 'er', 'aan', 'ook', 'wordt', 'bij', 'naar',
+  ],
+};
+
+/** Texts shorter than this are too short to tell */
+const MIN_WORDS = 20;
+
+/** Only the opening of long articles is looked at */
+const MAX_WORDS = 2000;
+
+/** Share of the words that must be stopwords of the winning language */
+const MIN_STOPWORD_SHARE = 0.08;
+
+/** How far the winning language must be ahead of the runner-up */
+const MIN_LEAD = 1.15;
+
+/**
+ * Service for telling which language a text is written in, from how often
+ * the most common words of each supported language appear in it
+ */
+export class LanguageDetectionService {
+  private stopwords = new Map(
+    (Object.entries(STOPWORDS) as [Language, string[]][]).map(
+      ([language, words]) => [language, new Set(words)]
+    )
+  );
+
+  /**
+   * The text's language, or undefined if it is too short, not in a supported
+   * language, or too close to call
+   */
+  detectLanguage(text: string): Language | undefined {
+    const words = (text.toLowerCase().match(/\p{L}+/gu) ?? []).slice(0, MAX_WORDS);
+
+    if (words.length < MIN_WORDS) {
+      return undefined;
+    }
+
+    const scores = [...this.stopwords.entries()]
+      .map(([language, stopwords]) => ({
+        language,
+        hits: words.filter(word => stopwords.has(word)).length,
+      }))
+      .sort((a, b) => b.hits - a.hits);
+
+    const [best, runnerUp] = scores;
+
+    if (best.hits / words.length < MIN_STOPWORD_SHARE || best.hits < runnerUp.hits * MIN_LEAD) {
+      return undefined;
+    }
+
+    return best.language;
+  }
+}
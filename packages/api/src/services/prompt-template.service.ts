@@ -0,0 +1,273 @@
+import { Pool } from 'pg';
+import {
+  PromptRegistry,
+  PromptTemplate,
+  PromptTemplateKey,
+  CreatePromptTemplateVersion,
+  AuthorizationError,
+  NotFoundError,
+} from '@news-curator/shared';
+import { DEFAULT_PROMPT_TEMPLATES } from '@news-curator/ai-providers';
+
+const BUILT_IN_DESCRIPTION = 'Built-in template';
+
+/**
+ * Versioned prompt template registry backed by the prompt_templates table.
+ *
+ * Active templates are cached in memory so AI providers can read them
+ * synchronously while building prompts; the cache is reloaded after every
+ * change and periodically, so edits made by another instance are picked up.
+ */
+export class PromptTemplateService implements PromptRegistry {
+  private activeTemplates = new Map<PromptTemplateKey, { version: number; template: string }>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(private db: Pool) {}
+
+  getActiveTemplate(key: PromptTemplateKey): { version: number; template: string } | null {
+    return this.activeTemplates.get(key) ?? null;
+  }
+
+  /**
+   * Seed the built-in templates, then load the active versions into the cache
+   */
+  async load(): Promise<void> {
+    for (const key of Object.values(PromptTemplateKey)) {
+      await this.seedBuiltInTemplate(key);
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * Reload the active versions into the cache
+   */
+  async refresh(): Promise<void> {
+    const result = await this.db.query(
+      'SELECT key, version, template FROM prompt_templates WHERE is_active = TRUE'
+    );
+
+    const activeTemplates = new Map<PromptTemplateKey, { version: number; template: string }>();
+    for (const row of result.rows) {
+      activeTemplates.set(row.key, { version: row.version, template: row.template });
+    }
+
+    this.activeTemplates = activeTemplates;
+  }
+
+  startAutoRefresh(intervalMs: number = 60000): void {
+    if (this.refreshTimer) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch(error => console.error('Failed to refresh prompt templates:', error));
+    }, intervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stopAutoRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Get the active version of every template. Admins only.
+   */
+  async getActiveTemplates(userId: string): Promise<PromptTemplate[]> {
+    await this.assertAdmin(userId);
+
+    const result = await this.db.query(
+      'SELECT * FROM prompt_templates WHERE is_active = TRUE ORDER BY key'
+    );
+
+    return result.rows.map(row => this.mapRowToPromptTemplate(row));
+  }
+
+  /**
+   * Get every version of a template, newest first. Admins only.
+   */
+  async getTemplateVersions(key: PromptTemplateKey, userId: string): Promise<PromptTemplate[]> {
+    await this.assertAdmin(userId);
+
+    const result = await this.db.query(
+      'SELECT * FROM prompt_templates WHERE key = $1 ORDER BY version DESC',
+      [key]
+    );
+
+    return result.rows.map(row => this.mapRowToPromptTemplate(row));
+  }
+
+  /**
+   * Add a new version of a template, optionally making it the active one.
+   * Admins only.
+   */
+  async createTemplateVersion(
+    key: PromptTemplateKey,
+    userId: string,
+    data: CreatePromptTemplateVersion
+  ): Promise<PromptTemplate> {
+    await this.assertAdmin(userId);
+
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize version numbering per key
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+
+      if (data.activate) {
+        await client.query(
+          'UPDATE prompt_templates SET is_active = FALSE WHERE key = $1 AND is_active = TRUE',
+          [key]
+        );
+      }
+
+      const result = await client.query(
+        `INSERT INTO prompt_templates (key, version, template, description, is_active, created_by)
+         SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5
+         FROM prompt_templates
+         WHERE key = $1
+         RETURNING *`,
+        [key, data.template, data.description || null, data.activate, userId]
+      );
+
+      await client.query('COMMIT');
+      await this.refresh();
+
+      return this.mapRowToPromptTemplate(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Make a specific version the active one (also used to roll back). Admins only.
+   */
+  async activateTemplateVersion(
+    key: PromptTemplateKey,
+    version: number,
+    userId: string
+  ): Promise<PromptTemplate> {
+    await this.assertAdmin(userId);
+
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        'SELECT id FROM prompt_templates WHERE key = $1 AND version = $2',
+        [key, version]
+      );
+
+      if (existing.rows.length === 0) {
+        throw new NotFoundError(`Prompt template ${key} version ${version}`);
+      }
+
+      await client.query(
+        'UPDATE prompt_templates SET is_active = FALSE WHERE key = $1 AND is_active = TRUE',
+        [key]
+      );
+
+      const result = await client.query(
+        'UPDATE prompt_templates SET is_active = TRUE WHERE key = $1 AND version = $2 RETURNING *',
+        [key, version]
+      );
+
+      await client.query('COMMIT');
+      await this.refresh();
+
+      return this.mapRowToPromptTemplate(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async assertAdmin(userId: string): Promise<void> {
+    const result = await this.db.query(
+      'SELECT is_admin FROM users WHERE id = $1',
+      [userId]
+    );
+
+    if (!result.rows[0]?.is_admin) {
+      throw new AuthorizationError('Only admins can manage prompt templates');
+    }
+  }
+
+  /**
+   * Store the built-in template as a new version if it is not in the table
+   * yet, i.e. on first start or after a release changed it. It only becomes
+   * the active version if the current one is also a built-in, so edited
+   * prompts are never replaced.
+   */
+  private async seedBuiltInTemplate(key: PromptTemplateKey): Promise<void> {
+    const template = DEFAULT_PROMPT_TEMPLATES[key];
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize with other instances seeding at startup
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+
+      const existing = await client.query(
+        'SELECT 1 FROM prompt_templates WHERE key = $1 AND template = $2',
+        [key, template]
+      );
+
+      if (existing.rows.length === 0) {
+        const active = await client.query(
+          'SELECT description FROM prompt_templates WHERE key = $1 AND is_active = TRUE',
+          [key]
+        );
+        const activate =
+          active.rows.length === 0 || active.rows[0].description === BUILT_IN_DESCRIPTION;
+
+        if (activate) {
+          await client.query(
+            'UPDATE prompt_templates SET is_active = FALSE WHERE key = $1 AND is_active = TRUE',
+            [key]
+          );
+        }
+
+        await client.query(
+          `INSERT INTO prompt_templates (key, version, template, description, is_active)
+           SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4
+           FROM prompt_templates
+           WHERE key = $1`,
+          [key, template, BUILT_IN_DESCRIPTION, activate]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRowToPromptTemplate(row: any): PromptTemplate {
+    return {
+      id: row.id,
+      key: row.key,
+      version: row.version,
+      template: row.template,
+      description: row.description || undefined,
+      isActive: row.is_active,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { Readability } from '@news-curator/shared';
+
+/** Texts shorter than this don't give stable scores */
+const MIN_WORDS = 30;
+
+/** Words of this many syllables or more count as rare */
+const RARE_WORD_SYLLABLES = 3;
+
+/**
+ * Grade range a style aims for is technicalLevel + GRADE_OFFSET, plus up to
+ * GRADE_RANGE: level 1 reads at grade 4-8, level 5 at 8-12, level 10 at 13-17
+ */
+const GRADE_OFFSET = 3;
+const GRADE_RANGE = 4;
+
+export interface GradeRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Service for measuring how hard English text is to read, and for telling
+ * whether a rewrite reads at the level its style asks for
+ */
+export class ReadabilityService {
+  /**
+   * Readability of the text, or undefined if it is too short to measure
+   */
+  measure(text: string): Readability | undefined {
+    // Lines without closing punctuation (headings, list items) end a sentence too
+    const sentences = text
+      .split(/[.!?]+(?=\s|$)|\n+/)
+      .map(sentence => sentence.match(/[A-Za-z]+(?:'[A-Za-z]+)?/g) ?? [])
+      .filter(words => words.length > 0);
+    const words = sentences.flat();
+
+    if (words.length < MIN_WORDS) {
+      return undefined;
+    }
+
+    const syllables = words.map(word => this.countSyllables(word));
+    const totalSyllables = syllables.reduce((sum, count) => sum + count, 0);
+    const rareWords = syllables.filter(count => count >= RARE_WORD_SYLLABLES).length;
+    const averageSentenceLength = words.length / sentences.length;
+
+    const grade = 0.39 * averageSentenceLength + 11.8 * (totalSyllables / words.length) - 15.59;
+
+    return {
+      grade: Math.round(Math.max(grade, 0) * 10) / 10,
+      averageSentenceLength: Math.round(averageSentenceLength * 10) / 10,
+      rareWordRatio: Math.round((rareWords / words.length) * 1000) / 1000,
+    };
+  }
+
+  /**
+   * Grades a style's technical level (1-10) should read at
+   */
+  getTargetRange(technicalLevel: number): GradeRange {
+    const min = technicalLevel + GRADE_OFFSET;
+    return { min, max: min + GRADE_RANGE };
+  }
+
+  /**
+   * How many grades the text is outside the range, 0 if within it
+   */
+  distanceFromRange(readability: Readability, range: GradeRange): number {
+    if (readability.grade < range.min) {
+      return range.min - readability.grade;
+    }
+
+    return Math.max(readability.grade - range.max, 0);
+  }
+
+  /**
+   * Instruction for a rewrite that missed the range, to pass back to the provider
+   */
+  describeMiss(readability: Readability, range: GradeRange): string {
+    const level = `The last attempt read at US grade level ${readability.grade}, and this style aims for grade ${range.min}-${range.max}.`;
+
+    return readability.grade > range.max
+      ? `Use shorter sentences and everyday words in place of long or technical ones. ${level}`
+      : `Use fuller sentences and the precise terms a more knowledgeable reader expects. ${level}`;
+  }
+
+  /**
+   * Syllables in an English word, by counting vowel groups. Silent endings
+   * ("-e", "-es", "-ed") are dropped first; every word has at least one.
+   */
+  private countSyllables(word: string): number {
+    const lower = word.toLowerCase().replace(/'.*$/, '');
+
+    if (lower.length <= 3) {
+      return 1;
+    }
+
+    const stripped = lower
+      .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+      .replace(/^y/, '');
+
+    return Math.max(stripped.match(/[aeiouy]{1,2}/g)?.length ?? 0, 1);
+  }
+}
@@ -0,0 +1,131 @@
+import { Pool } from 'pg';
+import { NotFoundError } from '@news-curator/shared';
+
+/** How far back coverage of the same story is looked for */
+const LOOKBACK_DAYS = 365;
+
+/** Articles fetched by keyword or entity before they are scored */
+const MAX_CANDIDATES = 200;
+
+/** Share of the title keywords or entities two articles must have in common */
+const MIN_OVERLAP = 0.4;
+
+/** Fewer shared terms than this is a coincidence, whatever the share */
+const MIN_SHARED_TERMS = 2;
+
+/** Short words are skipped anyway; these are the longer ones that say nothing about a story */
+const TITLE_STOPWORDS = new Set([
+  'about', 'after', 'again', 'against', 'amid', 'before', 'being', 'could', 'from',
+  'have', 'into', 'more', 'most', 'news', 'over', 'says', 'said', 'than', 'that',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'under', 'what', 'when',
+  'where', 'which', 'while', 'will', 'with', 'would', 'year', 'years', 'your',
+]);
+
+export interface RelatedArticle {
+  id: string;
+  title: string;
+  content: string;
+  sourceName: string;
+  publishedAt: Date;
+  /** 0-1 overlap of title keywords or entities with the article */
+  score: number;
+}
+
+/**
+ * Service for finding other articles in the corpus about the same story as
+ * an article
+ */
+export class RelatedArticlesService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Articles about the same story published before the article, oldest first.
+   * Articles match on the keywords of their titles, and on the people,
+   * organizations and places they name where entities have been extracted
+   * for both. Only the `limit` closest matches are kept.
+   */
+  async findEarlierCoverage(articleId: string, limit: number): Promise<RelatedArticle[]> {
+    const articleResult = await this.db.query(
+      `SELECT a.title, a.published_at,
+         ARRAY(SELECT DISTINCT LOWER(e.name) FROM article_entities e WHERE e.article_id = a.id) AS entity_names
+       FROM articles a
+       WHERE a.id = $1`,
+      [articleId]
+    );
+
+    if (articleResult.rows.length === 0) {
+      throw new NotFoundError('Article');
+    }
+
+    const article = articleResult.rows[0];
+    const keywords = this.getTitleKeywords(article.title);
+    const entityNames: string[] = article.entity_names;
+
+    if (keywords.length === 0 && entityNames.length === 0) {
+      return [];
+    }
+
+    const candidates = await this.db.query(
+      `SELECT a.id, a.title, a.original_content, a.published_at, s.name AS source_name,
+         ARRAY(SELECT DISTINCT LOWER(e.name) FROM article_entities e WHERE e.article_id = a.id) AS entity_names
+       FROM articles a
+       JOIN sources s ON a.source_id = s.id
+       WHERE a.id <> $1
+         AND a.published_at < $2
+         AND a.published_at >= $2::timestamptz - make_interval(days => $3)
+         AND (
+           LOWER(a.title) LIKE ANY($4)
+           OR a.id IN (SELECT article_id FROM article_entities WHERE LOWER(name) = ANY($5))
+         )
+       ORDER BY a.published_at DESC
+       LIMIT $6`,
+      [
+        articleId,
+        article.published_at,
+        LOOKBACK_DAYS,
+        keywords.map(keyword => `%${keyword}%`),
+        entityNames,
+        MAX_CANDIDATES,
+      ]
+    );
+
+    return candidates.rows
+      .map(row => ({
+        id: row.id,
+        title: row.title,
+        content: row.original_content,
+        sourceName: row.source_name,
+        publishedAt: new Date(row.published_at),
+        score: Math.max(
+          this.overlap(keywords, this.getTitleKeywords(row.title)),
+          this.overlap(entityNames, row.entity_names)
+        ),
+      }))
+      .filter(related => related.score >= MIN_OVERLAP)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  }
+
+  // Private helper methods
+
+  private getTitleKeywords(title: string): string[] {
+    const words = title.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    return [...new Set(words.filter(word => word.length >= 4 && !TITLE_STOPWORDS.has(word)))];
+  }
+
+  /**
+   * Terms in common over the size of the smaller set, so a short headline can
+   * match a long one. 0 when fewer than MIN_SHARED_TERMS are shared.
+   */
+  private overlap(terms: string[], otherTerms: string[]): number {
+    const other = new Set(otherTerms);
+    const shared = terms.filter(term => other.has(term)).length;
+
+    if (shared < MIN_SHARED_TERMS) {
+      return 0;
+    }
+
+    return shared / Math.min(terms.length, other.size);
+  }
+}
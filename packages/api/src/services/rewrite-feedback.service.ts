@@ -0,0 +1,424 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  CreateRewriteFeedback,
+  NotFoundError,
+  RewriteFeedback,
+  RewriteFeedbackReason,
+  StyleFeedbackSummary,
+  StyleProfile,
+  StyleProfileAdjustment,
+} from '@news-curator/shared';
+
+/** Feedback entries needed since the last adjustment before a profile is tuned */
+const MIN_FEEDBACK_TO_TUNE = 5;
+
+/** Share of those entries that must give a reason for it to be acted on */
+const REASON_SHARE_THRESHOLD = 0.3;
+
+const LENGTHS: StyleProfile['length'][] = ['concise', 'medium', 'detailed'];
+
+const REASON_DESCRIPTIONS: Record<RewriteFeedbackReason, string> = {
+  [RewriteFeedbackReason.TOO_LONG]: 'was too long',
+  [RewriteFeedbackReason.TOO_SHORT]: 'was too short',
+  [RewriteFeedbackReason.TOO_TECHNICAL]: 'was too technical',
+  [RewriteFeedbackReason.TOO_SIMPLE]: 'was too simple',
+  [RewriteFeedbackReason.MISSED_KEY_FACT]: 'missed a key fact',
+  [RewriteFeedbackReason.INACCURATE]: 'was inaccurate',
+  [RewriteFeedbackReason.WRONG_TONE]: 'had the wrong tone',
+};
+
+/**
+ * Prompt guidance for each reason. Length and technical level reasons only
+ * become guidance when the setting itself can't be moved, e.g. for profiles
+ * with a custom prompt.
+ */
+const REASON_GUIDANCE: Record<RewriteFeedbackReason, string> = {
+  [RewriteFeedbackReason.TOO_LONG]: 'Keep rewrites shorter and leave out secondary detail.',
+  [RewriteFeedbackReason.TOO_SHORT]: 'Write fuller rewrites that keep the supporting detail.',
+  [RewriteFeedbackReason.TOO_TECHNICAL]: 'Use plainer language and explain technical terms.',
+  [RewriteFeedbackReason.TOO_SIMPLE]: 'Assume more background knowledge and keep the technical detail.',
+  [RewriteFeedbackReason.MISSED_KEY_FACT]: 'Keep every key fact from the article, even when shortening it.',
+  [RewriteFeedbackReason.INACCURATE]: 'Stay strictly faithful to the article and never add claims it does not make.',
+  [RewriteFeedbackReason.WRONG_TONE]: 'Hold the requested tone consistently from start to finish.',
+};
+
+type AdjustmentField = StyleProfileAdjustment['field'];
+
+interface PendingAdjustment {
+  field: AdjustmentField;
+  previousValue: string | null;
+  newValue: string | null;
+  reason: string;
+}
+
+/**
+ * Service for reader feedback on rewrites. Feedback is aggregated per style
+ * profile and, unless the owner turned it off, used to nudge the profile's
+ * length, technical level and prompt guidance. Every change is audited.
+ */
+export class RewriteFeedbackService {
+  constructor(private db: Pool) {}
+
+  /**
+   * Record (or replace) the user's feedback on one of their rewrites, then
+   * tune the rewrite's style profile if enough feedback has built up
+   */
+  async submitFeedback(
+    rewrittenArticleId: string,
+    userId: string,
+    data: CreateRewriteFeedback
+  ): Promise<RewriteFeedback> {
+    const rewriteResult = await this.db.query(
+      'SELECT style_profile_id FROM rewritten_articles WHERE id = $1 AND user_id = $2',
+      [rewrittenArticleId, userId]
+    );
+
+    if (rewriteResult.rows.length === 0) {
+      throw new NotFoundError('Rewritten article');
+    }
+
+    const styleProfileId: string = rewriteResult.rows[0].style_profile_id;
+
+    const result = await this.db.query(
+      `INSERT INTO rewrite_feedback (
+         rewritten_article_id,
+         user_id,
+         style_profile_id,
+         thumbs_up,
+         rating,
+         reasons,
+         comment
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (rewritten_article_id, user_id)
+       DO UPDATE SET
+         thumbs_up = EXCLUDED.thumbs_up,
+         rating = EXCLUDED.rating,
+         reasons = EXCLUDED.reasons,
+         comment = EXCLUDED.comment
+       RETURNING *`,
+      [
+        rewrittenArticleId,
+        userId,
+        styleProfileId,
+        data.thumbsUp,
+        data.rating ?? null,
+        [...new Set(data.reasons)],
+        data.comment || null,
+      ]
+    );
+
+    await this.tuneStyleProfile(styleProfileId);
+
+    return this.mapRowToFeedback(result.rows[0]);
+  }
+
+  /**
+   * Get the user's feedback on one of their rewrites, if they gave any
+   */
+  async getFeedback(rewrittenArticleId: string, userId: string): Promise<RewriteFeedback | null> {
+    const result = await this.db.query(
+      'SELECT * FROM rewrite_feedback WHERE rewritten_article_id = $1 AND user_id = $2',
+      [rewrittenArticleId, userId]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToFeedback(result.rows[0]) : null;
+  }
+
+  /**
+   * Aggregate all feedback given on rewrites made with one of the user's
+   * style profiles
+   */
+  async getFeedbackSummary(styleProfileId: string, userId: string): Promise<StyleFeedbackSummary> {
+    await this.assertProfileOwner(styleProfileId, userId);
+
+    const [totalsResult, reasonsResult] = await Promise.all([
+      this.db.query(
+        `SELECT
+           COUNT(*) AS total,
+           COUNT(*) FILTER (WHERE thumbs_up) AS thumbs_up,
+           AVG(rating) AS average_rating
+         FROM rewrite_feedback
+         WHERE style_profile_id = $1`,
+        [styleProfileId]
+      ),
+      this.db.query(
+        `SELECT reason, COUNT(*) AS count
+         FROM rewrite_feedback, UNNEST(reasons) AS reason
+         WHERE style_profile_id = $1
+         GROUP BY reason`,
+        [styleProfileId]
+      ),
+    ]);
+
+    const totals = totalsResult.rows[0];
+    const total = parseInt(totals.total, 10);
+    const thumbsUp = parseInt(totals.thumbs_up, 10);
+
+    const reasonCounts = Object.fromEntries(
+      Object.values(RewriteFeedbackReason).map(reason => [reason, 0])
+    ) as Record<RewriteFeedbackReason, number>;
+    for (const row of reasonsResult.rows) {
+      if (row.reason in reasonCounts) {
+        reasonCounts[row.reason as RewriteFeedbackReason] = parseInt(row.count, 10);
+      }
+    }
+
+    return {
+      styleProfileId,
+      totalFeedback: total,
+      thumbsUp,
+      thumbsDown: total - thumbsUp,
+      averageRating: totals.average_rating != null ? parseFloat(totals.average_rating) : undefined,
+      reasonCounts,
+    };
+  }
+
+  /**
+   * List the adjustments feedback made to one of the user's style profiles,
+   * newest first
+   */
+  async getAdjustments(
+    styleProfileId: string,
+    userId: string,
+    limit: number = 50
+  ): Promise<StyleProfileAdjustment[]> {
+    await this.assertProfileOwner(styleProfileId, userId);
+
+    const result = await this.db.query(
+      `SELECT * FROM style_profile_adjustments
+       WHERE style_profile_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [styleProfileId, limit]
+    );
+
+    return result.rows.map(row => this.mapRowToAdjustment(row));
+  }
+
+  // Private helper methods
+
+  /**
+   * Apply the feedback given since the profile was last adjusted. Each
+   * adjustment starts a new window, so one batch of complaints moves a
+   * setting by a single step. Only the owner's feedback counts, since public
+   * profiles are also used by other readers.
+   */
+  private async tuneStyleProfile(styleProfileId: string): Promise<void> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const profileResult = await client.query(
+        `SELECT user_id, length, technical_level, custom_prompt, auto_tune, feedback_guidance
+         FROM style_profiles
+         WHERE id = $1
+         FOR UPDATE`,
+        [styleProfileId]
+      );
+
+      const profile = profileResult.rows[0];
+      if (!profile || !profile.auto_tune) {
+        await client.query('COMMIT');
+        return;
+      }
+
+      const feedbackResult = await client.query(
+        `SELECT reasons FROM rewrite_feedback
+         WHERE style_profile_id = $1
+           AND user_id = $2
+           AND updated_at > COALESCE(
+             (SELECT MAX(created_at) FROM style_profile_adjustments WHERE style_profile_id = $1),
+             '-infinity'
+           )`,
+        [styleProfileId, profile.user_id]
+      );
+
+      const total = feedbackResult.rows.length;
+      if (total < MIN_FEEDBACK_TO_TUNE) {
+        await client.query('COMMIT');
+        return;
+      }
+
+      const counts = new Map<RewriteFeedbackReason, number>();
+      for (const row of feedbackResult.rows) {
+        for (const reason of row.reasons as RewriteFeedbackReason[]) {
+          counts.set(reason, (counts.get(reason) ?? 0) + 1);
+        }
+      }
+
+      const count = (reason: RewriteFeedbackReason) => counts.get(reason) ?? 0;
+      const describe = (reason: RewriteFeedbackReason) =>
+        `${count(reason)} of ${total} feedback entries said the rewrite ${REASON_DESCRIPTIONS[reason]}`;
+      // A reason wins over its opposite when enough readers gave it and it
+      // outnumbers the opposite
+      const prevails = (reason: RewriteFeedbackReason, opposite?: RewriteFeedbackReason) =>
+        count(reason) / total >= REASON_SHARE_THRESHOLD &&
+        (opposite === undefined || count(reason) > count(opposite));
+
+      const adjustments: PendingAdjustment[] = [];
+      const guidanceReasons: RewriteFeedbackReason[] = [];
+      const usesSettings = !profile.custom_prompt;
+
+      let length: StyleProfile['length'] = profile.length;
+      const lengthReason = prevails(RewriteFeedbackReason.TOO_LONG, RewriteFeedbackReason.TOO_SHORT)
+        ? RewriteFeedbackReason.TOO_LONG
+        : prevails(RewriteFeedbackReason.TOO_SHORT, RewriteFeedbackReason.TOO_LONG)
+          ? RewriteFeedbackReason.TOO_SHORT
+          : undefined;
+
+      if (lengthReason) {
+        const nextLength = LENGTHS[
+          LENGTHS.indexOf(length) + (lengthReason === RewriteFeedbackReason.TOO_LONG ? -1 : 1)
+        ];
+
+        if (usesSettings && nextLength) {
+          adjustments.push({
+            field: 'length',
+            previousValue: length,
+            newValue: nextLength,
+            reason: describe(lengthReason),
+          });
+          length = nextLength;
+        } else {
+          guidanceReasons.push(lengthReason);
+        }
+      }
+
+      let technicalLevel: number = profile.technical_level;
+      const technicalReason = prevails(RewriteFeedbackReason.TOO_TECHNICAL, RewriteFeedbackReason.TOO_SIMPLE)
+        ? RewriteFeedbackReason.TOO_TECHNICAL
+        : prevails(RewriteFeedbackReason.TOO_SIMPLE, RewriteFeedbackReason.TOO_TECHNICAL)
+          ? RewriteFeedbackReason.TOO_SIMPLE
+          : undefined;
+
+      if (technicalReason) {
+        const nextLevel = technicalLevel + (technicalReason === RewriteFeedbackReason.TOO_TECHNICAL ? -1 : 1);
+
+        if (usesSettings && nextLevel >= 1 && nextLevel <= 10) {
+          adjustments.push({
+            field: 'technicalLevel',
+            previousValue: String(technicalLevel),
+            newValue: String(nextLevel),
+            reason: describe(technicalReason),
+          });
+          technicalLevel = nextLevel;
+        } else {
+          guidanceReasons.push(technicalReason);
+        }
+      }
+
+      for (const reason of [
+        RewriteFeedbackReason.MISSED_KEY_FACT,
+        RewriteFeedbackReason.INACCURATE,
+        RewriteFeedbackReason.WRONG_TONE,
+      ]) {
+        if (prevails(reason)) {
+          guidanceReasons.push(reason);
+        }
+      }
+
+      const previousGuidance: string | null = profile.feedback_guidance;
+      const guidanceLines = previousGuidance ? previousGuidance.split('\n') : [];
+      const addedReasons = guidanceReasons.filter(
+        reason => !guidanceLines.includes(REASON_GUIDANCE[reason])
+      );
+
+      let guidance = previousGuidance;
+      if (addedReasons.length > 0) {
+        guidance = [...guidanceLines, ...addedReasons.map(reason => REASON_GUIDANCE[reason])].join('\n');
+        adjustments.push({
+          field: 'feedbackGuidance',
+          previousValue: previousGuidance,
+          newValue: guidance,
+          reason: addedReasons.map(describe).join('; '),
+        });
+      }
+
+      if (adjustments.length > 0) {
+        await client.query(
+          `UPDATE style_profiles
+           SET length = $2, technical_level = $3, feedback_guidance = $4, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [styleProfileId, length, technicalLevel, guidance]
+        );
+
+        for (const adjustment of adjustments) {
+          await this.recordAdjustment(client, styleProfileId, adjustment, total);
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async recordAdjustment(
+    client: PoolClient,
+    styleProfileId: string,
+    adjustment: PendingAdjustment,
+    feedbackCount: number
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO style_profile_adjustments (
+         style_profile_id,
+         field,
+         previous_value,
+         new_value,
+         reason,
+         feedback_count
+       ) VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        styleProfileId,
+        adjustment.field,
+        adjustment.previousValue,
+        adjustment.newValue,
+        adjustment.reason,
+        feedbackCount,
+      ]
+    );
+  }
+
+  private async assertProfileOwner(styleProfileId: string, userId: string): Promise<void> {
+    const result = await this.db.query(
+      'SELECT id FROM style_profiles WHERE id = $1 AND user_id = $2',
+      [styleProfileId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Style profile');
+    }
+  }
+
+  private mapRowToFeedback(row: any): RewriteFeedback {
+    return {
+      id: row.id,
+      rewrittenArticleId: row.rewritten_article_id,
+      userId: row.user_id,
+      styleProfileId: row.style_profile_id,
+      thumbsUp: row.thumbs_up,
+      rating: row.rating ?? undefined,
+      reasons: row.reasons,
+      comment: row.comment || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapRowToAdjustment(row: any): StyleProfileAdjustment {
+    return {
+      id: row.id,
+      styleProfileId: row.style_profile_id,
+      field: row.field,
+      previousValue: row.previous_value ?? undefined,
+      newValue: row.new_value ?? undefined,
+      reason: row.reason,
+      feedbackCount: row.feedback_count,
+      createdAt: row.created_at,
+    };
+  }
+}
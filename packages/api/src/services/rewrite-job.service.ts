@@ -0,0 +1,107 @@
+import { Job } from 'bullmq';
+import {
+  RewriteJob,
+  RewriteJobState,
+  RewrittenArticleWithDetails,
+  NotFoundError,
+} from '@news-curator/shared';
+import { articleRewriteQueue, ArticleRewriteJobData } from '../config/redis';
+
+/**
+ * Service for queueing article rewrites and reporting their progress
+ */
+export class RewriteJobService {
+  /**
+   * Queue a rewrite. While a rewrite of the same article with the same style
+   * is already waiting or running for the user, that job is returned instead
+   * of queueing another one.
+   *
+   * Jobs with a priority (1 = highest) run after jobs without one, so
+   * background work should set it; a waiting background job is moved up when
+   * the same rewrite is requested with a higher priority.
+   */
+  async enqueueRewrite(
+    articleId: string,
+    userId: string,
+    styleProfileId: string,
+    options: ArticleRewriteJobData['options'] = {},
+    priority?: number
+  ): Promise<RewriteJob> {
+    const jobId = this.getJobId(articleId, userId, styleProfileId);
+    const existing = await articleRewriteQueue.getJob(jobId);
+
+    if (existing) {
+      const state = await existing.getState();
+
+      if (state !== 'completed' && state !== 'failed' && state !== 'unknown') {
+        if (state === 'prioritized' && (priority === undefined || priority < (existing.opts.priority ?? 0))) {
+          await existing.changePriority({ priority: priority ?? 0 });
+        }
+
+        return this.mapJobToRewriteJob(existing);
+      }
+
+      // A finished job keeps its id until it is cleaned up, so remove it to
+      // allow a new one
+      await existing.remove();
+    }
+
+    const job = await articleRewriteQueue.add(
+      'rewrite',
+      { articleId, userId, styleProfileId, options },
+      { jobId, priority }
+    );
+
+    return this.mapJobToRewriteJob(job);
+  }
+
+  /**
+   * Get the status of a rewrite job owned by the user
+   */
+  async getJob(jobId: string, userId: string): Promise<RewriteJob> {
+    const job = await articleRewriteQueue.getJob(jobId);
+
+    // Other users' jobs are reported as missing rather than forbidden
+    if (!job || job.data.userId !== userId) {
+      throw new NotFoundError('Rewrite job');
+    }
+
+    return this.mapJobToRewriteJob(job);
+  }
+
+  // Deterministic so concurrent requests attach to the same job
+  private getJobId(articleId: string, userId: string, styleProfileId: string): string {
+    return `rewrite_${articleId}_${userId}_${styleProfileId}`;
+  }
+
+  private async mapJobToRewriteJob(
+    job: Job<ArticleRewriteJobData, RewrittenArticleWithDetails>
+  ): Promise<RewriteJob> {
+    const state = await job.getState();
+
+    return {
+      id: job.id!,
+      articleId: job.data.articleId,
+      styleProfileId: job.data.styleProfileId,
+      state: this.mapJobState(state),
+      progress: typeof job.progress === 'number' ? job.progress : 0,
+      result: state === 'completed' ? job.returnvalue : undefined,
+      error: state === 'failed' ? job.failedReason : undefined,
+      createdAt: new Date(job.timestamp),
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+    };
+  }
+
+  private mapJobState(state: string): RewriteJobState {
+    switch (state) {
+      case 'active':
+      case 'completed':
+      case 'failed':
+      case 'delayed':
+        return state;
+      default:
+        // waiting, prioritized, waiting-children
+        return 'waiting';
+    }
+  }
+}
@@ -0,0 +1,306 @@
+import { Pool } from 'pg';
+import {
+  Citation,
+  NotFoundError,
+  RewriteDiff,
+  RewriteVersion,
+  RewrittenArticle,
+} from '@news-curator/shared';
+import { CitationExtractionService, ExtractedCitation } from './citation-extraction.service';
+import { ArticleCacheService } from './article-cache.service';
+import { TextDiffService } from './text-diff.service';
+
+/**
+ * Service for keeping every generated version of a rewrite, restoring an
+ * earlier one and comparing versions
+ */
+export class RewriteVersionService {
+  private citationService: CitationExtractionService;
+  private diffService: TextDiffService;
+
+  constructor(
+    private db: Pool,
+    private cacheService: ArticleCacheService
+  ) {
+    this.citationService = new CitationExtractionService(db);
+    this.diffService = new TextDiffService();
+  }
+
+  /**
+   * Record the rewrite's current content and citations as its next version,
+   * and make that the version it shows. Returns the version number.
+   */
+  async recordVersion(rewrite: RewrittenArticle, citations: Citation[]): Promise<number> {
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize version numbering per rewrite
+      await client.query('SELECT id FROM rewritten_articles WHERE id = $1 FOR UPDATE', [rewrite.id]);
+
+      const result = await client.query(
+        `INSERT INTO rewrite_versions (
+           rewritten_article_id,
+           version_number,
+           rewritten_content,
+           summary,
+           key_points,
+           processing_time_ms,
+           ai_cost,
+           ai_provider,
+           ai_model,
+           prompt_versions,
+           fidelity_score,
+           fidelity_discrepancies,
+           citations,
+           headline,
+           teaser,
+           readability
+         )
+         SELECT $1, COALESCE(MAX(version_number), 0) + 1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15
+         FROM rewrite_versions
+         WHERE rewritten_article_id = $1
+         RETURNING version_number`,
+        [
+          rewrite.id,
+          rewrite.rewrittenContent,
+          rewrite.summary || null,
+          JSON.stringify(rewrite.keyPoints || []),
+          rewrite.processingTimeMs || null,
+          rewrite.aiCost || null,
+          rewrite.aiProvider || null,
+          rewrite.aiModel || null,
+          rewrite.promptVersions ? JSON.stringify(rewrite.promptVersions) : null,
+          rewrite.fidelityScore ?? null,
+          rewrite.fidelityDiscrepancies ? JSON.stringify(rewrite.fidelityDiscrepancies) : null,
+          JSON.stringify(citations.map(citation => this.toCitationSnapshot(citation))),
+          rewrite.headline || null,
+          rewrite.teaser || null,
+          rewrite.readability ? JSON.stringify(rewrite.readability) : null,
+        ]
+      );
+
+      const versionNumber: number = result.rows[0].version_number;
+
+      await client.query(
+        'UPDATE rewritten_articles SET version = $2 WHERE id = $1',
+        [rewrite.id, versionNumber]
+      );
+
+      await client.query('COMMIT');
+
+      return versionNumber;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * List the versions of one of the user's rewrites, newest first
+   */
+  async getVersions(rewrittenArticleId: string, userId: string): Promise<RewriteVersion[]> {
+    const rewrite = await this.getOwnedRewrite(rewrittenArticleId, userId);
+
+    const result = await this.db.query(
+      `SELECT * FROM rewrite_versions
+       WHERE rewritten_article_id = $1
+       ORDER BY version_number DESC`,
+      [rewrittenArticleId]
+    );
+
+    return result.rows.map(row => this.mapRowToVersion(row, rewrite.version));
+  }
+
+  /**
+   * Make an earlier version the one the rewrite shows again, along with its
+   * citations. Versions are not renumbered, so the newer ones stay available.
+   * A restored rewrite is not shared with other users.
+   */
+  async restoreVersion(
+    rewrittenArticleId: string,
+    versionNumber: number,
+    userId: string
+  ): Promise<{ articleId: string; styleProfileId: string }> {
+    const rewrite = await this.getOwnedRewrite(rewrittenArticleId, userId);
+    const versionRow = await this.getVersionRow(rewrittenArticleId, versionNumber);
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // The sharing columns describe the content being replaced, which may have
+      // come from newer prompts, so the restored rewrite is no longer shared
+      await client.query(
+        `UPDATE rewritten_articles
+         SET
+           rewritten_content = $2,
+           summary = $3,
+           key_points = $4,
+           processing_time_ms = $5,
+           ai_cost = $6,
+           ai_provider = $7,
+           ai_model = $8,
+           prompt_versions = $9,
+           fidelity_score = $10,
+           fidelity_discrepancies = $11,
+           version = $12,
+           headline = $13,
+           teaser = $14,
+           readability = $15,
+           content_hash = NULL,
+           style_fingerprint = NULL,
+           shared_from_id = NULL
+         WHERE id = $1`,
+        [
+          rewrittenArticleId,
+          versionRow.rewritten_content,
+          versionRow.summary,
+          versionRow.key_points ? JSON.stringify(versionRow.key_points) : null,
+          versionRow.processing_time_ms,
+          versionRow.ai_cost,
+          versionRow.ai_provider,
+          versionRow.ai_model,
+          versionRow.prompt_versions ? JSON.stringify(versionRow.prompt_versions) : null,
+          versionRow.fidelity_score,
+          versionRow.fidelity_discrepancies ? JSON.stringify(versionRow.fidelity_discrepancies) : null,
+          versionNumber,
+          versionRow.headline,
+          versionRow.teaser,
+          versionRow.readability ? JSON.stringify(versionRow.readability) : null,
+        ]
+      );
+
+      await this.citationService.deleteCitationsForArticle(rewrittenArticleId, client);
+      await this.citationService.storeCitations(
+        rewrittenArticleId,
+        versionRow.citations as ExtractedCitation[],
+        rewrite.articleId,
+        client
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await this.cacheService.invalidateCache(rewrite.articleId, userId, rewrite.styleProfileId);
+
+    return { articleId: rewrite.articleId, styleProfileId: rewrite.styleProfileId };
+  }
+
+  /**
+   * Word-level diff between two versions of a rewrite, or between the
+   * original article and a version. `to` defaults to the current version.
+   */
+  async diffVersions(
+    rewrittenArticleId: string,
+    userId: string,
+    from: 'original' | number,
+    to?: number
+  ): Promise<RewriteDiff> {
+    const rewrite = await this.getOwnedRewrite(rewrittenArticleId, userId);
+    const toVersion = to ?? rewrite.version;
+
+    const [fromText, toRow] = await Promise.all([
+      from === 'original'
+        ? this.getOriginalContent(rewrite.articleId)
+        : this.getVersionRow(rewrittenArticleId, from).then(row => row.rewritten_content as string),
+      this.getVersionRow(rewrittenArticleId, toVersion),
+    ]);
+
+    return {
+      from,
+      to: toVersion,
+      segments: this.diffService.diffWords(fromText, toRow.rewritten_content),
+    };
+  }
+
+  // Private helper methods
+
+  private async getOwnedRewrite(
+    rewrittenArticleId: string,
+    userId: string
+  ): Promise<{ articleId: string; styleProfileId: string; version: number }> {
+    const result = await this.db.query(
+      'SELECT article_id, style_profile_id, version FROM rewritten_articles WHERE id = $1 AND user_id = $2',
+      [rewrittenArticleId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Rewritten article');
+    }
+
+    const row = result.rows[0];
+    return {
+      articleId: row.article_id,
+      styleProfileId: row.style_profile_id,
+      version: row.version,
+    };
+  }
+
+  private async getVersionRow(rewrittenArticleId: string, versionNumber: number): Promise<any> {
+    const result = await this.db.query(
+      'SELECT * FROM rewrite_versions WHERE rewritten_article_id = $1 AND version_number = $2',
+      [rewrittenArticleId, versionNumber]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError(`Rewrite version ${versionNumber}`);
+    }
+
+    return result.rows[0];
+  }
+
+  private async getOriginalContent(articleId: string): Promise<string> {
+    const result = await this.db.query(
+      'SELECT original_content FROM articles WHERE id = $1',
+      [articleId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Article');
+    }
+
+    return result.rows[0].original_content;
+  }
+
+  private toCitationSnapshot(citation: Citation): ExtractedCitation {
+    return {
+      text: citation.text,
+      url: citation.url,
+      position: citation.position,
+      paragraphIndex: citation.paragraphIndex,
+      originalStart: citation.originalStart,
+      originalEnd: citation.originalEnd,
+    };
+  }
+
+  private mapRowToVersion(row: any, currentVersion: number): RewriteVersion {
+    return {
+      id: row.id,
+      rewrittenArticleId: row.rewritten_article_id,
+      versionNumber: row.version_number,
+      rewrittenContent: row.rewritten_content,
+      summary: row.summary || undefined,
+      keyPoints: row.key_points || undefined,
+      headline: row.headline || undefined,
+      teaser: row.teaser || undefined,
+      readability: row.readability || undefined,
+      processingTimeMs: row.processing_time_ms || undefined,
+      aiCost: row.ai_cost ? parseFloat(row.ai_cost) : undefined,
+      aiProvider: row.ai_provider || undefined,
+      aiModel: row.ai_model || undefined,
+      promptVersions: row.prompt_versions || undefined,
+      fidelityScore: row.fidelity_score != null ? parseFloat(row.fidelity_score) : undefined,
+      isCurrent: row.version_number === currentVersion,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { Pool } from 'pg';
+import { RewriteWarmUpService } from './rewrite-warmup.service';
+
+export class RewriteWarmUpSchedulerService {
+  private intervalId?: NodeJS.Timeout;
+  private warmUpService: RewriteWarmUpService;
+
+  constructor(db: Pool) {
+    this.warmUpService = new RewriteWarmUpService(db);
+  }
+
+  /**
+   * Start the hourly warm-up check
+   */
+  start(): void {
+    if (this.intervalId) {
+      console.warn('Rewrite warm-up scheduler is already running');
+      return;
+    }
+
+    console.log('Starting rewrite warm-up scheduler (interval: 60 minutes)');
+
+    // Run immediately on start
+    this.runScheduledWarmUp();
+
+    // Then run every hour, so each reading window's lead hour is checked once
+    this.intervalId = setInterval(() => {
+      this.runScheduledWarmUp();
+    }, 60 * 60 * 1000);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+      console.log('Rewrite warm-up scheduler stopped');
+    }
+  }
+
+  /**
+   * Queue warm-up rewrites for users whose reading window is coming up
+   */
+  private async runScheduledWarmUp(): Promise<void> {
+    try {
+      const result = await this.warmUpService.runWarmUp();
+
+      if (result.usersProcessed > 0) {
+        console.log(
+          `Queued ${result.rewritesQueued} warm-up rewrites for ${result.usersProcessed} users`
+        );
+      }
+    } catch (error) {
+      console.error('Error running rewrite warm-up:', error);
+    }
+  }
+}
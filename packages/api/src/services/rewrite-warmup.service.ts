@@ -0,0 +1,199 @@
+import { Pool } from 'pg';
+import { UserPreferences } from '@news-curator/shared';
+import { env } from '../config/env';
+import { AIUsageService } from './ai-usage.service';
+import { RewriteJobService } from './rewrite-job.service';
+
+/** Local hour at which each preferred reading window starts */
+const READING_WINDOW_START_HOURS: Record<UserPreferences['preferredReadingTime'], number> = {
+  morning: 7,
+  afternoon: 12,
+  evening: 18,
+};
+
+/** Warm-ups are queued this many hours before the reading window starts */
+const WARMUP_LEAD_HOURS = 1;
+
+/** Only articles published this recently are warmed up */
+const CANDIDATE_MAX_AGE_HOURS = 24;
+
+/** Warm-up jobs run after rewrites users are waiting for */
+const WARMUP_JOB_PRIORITY = 10;
+
+interface WarmUpCandidateUser {
+  userId: string;
+  styleProfileId: string;
+  articlesPerSession: number;
+  warmedUpToday: number;
+}
+
+export interface WarmUpResult {
+  usersProcessed: number;
+  rewritesQueued: number;
+}
+
+/**
+ * Service for rewriting the articles a user is likely to read before their
+ * preferred reading time, so the first open doesn't wait on the AI provider
+ */
+export class RewriteWarmUpService {
+  private rewriteJobService: RewriteJobService;
+  private usageService: AIUsageService;
+
+  constructor(private db: Pool) {
+    this.rewriteJobService = new RewriteJobService();
+    this.usageService = new AIUsageService(db);
+  }
+
+  /**
+   * Queue warm-up rewrites for every user whose reading window starts within
+   * the lead time. Meant to run once an hour.
+   */
+  async runWarmUp(now: Date = new Date()): Promise<WarmUpResult> {
+    const upcomingHour = (now.getHours() + WARMUP_LEAD_HOURS) % 24;
+    const readingTime = (Object.keys(READING_WINDOW_START_HOURS) as UserPreferences['preferredReadingTime'][])
+      .find(time => READING_WINDOW_START_HOURS[time] === upcomingHour);
+
+    if (!readingTime) {
+      return { usersProcessed: 0, rewritesQueued: 0 };
+    }
+
+    const users = await this.getUsersToWarmUp(readingTime);
+    let rewritesQueued = 0;
+
+    for (const user of users) {
+      try {
+        rewritesQueued += await this.warmUpUser(user);
+      } catch (error) {
+        console.error(`Failed to warm up rewrites for user ${user.userId}:`, error);
+      }
+    }
+
+    return { usersProcessed: users.length, rewritesQueued };
+  }
+
+  /**
+   * Queue rewrites of the user's top candidate articles, up to the rest of
+   * their daily warm-up allowance
+   */
+  private async warmUpUser(user: WarmUpCandidateUser): Promise<number> {
+    const remaining = Math.min(
+      user.articlesPerSession,
+      env.WARMUP_MAX_REWRITES_PER_USER_PER_DAY - user.warmedUpToday
+    );
+
+    if (remaining <= 0) {
+      return 0;
+    }
+
+    // Warm-ups are optional, so leave the budget for rewrites the user asks for
+    const budget = await this.usageService.checkBudget(user.userId);
+    if (!budget.allowed) {
+      return 0;
+    }
+
+    const articleIds = await this.getCandidateArticles(user.userId, user.styleProfileId, remaining);
+
+    for (const articleId of articleIds) {
+      const job = await this.rewriteJobService.enqueueRewrite(
+        articleId,
+        user.userId,
+        user.styleProfileId,
+        {},
+        WARMUP_JOB_PRIORITY
+      );
+
+      await this.db.query(
+        `INSERT INTO rewrite_warmups (user_id, article_id, style_profile_id, job_id)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (user_id, article_id, style_profile_id) DO NOTHING`,
+        [user.userId, articleId, user.styleProfileId, job.id]
+      );
+    }
+
+    return articleIds.length;
+  }
+
+  /**
+   * Users with this reading time, a default style and recent reading
+   * activity, with the number of warm-ups already queued for them today
+   */
+  private async getUsersToWarmUp(
+    readingTime: UserPreferences['preferredReadingTime']
+  ): Promise<WarmUpCandidateUser[]> {
+    const query = `
+      SELECT
+        up.user_id,
+        up.default_style_profile_id,
+        up.articles_per_session,
+        (
+          SELECT COUNT(*)
+          FROM rewrite_warmups rw
+          WHERE rw.user_id = up.user_id
+            AND rw.created_at >= CURRENT_DATE
+        ) AS warmed_up_today
+      FROM user_preferences up
+      WHERE up.preferred_reading_time = $1
+        AND up.default_style_profile_id IS NOT NULL
+        AND (
+          COALESCE(cardinality(up.followed_categories), 0) > 0
+          OR COALESCE(cardinality(up.followed_sources), 0) > 0
+        )
+        AND EXISTS (
+          SELECT 1 FROM reading_history rh
+          WHERE rh.user_id = up.user_id
+            AND rh.created_at >= NOW() - make_interval(days => $2)
+        )
+    `;
+
+    const result = await this.db.query(query, [readingTime, env.WARMUP_INACTIVE_AFTER_DAYS]);
+
+    return result.rows.map(row => ({
+      userId: row.user_id,
+      styleProfileId: row.default_style_profile_id,
+      articlesPerSession: row.articles_per_session,
+      warmedUpToday: parseInt(row.warmed_up_today, 10),
+    }));
+  }
+
+  /**
+   * Recent articles from the user's followed categories or sources that
+   * they have not read, rewritten or had warmed up yet, most important first
+   */
+  private async getCandidateArticles(
+    userId: string,
+    styleProfileId: string,
+    limit: number
+  ): Promise<string[]> {
+    const query = `
+      SELECT a.id
+      FROM articles a
+      JOIN user_preferences up ON up.user_id = $1
+      WHERE a.published_at >= NOW() - make_interval(hours => $3)
+        AND (
+          a.category = ANY(COALESCE(up.followed_categories, '{}'))
+          OR a.source_id = ANY(COALESCE(up.followed_sources, '{}'))
+        )
+        AND NOT (a.category = ANY(COALESCE(up.muted_categories, '{}')))
+        AND NOT (a.source_id = ANY(COALESCE(up.muted_sources, '{}')))
+        AND NOT EXISTS (
+          SELECT 1 FROM reading_history rh
+          WHERE rh.user_id = $1 AND rh.article_id = a.id
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM rewritten_articles ra
+          WHERE ra.user_id = $1 AND ra.article_id = a.id AND ra.style_profile_id = $2
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM rewrite_warmups rw
+          WHERE rw.user_id = $1 AND rw.article_id = a.id AND rw.style_profile_id = $2
+        )
+      ORDER BY a.importance_score DESC NULLS LAST, a.published_at DESC
+      LIMIT $4
+    `;
+
+    const result = await this.db.query(query, [userId, styleProfileId, CANDIDATE_MAX_AGE_HOURS, limit]);
+
+    return result.rows.map(row => row.id);
+  }
+}
@@ -0,0 +1,245 @@
+import { Pool } from 'pg';
+import {
+  AIProvider,
+  ArticleWithSource,
+  CreateStorySynthesis,
+  NotFoundError,
+  StyleProfile,
+  StorySynthesis,
+  StorySynthesisWithDetails,
+} from '@news-curator/shared';
+import { CitationExtractionService } from './citation-extraction.service';
+import { AIUsageService, runWithAIUsageUser } from './ai-usage.service';
+import { StyleProfileService } from './style-profile.service';
+
+/**
+ * Service for combining several articles about the same story into a single
+ * article in the user's style, with every claim attributed to its sources
+ */
+export class StorySynthesisService {
+  private citationService: CitationExtractionService;
+  private usageService: AIUsageService;
+  private styleProfileService: StyleProfileService;
+
+  constructor(
+    private db: Pool,
+    private aiProvider: AIProvider
+  ) {
+    this.citationService = new CitationExtractionService(db);
+    this.usageService = new AIUsageService(db);
+    this.styleProfileService = new StyleProfileService(db);
+  }
+
+  /**
+   * Synthesize the given articles with a style profile owned by the user or
+   * shared publicly
+   */
+  async synthesize(userId: string, data: CreateStorySynthesis): Promise<StorySynthesisWithDetails> {
+    const [articles, styleProfile] = await Promise.all([
+      this.getArticlesWithSource(data.articleIds),
+      this.getStyleProfile(data.styleProfileId, userId),
+    ]);
+
+    if (articles.length !== data.articleIds.length) {
+      throw new NotFoundError('Article');
+    }
+
+    if (!styleProfile) {
+      throw new NotFoundError('Style profile');
+    }
+
+    await this.usageService.assertWithinBudget(userId);
+
+    const aiResult = await runWithAIUsageUser(userId, () =>
+      this.aiProvider.synthesizeArticles(
+        articles.map(article => ({
+          id: article.id,
+          sourceName: article.source.name,
+          title: article.title,
+          content: article.originalContent,
+        })),
+        styleProfile
+      )
+    );
+
+    const query = `
+      INSERT INTO story_syntheses (
+        user_id,
+        style_profile_id,
+        article_ids,
+        synthesized_content,
+        disagreements,
+        processing_time_ms,
+        ai_cost,
+        ai_provider,
+        ai_model,
+        prompt_versions
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+
+    // The synthesis and its citations are stored together or not at all
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(query, [
+        userId,
+        styleProfile.id,
+        articles.map(article => article.id),
+        aiResult.content,
+        JSON.stringify(aiResult.disagreements),
+        aiResult.processingTimeMs,
+        aiResult.cost,
+        aiResult.provider || null,
+        aiResult.model || null,
+        aiResult.promptVersions ? JSON.stringify(aiResult.promptVersions) : null,
+      ]);
+
+      const synthesis = this.mapRowToSynthesis(result.rows[0]);
+      const citations = await this.citationService.storeSynthesisCitations(
+        synthesis.id,
+        aiResult.citations,
+        client
+      );
+
+      await client.query('COMMIT');
+
+      return { ...synthesis, articles, citations };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get a synthesis owned by the user, with its source articles and citations
+   */
+  async getSynthesis(id: string, userId: string): Promise<StorySynthesisWithDetails> {
+    const result = await this.db.query(
+      'SELECT * FROM story_syntheses WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Story synthesis');
+    }
+
+    const synthesis = this.mapRowToSynthesis(result.rows[0]);
+    const [articles, citations] = await Promise.all([
+      this.getArticlesWithSource(synthesis.articleIds),
+      this.citationService.getCitationsForSynthesis(synthesis.id),
+    ]);
+
+    return { ...synthesis, articles, citations };
+  }
+
+  /**
+   * Get the user's syntheses, newest first
+   */
+  async getUserSyntheses(
+    userId: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<StorySynthesis[]> {
+    const query = `
+      SELECT * FROM story_syntheses
+      WHERE user_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2 OFFSET $3
+    `;
+
+    const result = await this.db.query(query, [userId, limit, offset]);
+
+    return result.rows.map(row => this.mapRowToSynthesis(row));
+  }
+
+  // Private helper methods
+
+  /**
+   * Articles that still exist, in the order the ids were given
+   */
+  private async getArticlesWithSource(articleIds: string[]): Promise<ArticleWithSource[]> {
+    const query = `
+      SELECT
+        a.*,
+        s.id as source_id,
+        s.name as source_name,
+        s.url as source_url,
+        s.reliability_score,
+        s.favicon,
+        s.is_active,
+        s.created_at as source_created_at,
+        s.updated_at as source_updated_at
+      FROM articles a
+      JOIN sources s ON a.source_id = s.id
+      WHERE a.id = ANY($1)
+      ORDER BY array_position($1::uuid[], a.id)
+    `;
+
+    const result = await this.db.query(query, [articleIds]);
+
+    return result.rows.map(row => ({
+      id: row.id,
+      sourceId: row.source_id,
+      title: row.title,
+      originalContent: row.original_content,
+      url: row.url,
+      author: row.author,
+      publishedAt: row.published_at,
+      category: row.category,
+      imageUrl: row.image_url,
+      importanceScore: row.importance_score,
+      language: row.language || undefined,
+      readability: row.readability || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      source: {
+        id: row.source_id,
+        name: row.source_name,
+        url: row.source_url,
+        reliabilityScore: row.reliability_score,
+        favicon: row.favicon,
+        isActive: row.is_active,
+        createdAt: row.source_created_at,
+        updatedAt: row.source_updated_at,
+      },
+    }));
+  }
+
+  private async getStyleProfile(styleProfileId: string, userId: string): Promise<StyleProfile | null> {
+    const query = `
+      SELECT * FROM style_profiles
+      WHERE id = $1 AND (user_id = $2 OR (is_public = TRUE AND moderation_status = 'visible'))
+    `;
+
+    const result = await this.db.query(query, [styleProfileId, userId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.styleProfileService.mapRowToStyleProfile(result.rows[0]);
+  }
+
+  private mapRowToSynthesis(row: any): StorySynthesis {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      styleProfileId: row.style_profile_id,
+      articleIds: row.article_ids,
+      synthesizedContent: row.synthesized_content,
+      disagreements: row.disagreements || [],
+      processingTimeMs: row.processing_time_ms,
+      aiCost: row.ai_cost ? parseFloat(row.ai_cost) : undefined,
+      aiProvider: row.ai_provider || undefined,
+      aiModel: row.ai_model || undefined,
+      promptVersions: row.prompt_versions || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { PromptRegistry, PromptTemplateKey, StyleProfile } from '@news-curator/shared';
+import { BUILT_IN_PROMPT_VERSION } from '@news-curator/ai-providers';
+
+/**
+ * Service for fingerprinting the settings that shape a rewrite
+ */
+export class StyleFingerprintService {
+  constructor(private promptRegistry?: PromptRegistry) {}
+
+  /**
+   * Canonical fingerprint of everything that shapes a rewrite: the style
+   * settings used in the prompts and the active prompt template versions.
+   * Profiles with different names or owners but the same effective settings
+   * get the same fingerprint.
+   */
+  getFingerprint(style: StyleProfile): string {
+    const systemPromptKey = style.customPrompt
+      ? PromptTemplateKey.REWRITE_SYSTEM_CUSTOM
+      : PromptTemplateKey.REWRITE_SYSTEM;
+
+    const promptVersions = [
+      systemPromptKey,
+      PromptTemplateKey.REWRITE_USER,
+      PromptTemplateKey.REWRITE_CHUNK,
+      PromptTemplateKey.REWRITE_STITCH,
+    ].map(key => `${key}@${this.promptRegistry?.getActiveTemplate(key)?.version ?? BUILT_IN_PROMPT_VERSION}`);
+
+    const settings = style.customPrompt
+      ? { customPrompt: style.customPrompt.trim() }
+      : {
+          predefinedStyle: style.predefinedStyle ?? null,
+          tone: style.tone,
+          length: style.length,
+          technicalLevel: style.technicalLevel,
+          includeContext: style.includeContext,
+        };
+
+    const canonical = JSON.stringify({
+      ...settings,
+      includeKeyPoints: style.includeKeyPoints,
+      targetLanguage: style.targetLanguage ?? null,
+      feedbackGuidance: style.feedbackGuidance?.trim() || null,
+      promptVersions,
+    });
+
+    return createHash('sha256').update(canonical).digest('hex');
+  }
+}
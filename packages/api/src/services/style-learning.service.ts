@@ -0,0 +1,119 @@
+import { Pool } from 'pg';
+import { randomUUID } from 'crypto';
+import {
+  AIProvider,
+  CreateStyleProfile,
+  CreateStyleProfileSchema,
+  LearnStyleProfile,
+  LearnedStyleProfile,
+  NotFoundError,
+  StyleProfile,
+  StyleProfilePreview,
+} from '@news-curator/shared';
+import { AIUsageService, runWithAIUsageUser } from './ai-usage.service';
+
+/** Previews rewrite only the opening of the article to keep them cheap */
+const PREVIEW_MAX_PARAGRAPHS = 5;
+
+/**
+ * Service for drafting style profiles from samples of writing the user likes
+ */
+export class StyleLearningService {
+  private usageService: AIUsageService;
+
+  constructor(
+    private db: Pool,
+    private aiProvider: AIProvider
+  ) {
+    this.usageService = new AIUsageService(db);
+  }
+
+  /**
+   * Ask the AI to describe the samples' style and turn it into an unsaved
+   * profile. When a preview article is given, its opening is rewritten with
+   * the draft so the user can judge it before saving.
+   */
+  async learnFromSamples(userId: string, data: LearnStyleProfile): Promise<LearnedStyleProfile> {
+    const previewArticle = data.previewArticleId
+      ? await this.getPreviewArticle(data.previewArticleId)
+      : null;
+
+    await this.usageService.assertWithinBudget(userId);
+
+    return runWithAIUsageUser(userId, async () => {
+      const learned = await this.aiProvider.learnStyle(data.samples);
+
+      const draft: CreateStyleProfile = CreateStyleProfileSchema.parse({
+        name: data.name ?? learned.name,
+        description: learned.description,
+        customPrompt: learned.customPrompt,
+        tone: learned.tone,
+        length: learned.length,
+        technicalLevel: learned.technicalLevel,
+      });
+
+      if (!previewArticle) {
+        return { draft };
+      }
+
+      return {
+        draft,
+        preview: await this.previewDraft(userId, draft, previewArticle),
+      };
+    });
+  }
+
+  // Private helper methods
+
+  private async previewDraft(
+    userId: string,
+    draft: CreateStyleProfile,
+    article: { id: string; title: string; excerpt: string }
+  ): Promise<StyleProfilePreview> {
+    // The draft isn't stored, so it gets a throwaway identity for the call
+    const now = new Date();
+    const profile: StyleProfile = {
+      ...draft,
+      id: randomUUID(),
+      userId,
+      moderationStatus: 'visible',
+      usageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result = await this.aiProvider.rewriteArticle(article.excerpt, profile);
+
+    return {
+      articleId: article.id,
+      title: article.title,
+      originalExcerpt: article.excerpt,
+      rewrittenContent: result.content,
+    };
+  }
+
+  private async getPreviewArticle(
+    articleId: string
+  ): Promise<{ id: string; title: string; excerpt: string }> {
+    const result = await this.db.query(
+      'SELECT id, title, original_content FROM articles WHERE id = $1',
+      [articleId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Article');
+    }
+
+    const row = result.rows[0];
+    const paragraphs = (row.original_content as string)
+      .split(/\n\s*\n|\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(Boolean);
+
+    return {
+      id: row.id,
+      title: row.title,
+      excerpt: paragraphs.slice(0, PREVIEW_MAX_PARAGRAPHS).join('\n\n'),
+    };
+  }
+}
@@ -0,0 +1,382 @@
+import { Pool } from 'pg';
+import {
+  AuthorizationError,
+  ConflictError,
+  CreateStyleProfileReport,
+  ForkStyleProfile,
+  ModerateStyleProfile,
+  NotFoundError,
+  PublicStyleProfile,
+  StyleGalleryQuery,
+  StyleGallerySort,
+  StyleModerationQueueItem,
+  StyleProfile,
+  StyleProfileReport,
+  ValidationError,
+} from '@news-curator/shared';
+import { StyleProfileService } from './style-profile.service';
+
+/** Open reports that take a profile out of the gallery until a moderator reviews it */
+const REPORTS_TO_REVIEW = 3;
+
+/** Days of usage counted for the trending sort */
+const TRENDING_WINDOW_DAYS = 7;
+
+const GALLERY_ORDER: Record<StyleGallerySort, string> = {
+  [StyleGallerySort.TRENDING]: 'weekly_usage DESC, sp.usage_count DESC, sp.created_at DESC',
+  [StyleGallerySort.TOP_RATED]: 'rating_average DESC NULLS LAST, rating_count DESC, sp.created_at DESC',
+  [StyleGallerySort.MOST_USED]: 'sp.usage_count DESC, sp.created_at DESC',
+  [StyleGallerySort.NEWEST]: 'sp.created_at DESC',
+};
+
+/**
+ * Service for the community gallery of public style profiles: search,
+ * forking with attribution, ratings, and reporting and moderation
+ */
+export class StyleMarketplaceService {
+  private styleProfileService: StyleProfileService;
+
+  constructor(private db: Pool) {
+    this.styleProfileService = new StyleProfileService(db);
+  }
+
+  /**
+   * Search the public profiles that haven't been hidden by moderation
+   */
+  async listPublicProfiles(
+    query: StyleGalleryQuery
+  ): Promise<{ profiles: PublicStyleProfile[]; total: number }> {
+    const conditions = ["sp.is_public = TRUE", "sp.moderation_status = 'visible'"];
+    const values: any[] = [];
+    let paramCounter = 1;
+
+    if (query.search) {
+      conditions.push(`(sp.name ILIKE $${paramCounter} OR sp.description ILIKE $${paramCounter})`);
+      values.push(`%${query.search.replace(/[\\%_]/g, '\\$&')}%`);
+      paramCounter++;
+    }
+
+    if (query.tags.length > 0) {
+      conditions.push(`sp.tags @> $${paramCounter}::text[]`);
+      values.push(query.tags);
+      paramCounter++;
+    }
+
+    const result = await this.db.query(
+      `SELECT
+         sp.*,
+         ${this.galleryColumns()},
+         COUNT(*) OVER () AS total_count
+       FROM style_profiles sp
+       ${this.galleryJoins()}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${GALLERY_ORDER[query.sort]}
+       LIMIT $${paramCounter} OFFSET $${paramCounter + 1}`,
+      [...values, query.limit, query.offset]
+    );
+
+    return {
+      profiles: result.rows.map(row => this.mapRowToPublicProfile(row)),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0,
+    };
+  }
+
+  /**
+   * Copy a public profile (or one of the user's own) into the user's
+   * profiles, keeping a link to it and to the author the chain started from
+   */
+  async forkProfile(id: string, userId: string, data: ForkStyleProfile): Promise<StyleProfile> {
+    const source = await this.getForkableProfile(id, userId);
+
+    const result = await this.db.query(
+      `INSERT INTO style_profiles (
+         user_id,
+         name,
+         description,
+         predefined_style,
+         custom_prompt,
+         tone,
+         length,
+         technical_level,
+         include_context,
+         include_key_points,
+         target_language,
+         tags,
+         forked_from_id,
+         original_author_id
+       )
+       SELECT
+         $2, $3, description, predefined_style, custom_prompt, tone, length,
+         technical_level, include_context, include_key_points, target_language, tags,
+         id, COALESCE(original_author_id, user_id)
+       FROM style_profiles
+       WHERE id = $1
+       RETURNING *`,
+      [source.id, userId, data.name ?? source.name]
+    );
+
+    return this.styleProfileService.mapRowToStyleProfile(result.rows[0]);
+  }
+
+  /**
+   * Rate a public profile from 1 to 5, replacing the user's earlier rating
+   */
+  async rateProfile(id: string, userId: string, rating: number): Promise<PublicStyleProfile> {
+    const profile = await this.getGalleryProfile(id);
+
+    if (profile.userId === userId) {
+      throw new ValidationError('You cannot rate your own style profile');
+    }
+
+    await this.db.query(
+      `INSERT INTO style_profile_ratings (style_profile_id, user_id, rating)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (style_profile_id, user_id)
+       DO UPDATE SET rating = EXCLUDED.rating`,
+      [id, userId, rating]
+    );
+
+    return this.getGalleryProfile(id);
+  }
+
+  /**
+   * Report a public profile, e.g. for an abusive custom prompt. Enough open
+   * reports take it out of the gallery until a moderator has looked at it.
+   */
+  async reportProfile(
+    id: string,
+    userId: string,
+    data: CreateStyleProfileReport
+  ): Promise<StyleProfileReport> {
+    const profile = await this.getGalleryProfile(id);
+
+    if (profile.userId === userId) {
+      throw new ValidationError('You cannot report your own style profile');
+    }
+
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // A reporter can amend an open report but not reopen a resolved one
+      const result = await client.query(
+        `INSERT INTO style_profile_reports (style_profile_id, reporter_id, reason, details)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (style_profile_id, reporter_id)
+         DO UPDATE SET reason = EXCLUDED.reason, details = EXCLUDED.details
+         WHERE style_profile_reports.status = 'open'
+         RETURNING *`,
+        [id, userId, data.reason, data.details || null]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError('You have already reported this style profile');
+      }
+
+      await client.query(
+        `UPDATE style_profiles
+         SET moderation_status = 'under_review'
+         WHERE id = $1
+           AND moderation_status = 'visible'
+           AND (SELECT COUNT(*) FROM style_profile_reports
+                WHERE style_profile_id = $1 AND status = 'open') >= $2`,
+        [id, REPORTS_TO_REVIEW]
+      );
+
+      await client.query('COMMIT');
+
+      return this.mapRowToReport(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Profiles with open reports, most reported first. Moderators only.
+   */
+  async getModerationQueue(userId: string, limit: number = 50): Promise<StyleModerationQueueItem[]> {
+    await this.assertModerator(userId);
+
+    const profilesResult = await this.db.query(
+      `SELECT sp.*
+       FROM style_profiles sp
+       JOIN style_profile_reports r ON r.style_profile_id = sp.id AND r.status = 'open'
+       GROUP BY sp.id
+       ORDER BY COUNT(r.id) DESC, MIN(r.created_at) ASC
+       LIMIT $1`,
+      [limit]
+    );
+
+    if (profilesResult.rows.length === 0) {
+      return [];
+    }
+
+    const reportsResult = await this.db.query(
+      `SELECT * FROM style_profile_reports
+       WHERE style_profile_id = ANY($1) AND status = 'open'
+       ORDER BY created_at ASC`,
+      [profilesResult.rows.map(row => row.id)]
+    );
+
+    return profilesResult.rows.map(row => ({
+      profile: this.styleProfileService.mapRowToStyleProfile(row),
+      reports: reportsResult.rows
+        .filter(report => report.style_profile_id === row.id)
+        .map(report => this.mapRowToReport(report)),
+    }));
+  }
+
+  /**
+   * Resolve a profile's open reports. Removing takes the profile out of the
+   * gallery for good; its owner can still use it privately.
+   * Moderators only.
+   */
+  async moderateProfile(
+    id: string,
+    userId: string,
+    data: ModerateStyleProfile
+  ): Promise<StyleProfile> {
+    await this.assertModerator(userId);
+
+    const client = await this.db.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const profileResult = await client.query(
+        data.action === 'remove'
+          ? `UPDATE style_profiles
+             SET moderation_status = 'removed', is_public = FALSE, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1
+             RETURNING *`
+          : `UPDATE style_profiles
+             SET moderation_status = 'visible'
+             WHERE id = $1
+             RETURNING *`,
+        [id]
+      );
+
+      if (profileResult.rows.length === 0) {
+        throw new NotFoundError('Style profile');
+      }
+
+      await client.query(
+        `UPDATE style_profile_reports
+         SET status = $2, resolved_by = $3, resolved_at = CURRENT_TIMESTAMP
+         WHERE style_profile_id = $1 AND status = 'open'`,
+        [id, data.action === 'remove' ? 'actioned' : 'dismissed', userId]
+      );
+
+      await client.query('COMMIT');
+
+      return this.styleProfileService.mapRowToStyleProfile(profileResult.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Private helper methods
+
+  private async getGalleryProfile(id: string): Promise<PublicStyleProfile> {
+    const result = await this.db.query(
+      `SELECT sp.*, ${this.galleryColumns()}
+       FROM style_profiles sp
+       ${this.galleryJoins()}
+       WHERE sp.id = $1 AND sp.is_public = TRUE AND sp.moderation_status = 'visible'`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Style profile');
+    }
+
+    return this.mapRowToPublicProfile(result.rows[0]);
+  }
+
+  private async getForkableProfile(id: string, userId: string): Promise<StyleProfile> {
+    const result = await this.db.query(
+      `SELECT * FROM style_profiles
+       WHERE id = $1
+         AND (user_id = $2 OR (is_public = TRUE AND moderation_status = 'visible'))`,
+      [id, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Style profile');
+    }
+
+    return this.styleProfileService.mapRowToStyleProfile(result.rows[0]);
+  }
+
+  private async assertModerator(userId: string): Promise<void> {
+    const result = await this.db.query(
+      'SELECT is_moderator FROM users WHERE id = $1',
+      [userId]
+    );
+
+    if (!result.rows[0]?.is_moderator) {
+      throw new AuthorizationError('Only moderators can review reported style profiles');
+    }
+  }
+
+  private galleryColumns(): string {
+    return `
+      NULLIF(TRIM(CONCAT_WS(' ', author.first_name, author.last_name)), '') AS author_name,
+      NULLIF(TRIM(CONCAT_WS(' ', original.first_name, original.last_name)), '') AS original_author_name,
+      ratings.average AS rating_average,
+      COALESCE(ratings.count, 0) AS rating_count,
+      (SELECT COUNT(*) FROM style_profiles forks WHERE forks.forked_from_id = sp.id) AS fork_count,
+      COALESCE(weekly.uses, 0) AS weekly_usage`;
+  }
+
+  private galleryJoins(): string {
+    return `
+      JOIN users author ON author.id = sp.user_id
+      LEFT JOIN users original ON original.id = sp.original_author_id
+      LEFT JOIN LATERAL (
+        SELECT AVG(rating) AS average, COUNT(*) AS count
+        FROM style_profile_ratings
+        WHERE style_profile_id = sp.id
+      ) ratings ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT SUM(uses) AS uses
+        FROM style_profile_daily_usage
+        WHERE style_profile_id = sp.id AND day > CURRENT_DATE - ${TRENDING_WINDOW_DAYS}
+      ) weekly ON TRUE`;
+  }
+
+  private mapRowToPublicProfile(row: any): PublicStyleProfile {
+    return {
+      ...this.styleProfileService.mapRowToStyleProfile(row),
+      authorName: row.author_name || 'Anonymous',
+      originalAuthorName: row.original_author_id
+        ? row.original_author_name || 'Anonymous'
+        : undefined,
+      ratingAverage: row.rating_average != null ? parseFloat(row.rating_average) : undefined,
+      ratingCount: parseInt(row.rating_count, 10),
+      forkCount: parseInt(row.fork_count, 10),
+      weeklyUsage: parseInt(row.weekly_usage, 10),
+    };
+  }
+
+  private mapRowToReport(row: any): StyleProfileReport {
+    return {
+      id: row.id,
+      styleProfileId: row.style_profile_id,
+      reporterId: row.reporter_id,
+      reason: row.reason,
+      details: row.details || undefined,
+      status: row.status,
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
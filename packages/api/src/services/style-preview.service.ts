@@ -0,0 +1,116 @@
+import { Pool } from 'pg';
+import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import {
+  AIProvider,
+  PromptRegistry,
+  StyleProfile,
+  StyleProfilePreview,
+  StylePreviewRequest,
+} from '@news-curator/shared';
+import { AIUsageService, runWithAIUsageUser } from './ai-usage.service';
+import { StyleFingerprintService } from './style-fingerprint.service';
+
+/**
+ * Short article every preview is rewritten from. Changing it changes every
+ * preview, so bump STYLE_PREVIEW_CACHE_VERSION along with it.
+ */
+const STYLE_PREVIEW_ARTICLE = {
+  title: 'City to trial battery storage at three fire stations',
+  content: [
+    'The city council on Tuesday approved a two-year trial that will install lithium iron phosphate battery systems at three of its fire stations, aiming to keep them running through power cuts without diesel generators.',
+    'Each station will get a 200 kWh battery paired with rooftop solar panels. Engineers expect the systems to cover at least 36 hours of normal operation during an outage, compared with about 24 hours from the current generators.',
+    'The trial will cost $1.4 million, of which $900,000 comes from a state clean energy grant. Council members voted 7 to 2 in favour. The two members who voted against said the money would be better spent on hiring.',
+    '"Our stations have to work when everything else has stopped," said fire chief Maria Okafor. "This gives us a quieter, cleaner way to make sure they do."',
+    'If the trial meets its targets, the council will consider fitting the remaining nine stations from 2027.',
+  ].join('\n\n'),
+};
+
+const STYLE_PREVIEW_CACHE_VERSION = 1;
+
+/**
+ * Service for previewing unsaved style settings against a fixed sample
+ * article. Previews are cached by style fingerprint, so only settings nobody
+ * has previewed yet cost an AI call.
+ */
+export class StylePreviewService {
+  private readonly CACHE_PREFIX = `style_preview:v${STYLE_PREVIEW_CACHE_VERSION}:`;
+  private readonly CACHE_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
+
+  private usageService: AIUsageService;
+  private fingerprintService: StyleFingerprintService;
+
+  constructor(
+    db: Pool,
+    private aiProvider: AIProvider,
+    private redis: Redis,
+    promptRegistry?: PromptRegistry
+  ) {
+    this.usageService = new AIUsageService(db);
+    this.fingerprintService = new StyleFingerprintService(promptRegistry);
+  }
+
+  /**
+   * Rewrite the sample article with the given settings
+   */
+  async preview(userId: string, settings: StylePreviewRequest): Promise<StyleProfilePreview> {
+    // The settings aren't stored, so they get a throwaway profile for the call
+    const now = new Date();
+    const profile: StyleProfile = {
+      ...settings,
+      id: randomUUID(),
+      userId,
+      name: 'Preview',
+      isDefault: false,
+      isPublic: false,
+      autoTune: false,
+      tags: [],
+      moderationStatus: 'visible',
+      usageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const key = `${this.CACHE_PREFIX}${this.fingerprintService.getFingerprint(profile)}`;
+    const cached = await this.getCachedContent(key);
+
+    if (cached !== null) {
+      return this.toPreview(cached, true);
+    }
+
+    await this.usageService.assertWithinBudget(userId);
+
+    const result = await runWithAIUsageUser(userId, () =>
+      this.aiProvider.rewriteArticle(STYLE_PREVIEW_ARTICLE.content, profile)
+    );
+
+    try {
+      await this.redis.setex(key, this.CACHE_TTL, result.content);
+    } catch (error) {
+      console.error('Failed to cache style preview:', error);
+      // Don't throw - caching failure shouldn't break the preview
+    }
+
+    return this.toPreview(result.content, false);
+  }
+
+  // Private helper methods
+
+  private async getCachedContent(key: string): Promise<string | null> {
+    try {
+      return await this.redis.get(key);
+    } catch (error) {
+      console.error('Failed to get cached style preview:', error);
+      return null;
+    }
+  }
+
+  private toPreview(rewrittenContent: string, cached: boolean): StyleProfilePreview {
+    return {
+      title: STYLE_PREVIEW_ARTICLE.title,
+      originalExcerpt: STYLE_PREVIEW_ARTICLE.content,
+      rewrittenContent,
+      cached,
+    };
+  }
+}
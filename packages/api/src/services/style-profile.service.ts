@@ -43,22 +43,6 @@ export class StyleProfileService {
     return this.mapRowToStyleProfile(result.rows[0]);
   }
 
-  /**
-   * Get public style profiles (community templates)
-   */
-  async getPublicStyleProfiles(limit: number = 20): Promise<StyleProfile[]> {
-    const query = `
-      SELECT * FROM style_profiles
-      WHERE is_public = TRUE
-      ORDER BY usage_count DESC
-      LIMIT $1
-    `;
-
-    const result = await this.db.query(query, [limit]);
-
-    return result.rows.map(row => this.mapRowToStyleProfile(row));
-  }
-
   /**
    * Create a new style profile
    */
@@ -87,8 +71,11 @@ export class StyleProfileService {
         include_context,
         include_key_points,
         is_default,
-        is_public
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        is_public,
+        auto_tune,
+        tags,
+        target_language
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
       RETURNING *
     `;
 
@@ -105,6 +92,9 @@ export class StyleProfileService {
       data.includeKeyPoints,
       data.isDefault,
       data.isPublic,
+      data.autoTune,
+      [...new Set(data.tags)],
+      data.targetLanguage || null,
     ]);
 
     return this.mapRowToStyleProfile(result.rows[0]);
@@ -119,7 +109,11 @@ export class StyleProfileService {
     data: UpdateStyleProfile
   ): Promise<StyleProfile> {
     // Check if profile exists and belongs to user
-    await this.getStyleProfileById(id, userId);
+    const existing = await this.getStyleProfileById(id, userId);
+
+    if (data.isPublic === true && existing.moderationStatus === 'removed') {
+      throw new ValidationError('This style profile was removed from the gallery by a moderator');
+    }
 
     // If setting as default, unset other defaults
     if (data.isDefault === true) {
@@ -188,6 +182,12 @@ export class StyleProfileService {
       paramCounter++;
     }
 
+    if (data.targetLanguage !== undefined) {
+      updates.push(`target_language = $${paramCounter}`);
+      values.push(data.targetLanguage);
+      paramCounter++;
+    }
+
     if (data.isDefault !== undefined) {
       updates.push(`is_default = $${paramCounter}`);
       values.push(data.isDefault);
@@ -200,6 +200,24 @@ export class StyleProfileService {
       paramCounter++;
     }
 
+    if (data.tags !== undefined) {
+      updates.push(`tags = $${paramCounter}`);
+      values.push([...new Set(data.tags)]);
+      paramCounter++;
+    }
+
+    if (data.autoTune !== undefined) {
+      updates.push(`auto_tune = $${paramCounter}`);
+      values.push(data.autoTune);
+      paramCounter++;
+    }
+
+    if (data.feedbackGuidance !== undefined) {
+      updates.push(`feedback_guidance = $${paramCounter}`);
+      values.push(data.feedbackGuidance.trim() || null);
+      paramCounter++;
+    }
+
     if (updates.length === 0) {
       // No updates, return existing profile
       return this.getStyleProfileById(id, userId);
@@ -283,7 +301,7 @@ export class StyleProfileService {
   /**
    * Helper to map database row to StyleProfile
    */
-  private mapRowToStyleProfile(row: any): StyleProfile {
+  mapRowToStyleProfile(row: any): StyleProfile {
     return {
       id: row.id,
       userId: row.user_id,
@@ -296,8 +314,15 @@ export class StyleProfileService {
       technicalLevel: row.technical_level,
       includeContext: row.include_context,
       includeKeyPoints: row.include_key_points,
+      targetLanguage: row.target_language || undefined,
       isDefault: row.is_default,
       isPublic: row.is_public,
+      autoTune: row.auto_tune,
+      feedbackGuidance: row.feedback_guidance || undefined,
+      tags: row.tags,
+      forkedFromId: row.forked_from_id || undefined,
+      originalAuthorId: row.original_author_id || undefined,
+      moderationStatus: row.moderation_status,
       usageCount: row.usage_count,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
@@ -0,0 +1,131 @@
+import { TextDiffSegment } from '@news-curator/shared';
+
+/**
+ * Largest comparison table built for one diff (2M cells, 8 MB). The table
+ * is filled synchronously, so this also bounds how long a diff holds up
+ * the event loop.
+ */
+const MAX_DIFF_CELLS = 2_000_000;
+
+type Push = (type: TextDiffSegment['type'], text: string) => void;
+
+/**
+ * Service for word-level comparison of article texts
+ */
+export class TextDiffService {
+  /**
+   * Diff two texts word by word. Whitespace is kept in the segments so that
+   * joining the equal and removed segments gives `from`, and joining the
+   * equal and added segments gives `to`.
+   *
+   * Texts whose changed middle is too long to compare word by word are
+   * compared paragraph by paragraph instead, and reported as fully replaced
+   * if even that is too large.
+   */
+  diffWords(from: string, to: string): TextDiffSegment[] {
+    const segments: TextDiffSegment[] = [];
+    const push: Push = (type, text) => {
+      const last = segments[segments.length - 1];
+      if (last && last.type === type) {
+        last.text += text;
+      } else if (text) {
+        segments.push({ type, text });
+      }
+    };
+
+    if (
+      !diffTokens(tokenizeWords(from), tokenizeWords(to), push) &&
+      !diffTokens(tokenizeParagraphs(from), tokenizeParagraphs(to), push)
+    ) {
+      push('removed', from);
+      push('added', to);
+    }
+
+    return segments;
+  }
+}
+
+/**
+ * Split text into words and the whitespace between them
+ */
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Split text into paragraphs and the blank lines between them
+ */
+function tokenizeParagraphs(text: string): string[] {
+  return text.split(/(\n\s*\n)/).filter(token => token.length > 0);
+}
+
+/**
+ * Diff two token lists, pushing nothing and returning false if their changed
+ * middle would need a comparison table larger than MAX_DIFF_CELLS
+ */
+function diffTokens(a: string[], b: string[], push: Push): boolean {
+  // Unchanged openings and endings don't need the comparison table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+
+  if ((middleA.length + 1) * (middleB.length + 1) > MAX_DIFF_CELLS) {
+    return false;
+  }
+
+  push('equal', a.slice(0, prefix).join(''));
+  diffMiddle(middleA, middleB, push);
+  push('equal', a.slice(a.length - suffix).join(''));
+
+  return true;
+}
+
+/**
+ * Longest-common-subsequence diff of two token lists
+ */
+function diffMiddle(a: string[], b: string[], push: Push): void {
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i]);
+      i++;
+    } else {
+      push('added', b[j]);
+      j++;
+    }
+  }
+
+  push('removed', a.slice(i).join(''));
+  push('added', b.slice(j).join(''));
+}
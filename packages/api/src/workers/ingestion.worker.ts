@@ -1,21 +1,28 @@
 import { Worker, Job } from 'bullmq';
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
+import { Language } from '@news-curator/shared';
 import { createRedisConnection, NewsIngestionJobData, QUEUE_NAMES } from '../config/redis';
 import { RSSParserService } from '../services/rss-parser.service';
 import { WebScraperService } from '../services/web-scraper.service';
 import { DeduplicationService } from '../services/deduplication.service';
+import { LanguageDetectionService } from '../services/language-detection.service';
+import { ReadabilityService } from '../services/readability.service';
 
 export class IngestionWorker {
   private worker: Worker<NewsIngestionJobData>;
   private rssParser: RSSParserService;
   private webScraper: WebScraperService;
   private deduplicationService: DeduplicationService;
+  private languageDetection: LanguageDetectionService;
+  private readabilityService: ReadabilityService;
 
   constructor(private db: Pool) {
     this.rssParser = new RSSParserService();
     this.webScraper = new WebScraperService();
     this.deduplicationService = new DeduplicationService(db);
+    this.languageDetection = new LanguageDetectionService();
+    this.readabilityService = new ReadabilityService();
 
     this.worker = new Worker<NewsIngestionJobData>(
       QUEUE_NAMES.NEWS_INGESTION,
@@ -201,14 +208,20 @@ export class IngestionWorker {
     contentHash: string;
   }): Promise<string> {
     const id = uuidv4();
+    const language = this.languageDetection.detectLanguage(`${data.title}\n\n${data.content}`);
+    // The metrics only mean something for English
+    const readability = !language || language === Language.ENGLISH
+      ? this.readabilityService.measure(data.content)
+      : undefined;
 
     await this.db.query(
       `
       INSERT INTO articles (
         id, source_id, title, original_content, url, author,
-        published_at, category, image_url, content_hash, created_at, updated_at
+        published_at, category, image_url, content_hash, language, readability,
+        created_at, updated_at
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
       `,
       [
         id,
@@ -221,6 +234,8 @@ export class IngestionWorker {
         data.category || 'other',
         data.imageUrl,
         data.contentHash,
+        language || null,
+        readability ? JSON.stringify(readability) : null,
       ]
     );
 
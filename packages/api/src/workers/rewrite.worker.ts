@@ -0,0 +1,85 @@
+import { Worker, Job, UnrecoverableError } from 'bullmq';
+import { Pool } from 'pg';
+import { AppError, RewrittenArticleWithDetails } from '@news-curator/shared';
+import { ArticleRewriteJobData, createRedisConnection, QUEUE_NAMES, redis } from '../config/redis';
+import { getAIProvider, getPromptTemplateService } from '../config/ai';
+import { ArticleRewritingService } from '../services/article-rewriting.service';
+import { ArticleCacheService } from '../services/article-cache.service';
+
+export class RewriteWorker {
+  private worker: Worker<ArticleRewriteJobData, RewrittenArticleWithDetails>;
+  private rewritingService: ArticleRewritingService;
+
+  constructor(db: Pool) {
+    this.rewritingService = new ArticleRewritingService(
+      db,
+      getAIProvider(),
+      new ArticleCacheService(redis),
+      getPromptTemplateService()
+    );
+
+    this.worker = new Worker<ArticleRewriteJobData, RewrittenArticleWithDetails>(
+      QUEUE_NAMES.ARTICLE_REWRITE,
+      async (job) => this.processJob(job),
+      {
+        connection: createRedisConnection(),
+        concurrency: 3, // Rewrites are long-running AI calls
+      }
+    );
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Process a rewrite job
+   */
+  private async processJob(
+    job: Job<ArticleRewriteJobData, RewrittenArticleWithDetails>
+  ): Promise<RewrittenArticleWithDetails> {
+    const { articleId, userId, styleProfileId, options } = job.data;
+
+    console.log(`Processing rewrite job ${job.id} for article ${articleId}`);
+
+    try {
+      return await this.rewritingService.rewriteArticle(articleId, userId, styleProfileId, {
+        ...options,
+        addSourceCitation: true,
+        onProgress: (percent) => {
+          job.updateProgress(percent).catch(error =>
+            console.warn(`Failed to update progress of rewrite job ${job.id}:`, error)
+          );
+        },
+      });
+    } catch (error) {
+      // Client errors (e.g. budget exceeded) will fail the same way on retry
+      if (error instanceof AppError && error.statusCode < 500) {
+        throw new UnrecoverableError(error.message);
+      }
+      throw error; // Re-throw to let BullMQ handle retry logic
+    }
+  }
+
+  /**
+   * Set up event listeners for the worker
+   */
+  private setupEventListeners(): void {
+    this.worker.on('completed', (job) => {
+      console.log(`Rewrite job ${job.id} completed successfully`);
+    });
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`Rewrite job ${job?.id} failed:`, err);
+    });
+
+    this.worker.on('error', (err) => {
+      console.error('Rewrite worker error:', err);
+    });
+  }
+
+  /**
+   * Close the worker
+   */
+  async close(): Promise<void> {
+    await this.worker.close();
+  }
+}
@@ -0,0 +1,122 @@
+import { FidelityCheckService } from '../../src/services/fidelity-check.service';
+
+const original =
+  'Jane Porter, the mayor, said the city will spend $4.5 million on new bike lanes. ' +
+  'Work starts on March 3, 2025 and covers 12 miles. ' +
+  '"This is the biggest investment in cycling we have made," Porter said.';
+
+describe('FidelityCheckService', () => {
+  const service = new FidelityCheckService();
+
+  describe('checkFidelity', () => {
+    it('scores a rewrite that keeps every fact as 1', () => {
+      const rewritten =
+        'The city is putting $4.5 million into bike lanes, mayor Jane Porter said. ' +
+        'Crews will build 12 miles from March 3, 2025. ' +
+        '"This is the biggest investment in cycling we have made," Porter said.';
+
+      expect(service.checkFidelity(original, rewritten)).toEqual({ score: 1, discrepancies: [] });
+    });
+
+    it('reports a changed number as altered', () => {
+      const rewritten = original.replace('$4.5 million', '$5 million');
+
+      const report = service.checkFidelity(original, rewritten);
+
+      expect(report.discrepancies).toContainEqual(
+        expect.objectContaining({ type: 'number', kind: 'altered', original: '$4.5 million', rewritten: '$5 million' })
+      );
+      expect(report.score).toBeLessThan(1);
+    });
+
+    it('reports names the rewrite added', () => {
+      const report = service.checkFidelity(original, `${original} Governor Tom Reyes praised the plan.`);
+
+      expect(report.discrepancies).toContainEqual({ type: 'entity', kind: 'added', rewritten: 'Governor Tom Reyes' });
+    });
+
+    it('reports a reworded quote as altered', () => {
+      const rewritten = original.replace('the biggest investment', 'the largest investment');
+
+      expect(service.checkFidelity(original, rewritten).discrepancies).toEqual([
+        {
+          type: 'quote',
+          kind: 'altered',
+          original: 'This is the biggest investment in cycling we have made',
+          rewritten: 'This is the largest investment in cycling we have made',
+        },
+      ]);
+    });
+
+    it('penalizes dropped facts less than added ones', () => {
+      const dropped = service.checkFidelity(original, 'Jane Porter announced new bike lanes.');
+      const added = service.checkFidelity(original, `${original} It will cost $9 million by 2030.`);
+
+      expect(dropped.discrepancies.every(discrepancy => discrepancy.kind === 'dropped')).toBe(true);
+      expect(dropped.score).toBeGreaterThan(0);
+      expect(added.discrepancies.filter(discrepancy => discrepancy.kind === 'added')).toHaveLength(2);
+    });
+
+    it('only checks names and quotes of translations', () => {
+      const translated =
+        'La alcaldesa Jane Porter dijo que la ciudad gastará 4,5 millones de dólares. ' +
+        'Las obras empiezan el 3 de marzo de 2025. ' +
+        '"This is the biggest investment in cycling we have made," dijo Porter.';
+
+      expect(service.checkFidelity(original, translated, { translated: true })).toEqual({
+        score: 1,
+        discrepancies: [],
+      });
+    });
+  });
+
+  describe('checkHeadline', () => {
+    it('accepts a headline that sticks to the article', () => {
+      expect(
+        service.checkHeadline(original, 'City to spend $4.5 million on bike lanes', 'Work on 12 miles of lanes starts in March.')
+      ).toEqual({ supported: true, issues: [] });
+    });
+
+    it('accepts names shortened in the headline', () => {
+      expect(service.checkHeadline(original, 'Porter unveils bike lane plan', 'The city will build 12 miles.').supported)
+        .toBe(true);
+    });
+
+    it('flags figures and names that are not in the article', () => {
+      const check = service.checkHeadline(original, 'Governor Reyes backs $8 million bike plan', 'Lanes open in 2026.');
+
+      expect(check.supported).toBe(false);
+      expect(check.issues).toEqual(
+        expect.arrayContaining([
+          'It mentions "Governor Reyes", which the article does not',
+          'It gives "$8 million", which the article does not',
+          'It gives "2026", which the article does not',
+        ])
+      );
+    });
+
+    it('flags clickbait, questions, exclamation marks and shouting', () => {
+      const check = service.checkHeadline(original, 'Is this the HUGE plan that will shock you?', 'Find out!');
+
+      expect(check.issues).toEqual(
+        expect.arrayContaining([
+          'It uses clickbait phrasing ("will shock you")',
+          'The headline is a question instead of saying what happened',
+          'It uses an exclamation mark',
+          'It uses capitals for emphasis ("HUGE")',
+        ])
+      );
+    });
+
+    it('flags made-up quotes, also in translations', () => {
+      const check = service.checkHeadline(
+        original,
+        'Porter: "We will pave every street"',
+        'El plan cubre 12 millas.',
+        { translated: true }
+      );
+
+      expect(check.issues).toEqual(['It quotes "We will pave every street", which the article does not']);
+    });
+  });
+});
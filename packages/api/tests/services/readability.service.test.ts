@@ -0,0 +1,82 @@
+import { ReadabilityService } from '../../src/services/readability.service';
+
+const simple =
+  'The cat sat on the mat. It was a warm day. The sun was out. ' +
+  'A dog ran by the gate. The cat did not move. Then it went to sleep. ' +
+  'The dog came back for lunch.';
+
+const complex =
+  'Municipal administrators characterized the infrastructure appropriation as an unprecedented ' +
+  'commitment to sustainable transportation, emphasizing that comprehensive environmental ' +
+  'evaluations preceded the authorization. Opposition representatives nevertheless questioned ' +
+  'the financial justification, arguing that considerably more economical alternatives had ' +
+  'received insufficient consideration during the deliberations.';
+
+describe('ReadabilityService', () => {
+  const service = new ReadabilityService();
+
+  describe('measure', () => {
+    it('leaves texts too short to score unmeasured', () => {
+      expect(service.measure('A short update on the council vote.')).toBeUndefined();
+    });
+
+    it('scores simple text at a low grade', () => {
+      const readability = service.measure(simple)!;
+
+      expect(readability.grade).toBeLessThan(3);
+      expect(readability.averageSentenceLength).toBe(5.3);
+      expect(readability.rareWordRatio).toBe(0);
+    });
+
+    it('scores long sentences of long words at a high grade', () => {
+      const readability = service.measure(complex)!;
+
+      expect(readability.grade).toBeGreaterThan(16);
+      expect(readability.averageSentenceLength).toBe(20.5);
+      expect(readability.rareWordRatio).toBeGreaterThan(0.5);
+    });
+
+    it('ends sentences at line breaks without punctuation', () => {
+      const withHeadings = `Key points\n${simple}\nWhat comes next\nThe council votes in May.`;
+
+      expect(service.measure(withHeadings)!.averageSentenceLength).toBe(4.7);
+    });
+  });
+
+  describe('countSyllables', () => {
+    const countSyllables = (word: string) => service['countSyllables'](word);
+
+    it('counts vowel groups', () => {
+      expect(countSyllables('council')).toBe(2);
+      expect(countSyllables('transportation')).toBe(4);
+      expect(countSyllables('infrastructure')).toBe(4);
+    });
+
+    it('drops silent endings', () => {
+      expect(countSyllables('make')).toBe(1);
+      expect(countSyllables('voted')).toBe(1);
+      expect(countSyllables('promises')).toBe(2);
+    });
+
+    it('counts short words and contractions as at least one syllable', () => {
+      expect(countSyllables('the')).toBe(1);
+      expect(countSyllables("didn't")).toBe(1);
+      expect(countSyllables('rhythm')).toBe(1);
+    });
+  });
+
+  describe('target range', () => {
+    it('maps technical levels to grade ranges', () => {
+      expect(service.getTargetRange(1)).toEqual({ min: 4, max: 8 });
+      expect(service.getTargetRange(10)).toEqual({ min: 13, max: 17 });
+    });
+
+    it('measures how far a grade is outside the range', () => {
+      const range = { min: 8, max: 12 };
+
+      expect(service.distanceFromRange({ grade: 10, averageSentenceLength: 15, rareWordRatio: 0.1 }, range)).toBe(0);
+      expect(service.distanceFromRange({ grade: 5, averageSentenceLength: 9, rareWordRatio: 0.05 }, range)).toBe(3);
+      expect(service.distanceFromRange({ grade: 14.5, averageSentenceLength: 25, rareWordRatio: 0.3 }, range)).toBe(2.5);
+    });
+  });
+});
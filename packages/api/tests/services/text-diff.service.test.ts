@@ -0,0 +1,68 @@
+import { TextDiffSegment } from '@news-curator/shared';
+import { TextDiffService } from '../../src/services/text-diff.service';
+
+// Joining the segments of one side must give back that side's text
+const side = (segments: TextDiffSegment[], skip: TextDiffSegment['type']) =>
+  segments.filter(segment => segment.type !== skip).map(segment => segment.text).join('');
+
+describe('TextDiffService', () => {
+  const service = new TextDiffService();
+
+  it('returns one equal segment for identical texts', () => {
+    expect(service.diffWords('The council met.', 'The council met.')).toEqual([
+      { type: 'equal', text: 'The council met.' },
+    ]);
+  });
+
+  it('marks replaced words as removed and added', () => {
+    expect(service.diffWords('The council met on Monday.', 'The council met on Tuesday.')).toEqual([
+      { type: 'equal', text: 'The council met on ' },
+      { type: 'removed', text: 'Monday.' },
+      { type: 'added', text: 'Tuesday.' },
+    ]);
+  });
+
+  it('finds unchanged words between changes', () => {
+    const segments = service.diffWords('The old council met today', 'The new council met again today');
+
+    expect(segments).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'removed', text: 'old' },
+      { type: 'added', text: 'new' },
+      { type: 'equal', text: ' council met' },
+      { type: 'added', text: ' again' },
+      { type: 'equal', text: ' today' },
+    ]);
+  });
+
+  it('keeps whitespace so both texts can be rebuilt', () => {
+    const from = 'First paragraph here.\n\nSecond  paragraph, unchanged.';
+    const to = 'First paragraph there.\n\nSecond  paragraph, unchanged.\n\nA third one.';
+
+    const segments = service.diffWords(from, to);
+
+    expect(side(segments, 'added')).toBe(from);
+    expect(side(segments, 'removed')).toBe(to);
+  });
+
+  it('handles empty texts', () => {
+    expect(service.diffWords('', 'Now there is text')).toEqual([
+      { type: 'added', text: 'Now there is text' },
+    ]);
+    expect(service.diffWords('', '')).toEqual([]);
+  });
+
+  it('compares paragraphs when the texts are too long to compare word by word', () => {
+    const paragraph = (prefix: string) =>
+      Array.from({ length: 1500 }, (_, index) => `${prefix}${index}`).join(' ');
+    const from = `${paragraph('a')}\n\nKept paragraph.\n\n${paragraph('b')}`;
+    const to = `${paragraph('c')}\n\nKept paragraph.\n\n${paragraph('d')}`;
+
+    const segments = service.diffWords(from, to);
+
+    expect(segments.map(segment => segment.type)).toEqual(['removed', 'added', 'equal', 'removed', 'added']);
+    expect(segments[2].text).toBe('\n\nKept paragraph.\n\n');
+    expect(side(segments, 'added')).toBe(from);
+    expect(side(segments, 'removed')).toBe(to);
+  });
+});
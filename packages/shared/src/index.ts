@@ -4,15 +4,33 @@ export * from './types/user';
 // Article types
 export * from './types/article';
 
+// Language types
+export * from './types/language';
+
+// Article analysis types (entities, claims, quotes, timelines)
+export * from './types/analysis';
+
+// Story synthesis types
+export * from './types/synthesis';
+
 // Style types
 export * from './types/style';
 
+// Rewrite feedback types
+export * from './types/feedback';
+
+// Style gallery types
+export * from './types/marketplace';
+
 // Preferences types
 export * from './types/preferences';
 
 // AI types
 export * from './types/ai';
 
+// Prompt template types
+export * from './types/prompt';
+
 // Reading history types
 export * from './types/reading-history';
 
@@ -1,14 +1,51 @@
 import { z } from 'zod';
 import { StyleProfile } from './style';
+import { EntityType } from './analysis';
+import { PromptRegistry } from './prompt';
 
 export interface AIProvider {
   name: string;
+  model?: string;
   rewriteArticle(content: string, style: StyleProfile): Promise<AIRewriteResult>;
+  rewriteArticleStream(
+    content: string,
+    style: StyleProfile,
+    onToken: (token: string) => void
+  ): Promise<AIRewriteResult>;
   generateSummary(content: string, maxLength: number): Promise<string>;
   extractKeyPoints(content: string, count: number): Promise<string[]>;
   detectBias(content: string): Promise<BiasAnalysis>;
   enrichWithContext(content: string, topic: string): Promise<string>;
+  /** Find the people, organizations and places in an article and their role in it */
+  extractEntities(content: string): Promise<AIExtractedEntity[]>;
+  /** Find the factual claims in an article that are worth fact-checking */
+  extractClaims(content: string): Promise<AIExtractedClaim[]>;
+  /** Find the direct quotes in an article and who said them */
+  extractQuotes(content: string): Promise<AIExtractedQuote[]>;
+  /**
+   * Write a headline and one-line teaser for an article in the given style.
+   * `issues` lists what was wrong with an earlier attempt, to be avoided.
+   */
+  generateHeadline(
+    content: string,
+    title: string,
+    style: StyleProfile,
+    issues?: string[]
+  ): Promise<AIHeadline>;
+  /**
+   * List the dated events of a story reported in its coverage, oldest first,
+   * each linked to the article it was taken from
+   */
+  generateTimeline(sources: AITimelineSource[]): Promise<AITimelineEntry[]>;
+  /** Combine several reports of the same story into one article */
+  synthesizeArticles(sources: AISynthesisSource[], style: StyleProfile): Promise<AISynthesisResult>;
+  /** Describe the writing style of sample texts as style profile settings */
+  learnStyle(samples: string[]): Promise<AIStyleLearningResult>;
   estimateCost(operation: AIOperation, inputTokens: number, outputTokens?: number): number;
+  /** Register a listener called after every underlying model call */
+  onUsage(listener: AIUsageListener): void;
+  /** Use prompt templates from a registry instead of the built-in ones */
+  setPromptRegistry(registry: PromptRegistry): void;
 }
 
 export enum AIOperation {
@@ -17,6 +54,13 @@ export enum AIOperation {
   KEY_POINTS = 'key_points',
   BIAS_DETECTION = 'bias_detection',
   CONTEXT_ENRICHMENT = 'context_enrichment',
+  SYNTHESIS = 'synthesis',
+  STYLE_LEARNING = 'style_learning',
+  ENTITY_EXTRACTION = 'entity_extraction',
+  CLAIM_EXTRACTION = 'claim_extraction',
+  QUOTE_EXTRACTION = 'quote_extraction',
+  HEADLINE = 'headline',
+  TIMELINE = 'timeline',
 }
 
 export const AIRewriteResultSchema = z.object({
@@ -35,6 +79,10 @@ export const AIRewriteResultSchema = z.object({
     total: z.number(),
   }),
   cost: z.number(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  /** Version of each prompt template used, keyed by template key */
+  promptVersions: z.record(z.number()).optional(),
 });
 
 export type AIRewriteResult = z.infer<typeof AIRewriteResultSchema>;
@@ -52,13 +100,271 @@ export const BiasAnalysisSchema = z.object({
 
 export type BiasAnalysis = z.infer<typeof BiasAnalysisSchema>;
 
+/**
+ * One call to a model, reported to usage listeners
+ */
+export interface AIUsageRecord {
+  operation: AIOperation;
+  provider: string;
+  model?: string;
+  tokensUsed: {
+    input: number;
+    output: number;
+    total: number;
+  };
+  cost: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+export type AIUsageListener = (record: AIUsageRecord) => void;
+
+export interface AIBudgetStatus {
+  spent: number;
+  /** Budget in USD, or null when unlimited */
+  limit: number | null;
+}
+
+export interface AIUsageSummary {
+  budgets: {
+    daily: AIBudgetStatus;
+    monthly: AIBudgetStatus;
+  };
+  totals: {
+    calls: number;
+    tokens: number;
+    cost: number;
+  };
+  byOperation: Array<{
+    operation: AIOperation;
+    calls: number;
+    tokens: number;
+    cost: number;
+  }>;
+  byDay: Array<{
+    date: string;
+    calls: number;
+    cost: number;
+  }>;
+}
+
+/** Marker the model places after each cited claim, e.g. "[^1]" */
+export const CITATION_MARKER_PATTERN = /\[\^(\d+)\]/g;
+
+/**
+ * Structured output requested from the model for each operation
+ */
+export const AIRewriteOutputSchema = z.object({
+  /** Rewritten text with a citation marker after each cited claim */
+  content: z.string(),
+  citations: z.array(z.object({
+    /** Number of the marker in content */
+    marker: z.number().int().positive(),
+    /** Sentence of the original article supporting the claim, quoted exactly */
+    text: z.string().min(1),
+    url: z.string().url().optional(),
+  })).default([]),
+}).superRefine((output, ctx) => {
+  const markers = new Set(output.citations.map(citation => citation.marker));
+
+  for (const match of output.content.matchAll(CITATION_MARKER_PATTERN)) {
+    if (!markers.has(Number(match[1]))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Citation marker ${match[0]} has no entry in citations`,
+        path: ['citations'],
+      });
+    }
+  }
+});
+
+export type AIRewriteOutput = z.infer<typeof AIRewriteOutputSchema>;
+
+export const AISummaryOutputSchema = z.object({
+  summary: z.string().min(1),
+});
+
+export const AIKeyPointsOutputSchema = z.object({
+  keyPoints: z.array(z.string().min(1)).min(1),
+});
+
+export const AIEnrichmentOutputSchema = z.object({
+  content: z.string().min(1),
+});
+
+export const AIEntitiesOutputSchema = z.object({
+  entities: z.array(z.object({
+    name: z.string().min(1),
+    type: z.nativeEnum(EntityType),
+    /** What the entity is or does in this story, e.g. "mayor, announced the plan" */
+    role: z.string().min(1),
+  })),
+});
+
+export type AIExtractedEntity = z.infer<typeof AIEntitiesOutputSchema>['entities'][number];
+
+export const AIClaimsOutputSchema = z.object({
+  claims: z.array(z.object({
+    /** Sentence of the article making the claim, quoted exactly */
+    text: z.string().min(1),
+    /** Who the article attributes the claim to, if anyone */
+    claimant: z.string().min(1).optional(),
+    checkWorthiness: z.enum(['low', 'medium', 'high']),
+    /** Why the claim is worth checking */
+    reason: z.string().min(1),
+  })),
+});
+
+export type AIExtractedClaim = z.infer<typeof AIClaimsOutputSchema>['claims'][number];
+
+export const AIQuotesOutputSchema = z.object({
+  quotes: z.array(z.object({
+    /** The quoted words, exactly as in the article, without quotation marks */
+    text: z.string().min(1),
+    speaker: z.string().min(1),
+    /** The speaker's title or affiliation as given in the article */
+    speakerRole: z.string().min(1).optional(),
+  })),
+});
+
+export type AIExtractedQuote = z.infer<typeof AIQuotesOutputSchema>['quotes'][number];
+
+export const AIHeadlineOutputSchema = z.object({
+  headline: z.string().min(1).max(200),
+  /** One sentence telling the reader what the article covers */
+  teaser: z.string().min(1).max(300),
+});
+
+export type AIHeadline = z.infer<typeof AIHeadlineOutputSchema>;
+
+export const AITimelineOutputSchema = z.object({
+  entries: z.array(z.object({
+    /** YYYY, YYYY-MM or YYYY-MM-DD, as precise as the source allows */
+    date: z.string().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/),
+    event: z.string().min(1),
+    /** Label of the source the event was taken from, e.g. S1 */
+    source: z.string(),
+  })),
+});
+
+export type AITimelineOutput = z.infer<typeof AITimelineOutputSchema>;
+
+/** One of the articles a timeline is built from */
+export interface AITimelineSource {
+  id: string;
+  sourceName: string;
+  title: string;
+  content: string;
+  publishedAt: Date;
+}
+
+export interface AITimelineEntry {
+  date: string;
+  event: string;
+  sourceArticleId: string;
+}
+
+export const AISynthesisOutputSchema = z.object({
+  content: z.string().min(1),
+  /** Claims quoted from content, each with the labels of the sources reporting it */
+  claims: z.array(z.object({
+    text: z.string().min(1),
+    sources: z.array(z.string()).min(1),
+  })),
+  disagreements: z.array(z.object({
+    topic: z.string().min(1),
+    positions: z.array(z.object({
+      source: z.string(),
+      claim: z.string().min(1),
+    })).min(2),
+  })).default([]),
+});
+
+export type AISynthesisOutput = z.infer<typeof AISynthesisOutputSchema>;
+
+/** One of the articles combined by a synthesis */
+export interface AISynthesisSource {
+  id: string;
+  sourceName: string;
+  title: string;
+  content: string;
+}
+
+export const SourceDisagreementSchema = z.object({
+  topic: z.string(),
+  positions: z.array(z.object({
+    sourceArticleId: z.string(),
+    claim: z.string(),
+  })),
+});
+
+export type SourceDisagreement = z.infer<typeof SourceDisagreementSchema>;
+
+export const AISynthesisResultSchema = z.object({
+  content: z.string(),
+  citations: z.array(z.object({
+    text: z.string(),
+    sourceArticleId: z.string(),
+    position: z.number(),
+  })),
+  disagreements: z.array(SourceDisagreementSchema),
+  processingTimeMs: z.number(),
+  tokensUsed: z.object({
+    input: z.number(),
+    output: z.number(),
+    total: z.number(),
+  }),
+  cost: z.number(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  promptVersions: z.record(z.number()).optional(),
+});
+
+export type AISynthesisResult = z.infer<typeof AISynthesisResultSchema>;
+
+export const AIStyleLearningOutputSchema = z.object({
+  name: z.string().min(1).max(255),
+  /** Plain description of the style, for the profile's description */
+  description: z.string().min(1),
+  tone: z.enum(['formal', 'casual', 'neutral']),
+  length: z.enum(['concise', 'medium', 'detailed']),
+  technicalLevel: z.number().int().min(1).max(10),
+  /** Instructions that make a rewrite read like the samples */
+  customPrompt: z.string().min(1),
+});
+
+export type AIStyleLearningOutput = z.infer<typeof AIStyleLearningOutputSchema>;
+
+export const AIStyleLearningResultSchema = AIStyleLearningOutputSchema.extend({
+  processingTimeMs: z.number(),
+  tokensUsed: z.object({
+    input: z.number(),
+    output: z.number(),
+    total: z.number(),
+  }),
+  cost: z.number(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  promptVersions: z.record(z.number()).optional(),
+});
+
+export type AIStyleLearningResult = z.infer<typeof AIStyleLearningResultSchema>;
+
 export const AIProviderConfigSchema = z.object({
-  provider: z.enum(['openrouter', 'openai', 'anthropic']),
+  provider: z.enum(['openrouter', 'openai', 'anthropic', 'mock', 'local']),
   apiKey: z.string(),
   model: z.string(),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().default(4000),
   timeoutMs: z.number().default(30000),
+  baseUrl: z.string().url().optional(),
+  mock: z.object({
+    fixturesDir: z.string().optional(),
+    latencyMs: z.number().min(0).default(0),
+    failureRate: z.number().min(0).max(1).default(0),
+    failureStatus: z.number().default(503),
+    seed: z.number().default(42),
+  }).optional(),
 });
 
 export type AIProviderConfig = z.infer<typeof AIProviderConfigSchema>;
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+export enum EntityType {
+  PERSON = 'person',
+  ORGANIZATION = 'organization',
+  PLACE = 'place',
+}
+
+export const ArticleEntitySchema = z.object({
+  id: z.string().uuid(),
+  articleId: z.string().uuid(),
+  name: z.string(),
+  type: z.nativeEnum(EntityType),
+  /** What the entity is or does in the story */
+  role: z.string(),
+  createdAt: z.date(),
+});
+
+export type ArticleEntity = z.infer<typeof ArticleEntitySchema>;
+
+export const ArticleClaimSchema = z.object({
+  id: z.string().uuid(),
+  articleId: z.string().uuid(),
+  text: z.string(),
+  claimant: z.string().optional(),
+  checkWorthiness: z.enum(['low', 'medium', 'high']),
+  reason: z.string(),
+  /** Character range of the claim in the article's original content, when found */
+  originalStart: z.number().optional(),
+  originalEnd: z.number().optional(),
+  createdAt: z.date(),
+});
+
+export type ArticleClaim = z.infer<typeof ArticleClaimSchema>;
+
+export const ArticleQuoteSchema = z.object({
+  id: z.string().uuid(),
+  articleId: z.string().uuid(),
+  text: z.string(),
+  speaker: z.string(),
+  speakerRole: z.string().optional(),
+  /** Character range of the quote in the article's original content */
+  originalStart: z.number(),
+  originalEnd: z.number(),
+  createdAt: z.date(),
+});
+
+export type ArticleQuote = z.infer<typeof ArticleQuoteSchema>;
+
+export const ArticleTimelineEntrySchema = z.object({
+  id: z.string().uuid(),
+  articleId: z.string().uuid(),
+  /** YYYY, YYYY-MM or YYYY-MM-DD, as precise as the source article allows */
+  date: z.string(),
+  event: z.string(),
+  /** Article the event was reported in, which may be the timeline's own article */
+  sourceArticleId: z.string().uuid(),
+  sourceArticleTitle: z.string(),
+  sourceName: z.string(),
+  sourcePublishedAt: z.date(),
+  createdAt: z.date(),
+});
+
+export type ArticleTimelineEntry = z.infer<typeof ArticleTimelineEntrySchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Language } from './language';
 
 export enum ArticleCategory {
   POLITICS = 'politics',
@@ -25,6 +26,17 @@ export const SourceSchema = z.object({
 
 export type Source = z.infer<typeof SourceSchema>;
 
+export const ReadabilitySchema = z.object({
+  /** Flesch-Kincaid grade: years of US schooling needed to follow the text */
+  grade: z.number(),
+  /** Words per sentence */
+  averageSentenceLength: z.number(),
+  /** Share of words of three or more syllables, which are mostly the less familiar ones */
+  rareWordRatio: z.number().min(0).max(1),
+});
+
+export type Readability = z.infer<typeof ReadabilitySchema>;
+
 export const ArticleSchema = z.object({
   id: z.string().uuid(),
   sourceId: z.string().uuid(),
@@ -36,6 +48,10 @@ export const ArticleSchema = z.object({
   category: z.nativeEnum(ArticleCategory),
   imageUrl: z.string().url().optional(),
   importanceScore: z.number().min(0).max(100).optional(),
+  /** Detected at ingestion; unset when the language couldn't be told */
+  language: z.nativeEnum(Language).optional(),
+  /** Only measured for English text, which the metrics are calibrated for */
+  readability: ReadabilitySchema.optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -44,16 +60,35 @@ export type Article = z.infer<typeof ArticleSchema>;
 
 export const CitationSchema = z.object({
   id: z.string().uuid(),
-  rewrittenArticleId: z.string().uuid(),
+  /** Exactly one of rewrittenArticleId and synthesisId is set */
+  rewrittenArticleId: z.string().uuid().optional(),
+  synthesisId: z.string().uuid().optional(),
   sourceArticleId: z.string().uuid().optional(),
+  /** Supporting sentence from the source article */
   text: z.string(),
   url: z.string().url().optional(),
+  /** Character offset in the rewritten content where the citation marker goes */
   position: z.number(),
+  /** Index of the paragraph (non-empty line) of the rewritten content holding the marker */
+  paragraphIndex: z.number().int().optional(),
+  /** Character range of the supporting sentence in the source article's original content */
+  originalStart: z.number().int().optional(),
+  originalEnd: z.number().int().optional(),
   createdAt: z.date(),
 });
 
 export type Citation = z.infer<typeof CitationSchema>;
 
+export const FidelityDiscrepancySchema = z.object({
+  type: z.enum(['entity', 'number', 'date', 'quote']),
+  /** added: only in the rewrite, dropped: only in the original, altered: changed wording */
+  kind: z.enum(['added', 'dropped', 'altered']),
+  original: z.string().optional(),
+  rewritten: z.string().optional(),
+});
+
+export type FidelityDiscrepancy = z.infer<typeof FidelityDiscrepancySchema>;
+
 export const RewrittenArticleSchema = z.object({
   id: z.string().uuid(),
   articleId: z.string().uuid(),
@@ -64,6 +99,20 @@ export const RewrittenArticleSchema = z.object({
   keyPoints: z.array(z.string()).optional(),
   processingTimeMs: z.number().optional(),
   aiCost: z.number().optional(),
+  aiProvider: z.string().optional(),
+  aiModel: z.string().optional(),
+  promptVersions: z.record(z.number()).optional(),
+  /** 0-1 score of how well facts from the original were preserved */
+  fidelityScore: z.number().min(0).max(1).optional(),
+  fidelityDiscrepancies: z.array(FidelityDiscrepancySchema).optional(),
+  /** Headline and teaser in the rewrite's style, unset if none was supported by the article */
+  headline: z.string().optional(),
+  teaser: z.string().optional(),
+  readability: ReadabilitySchema.optional(),
+  /** Set when this is a copy of another user's rewrite with the same effective style */
+  sharedFromId: z.string().uuid().optional(),
+  /** Number of the version currently shown; every regeneration adds one */
+  version: z.number().int().positive().optional(),
   createdAt: z.date(),
 });
 
@@ -71,6 +120,11 @@ export type RewrittenArticle = z.infer<typeof RewrittenArticleSchema>;
 
 export const ArticleWithSourceSchema = ArticleSchema.extend({
   source: SourceSchema,
+  /** Headline and teaser from the reader's rewrite in their default style, in feeds */
+  styledHeadline: z.object({
+    headline: z.string(),
+    teaser: z.string(),
+  }).optional(),
 });
 
 export type ArticleWithSource = z.infer<typeof ArticleWithSourceSchema>;
@@ -81,3 +135,62 @@ export const RewrittenArticleWithDetailsSchema = RewrittenArticleSchema.extend({
 });
 
 export type RewrittenArticleWithDetails = z.infer<typeof RewrittenArticleWithDetailsSchema>;
+
+export const RewriteVersionSchema = z.object({
+  id: z.string().uuid(),
+  rewrittenArticleId: z.string().uuid(),
+  versionNumber: z.number().int().positive(),
+  rewrittenContent: z.string(),
+  summary: z.string().optional(),
+  keyPoints: z.array(z.string()).optional(),
+  headline: z.string().optional(),
+  teaser: z.string().optional(),
+  readability: ReadabilitySchema.optional(),
+  processingTimeMs: z.number().optional(),
+  aiCost: z.number().optional(),
+  aiProvider: z.string().optional(),
+  aiModel: z.string().optional(),
+  promptVersions: z.record(z.number()).optional(),
+  fidelityScore: z.number().min(0).max(1).optional(),
+  /** Whether this is the version the rewrite currently shows */
+  isCurrent: z.boolean(),
+  createdAt: z.date(),
+});
+
+export type RewriteVersion = z.infer<typeof RewriteVersionSchema>;
+
+export const TextDiffSegmentSchema = z.object({
+  type: z.enum(['equal', 'added', 'removed']),
+  text: z.string(),
+});
+
+export type TextDiffSegment = z.infer<typeof TextDiffSegmentSchema>;
+
+export const RewriteDiffSchema = z.object({
+  /** 'original' for the source article, otherwise a version number */
+  from: z.union([z.literal('original'), z.number().int().positive()]),
+  to: z.number().int().positive(),
+  /** Word-level changes turning `from` into `to` */
+  segments: z.array(TextDiffSegmentSchema),
+});
+
+export type RewriteDiff = z.infer<typeof RewriteDiffSchema>;
+
+export const RewriteJobStateSchema = z.enum(['waiting', 'active', 'completed', 'failed', 'delayed']);
+
+export type RewriteJobState = z.infer<typeof RewriteJobStateSchema>;
+
+export const RewriteJobSchema = z.object({
+  id: z.string(),
+  articleId: z.string().uuid(),
+  styleProfileId: z.string().uuid(),
+  state: RewriteJobStateSchema,
+  /** 0-100 */
+  progress: z.number().min(0).max(100),
+  result: RewrittenArticleWithDetailsSchema.optional(),
+  error: z.string().optional(),
+  createdAt: z.date(),
+  finishedAt: z.date().optional(),
+});
+
+export type RewriteJob = z.infer<typeof RewriteJobSchema>;
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+export enum RewriteFeedbackReason {
+  TOO_LONG = 'too_long',
+  TOO_SHORT = 'too_short',
+  TOO_TECHNICAL = 'too_technical',
+  TOO_SIMPLE = 'too_simple',
+  MISSED_KEY_FACT = 'missed_key_fact',
+  INACCURATE = 'inaccurate',
+  WRONG_TONE = 'wrong_tone',
+}
+
+export const RewriteFeedbackSchema = z.object({
+  id: z.string().uuid(),
+  rewrittenArticleId: z.string().uuid(),
+  userId: z.string().uuid(),
+  styleProfileId: z.string().uuid(),
+  thumbsUp: z.boolean(),
+  /** Optional 1-5 star rating */
+  rating: z.number().int().min(1).max(5).optional(),
+  reasons: z.array(z.nativeEnum(RewriteFeedbackReason)),
+  comment: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type RewriteFeedback = z.infer<typeof RewriteFeedbackSchema>;
+
+export const CreateRewriteFeedbackSchema = z.object({
+  thumbsUp: z.boolean(),
+  rating: z.number().int().min(1).max(5).optional(),
+  reasons: z.array(z.nativeEnum(RewriteFeedbackReason)).max(7).default([]),
+  comment: z.string().max(1000).optional(),
+});
+
+export type CreateRewriteFeedback = z.infer<typeof CreateRewriteFeedbackSchema>;
+
+export const StyleFeedbackSummarySchema = z.object({
+  styleProfileId: z.string().uuid(),
+  totalFeedback: z.number(),
+  thumbsUp: z.number(),
+  thumbsDown: z.number(),
+  averageRating: z.number().optional(),
+  /** Number of feedback entries giving each reason */
+  reasonCounts: z.record(z.nativeEnum(RewriteFeedbackReason), z.number()),
+});
+
+export type StyleFeedbackSummary = z.infer<typeof StyleFeedbackSummarySchema>;
+
+export const StyleProfileAdjustmentSchema = z.object({
+  id: z.string().uuid(),
+  styleProfileId: z.string().uuid(),
+  field: z.enum(['length', 'technicalLevel', 'feedbackGuidance']),
+  previousValue: z.string().optional(),
+  newValue: z.string().optional(),
+  /** Why the adjustment was made */
+  reason: z.string(),
+  /** Feedback entries the decision was based on */
+  feedbackCount: z.number(),
+  createdAt: z.date(),
+});
+
+export type StyleProfileAdjustment = z.infer<typeof StyleProfileAdjustmentSchema>;
@@ -0,0 +1,24 @@
+/**
+ * Languages articles are detected in and rewrites can be written in, by
+ * ISO 639-1 code
+ */
+export enum Language {
+  ENGLISH = 'en',
+  SPANISH = 'es',
+  FRENCH = 'fr',
+  GERMAN = 'de',
+  ITALIAN = 'it',
+  PORTUGUESE = 'pt',
+  DUTCH = 'nl',
+}
+
+/** English names of the languages, as used in prompts */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  [Language.ENGLISH]: 'English',
+  [Language.SPANISH]: 'Spanish',
+  [Language.FRENCH]: 'French',
+  [Language.GERMAN]: 'German',
+  [Language.ITALIAN]: 'Italian',
+  [Language.PORTUGUESE]: 'Portuguese',
+  [Language.DUTCH]: 'Dutch',
+};
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { StyleProfileSchema } from './style';
+
+/** A public style profile as listed in the gallery */
+export const PublicStyleProfileSchema = StyleProfileSchema.extend({
+  authorName: z.string(),
+  /** Set for forks: who wrote the profile the fork chain started from */
+  originalAuthorName: z.string().optional(),
+  ratingAverage: z.number().optional(),
+  ratingCount: z.number(),
+  forkCount: z.number(),
+  /** Rewrites made with the profile in the last 7 days */
+  weeklyUsage: z.number(),
+});
+
+export type PublicStyleProfile = z.infer<typeof PublicStyleProfileSchema>;
+
+export enum StyleGallerySort {
+  TRENDING = 'trending',
+  TOP_RATED = 'top_rated',
+  MOST_USED = 'most_used',
+  NEWEST = 'newest',
+}
+
+export const StyleGalleryQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  /** Comma-separated; profiles must have all of them */
+  tags: z
+    .string()
+    .optional()
+    .transform(value =>
+      value ? value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean) : []
+    ),
+  sort: z.nativeEnum(StyleGallerySort).default(StyleGallerySort.TRENDING),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export type StyleGalleryQuery = z.infer<typeof StyleGalleryQuerySchema>;
+
+export const ForkStyleProfileSchema = z.object({
+  /** Name for the copy, defaults to the original's name */
+  name: z.string().min(1).max(255).optional(),
+});
+
+export type ForkStyleProfile = z.infer<typeof ForkStyleProfileSchema>;
+
+export const RateStyleProfileSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+});
+
+export type RateStyleProfile = z.infer<typeof RateStyleProfileSchema>;
+
+export enum StyleProfileReportReason {
+  ABUSIVE = 'abusive',
+  HARMFUL_INSTRUCTIONS = 'harmful_instructions',
+  SPAM = 'spam',
+  OTHER = 'other',
+}
+
+export const CreateStyleProfileReportSchema = z.object({
+  reason: z.nativeEnum(StyleProfileReportReason),
+  details: z.string().max(1000).optional(),
+});
+
+export type CreateStyleProfileReport = z.infer<typeof CreateStyleProfileReportSchema>;
+
+export const StyleProfileReportSchema = z.object({
+  id: z.string().uuid(),
+  styleProfileId: z.string().uuid(),
+  reporterId: z.string().uuid(),
+  reason: z.nativeEnum(StyleProfileReportReason),
+  details: z.string().optional(),
+  status: z.enum(['open', 'dismissed', 'actioned']),
+  resolvedBy: z.string().uuid().optional(),
+  resolvedAt: z.date().optional(),
+  createdAt: z.date(),
+});
+
+export type StyleProfileReport = z.infer<typeof StyleProfileReportSchema>;
+
+export const ModerateStyleProfileSchema = z.object({
+  /** dismiss: the reports were unfounded; remove: take the profile out of the gallery */
+  action: z.enum(['dismiss', 'remove']),
+});
+
+export type ModerateStyleProfile = z.infer<typeof ModerateStyleProfileSchema>;
+
+export const StyleModerationQueueItemSchema = z.object({
+  profile: StyleProfileSchema,
+  reports: z.array(StyleProfileReportSchema),
+});
+
+export type StyleModerationQueueItem = z.infer<typeof StyleModerationQueueItemSchema>;
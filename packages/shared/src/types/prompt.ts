@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+export enum PromptTemplateKey {
+  REWRITE_SYSTEM = 'rewrite.system',
+  REWRITE_SYSTEM_CUSTOM = 'rewrite.system_custom',
+  REWRITE_USER = 'rewrite.user',
+  REWRITE_CHUNK = 'rewrite.chunk',
+  REWRITE_STITCH = 'rewrite.stitch',
+  SUMMARY = 'summary',
+  KEY_POINTS = 'key_points',
+  BIAS_DETECTION = 'bias_detection',
+  CONTEXT_ENRICHMENT = 'context_enrichment',
+  SYNTHESIS = 'synthesis',
+  STYLE_LEARNING = 'style_learning',
+  ENTITY_EXTRACTION = 'entity_extraction',
+  CLAIM_EXTRACTION = 'claim_extraction',
+  QUOTE_EXTRACTION = 'quote_extraction',
+  HEADLINE = 'headline',
+  TIMELINE = 'timeline',
+}
+
+export const PromptTemplateSchema = z.object({
+  id: z.string().uuid(),
+  key: z.nativeEnum(PromptTemplateKey),
+  version: z.number().int().positive(),
+  /** Template text with `{{variable}}` placeholders */
+  template: z.string().min(1),
+  description: z.string().optional(),
+  isActive: z.boolean(),
+  createdBy: z.string().uuid().optional(),
+  createdAt: z.date(),
+});
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
+export const CreatePromptTemplateVersionSchema = z.object({
+  template: z.string().min(1),
+  description: z.string().max(500).optional(),
+  activate: z.boolean().default(true),
+});
+
+export type CreatePromptTemplateVersion = z.infer<typeof CreatePromptTemplateVersionSchema>;
+
+/**
+ * Source of the active prompt templates, consulted synchronously whenever a
+ * prompt is built. Returning null falls back to the built-in template.
+ */
+export interface PromptRegistry {
+  getActiveTemplate(key: PromptTemplateKey): { version: number; template: string } | null;
+}
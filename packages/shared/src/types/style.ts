@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Language } from './language';
 
 export enum PredefinedStyle {
   CONVERSATIONAL = 'conversational',
@@ -22,8 +23,22 @@ export const StyleProfileSchema = z.object({
   technicalLevel: z.number().min(1).max(10).default(5),
   includeContext: z.boolean().default(true),
   includeKeyPoints: z.boolean().default(true),
+  /** Language rewrites are written in, translating the article if needed; unset keeps its language */
+  targetLanguage: z.nativeEnum(Language).optional(),
   isDefault: z.boolean().default(false),
   isPublic: z.boolean().default(false),
+  /** Let reader feedback adjust length, technical level and guidance */
+  autoTune: z.boolean().default(true),
+  /** Guidance learned from reader feedback, added to rewrite prompts */
+  feedbackGuidance: z.string().optional(),
+  /** Lower-case labels used to find public profiles in the gallery */
+  tags: z.array(z.string()).default([]),
+  /** Profile this one was forked from */
+  forkedFromId: z.string().uuid().optional(),
+  /** Author of the profile at the start of the fork chain */
+  originalAuthorId: z.string().uuid().optional(),
+  /** Profiles under review or removed by a moderator are left out of the gallery */
+  moderationStatus: z.enum(['visible', 'under_review', 'removed']).default('visible'),
   usageCount: z.number().default(0),
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -31,16 +46,77 @@ export const StyleProfileSchema = z.object({
 
 export type StyleProfile = z.infer<typeof StyleProfileSchema>;
 
+export const StyleTagsSchema = z
+  .array(z.string().trim().toLowerCase().min(1).max(30).regex(/^[a-z0-9][a-z0-9 -]*$/))
+  .max(10);
+
 export const CreateStyleProfileSchema = StyleProfileSchema.omit({
   id: true,
   userId: true,
+  feedbackGuidance: true,
+  forkedFromId: true,
+  originalAuthorId: true,
+  moderationStatus: true,
   usageCount: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  tags: StyleTagsSchema.default([]),
 });
 
 export type CreateStyleProfile = z.infer<typeof CreateStyleProfileSchema>;
 
-export const UpdateStyleProfileSchema = CreateStyleProfileSchema.partial();
+export const UpdateStyleProfileSchema = CreateStyleProfileSchema.partial().extend({
+  /** Edit or clear (with an empty string) the guidance learned from feedback */
+  feedbackGuidance: z.string().max(1000).optional(),
+  /** Change the target language, or go back to the article's own (with null) */
+  targetLanguage: z.nativeEnum(Language).nullable().optional(),
+});
 
 export type UpdateStyleProfile = z.infer<typeof UpdateStyleProfileSchema>;
+
+export const LearnStyleProfileSchema = z.object({
+  /** Paragraphs written in the style to learn, e.g. from a newsletter */
+  samples: z.array(z.string().trim().min(50).max(5000)).min(1).max(5),
+  /** Name for the draft, instead of the one suggested by the AI */
+  name: z.string().min(1).max(255).optional(),
+  /** Article to rewrite with the draft, so it can be previewed before saving */
+  previewArticleId: z.string().uuid().optional(),
+});
+
+export type LearnStyleProfile = z.infer<typeof LearnStyleProfileSchema>;
+
+export const StyleProfilePreviewSchema = z.object({
+  /** Absent when the built-in sample article was used */
+  articleId: z.string().uuid().optional(),
+  title: z.string(),
+  /** The part of the article that was rewritten */
+  originalExcerpt: z.string(),
+  rewrittenContent: z.string(),
+  /** Whether the preview was served from cache rather than generated */
+  cached: z.boolean().optional(),
+});
+
+export type StyleProfilePreview = z.infer<typeof StyleProfilePreviewSchema>;
+
+export const LearnedStyleProfileSchema = z.object({
+  /** Unsaved profile, saved by sending it to POST /style-profiles */
+  draft: CreateStyleProfileSchema,
+  preview: StyleProfilePreviewSchema.optional(),
+});
+
+export type LearnedStyleProfile = z.infer<typeof LearnedStyleProfileSchema>;
+
+/** Unsaved settings to preview against the built-in sample article */
+export const StylePreviewRequestSchema = CreateStyleProfileSchema.pick({
+  predefinedStyle: true,
+  customPrompt: true,
+  tone: true,
+  length: true,
+  technicalLevel: true,
+  includeContext: true,
+  includeKeyPoints: true,
+  targetLanguage: true,
+});
+
+export type StylePreviewRequest = z.infer<typeof StylePreviewRequestSchema>;
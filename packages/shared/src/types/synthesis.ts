@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { ArticleWithSourceSchema, CitationSchema } from './article';
+import { SourceDisagreementSchema } from './ai';
+
+/** Most articles a single synthesis can combine */
+export const MAX_SYNTHESIS_ARTICLES = 8;
+
+export const StorySynthesisSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  styleProfileId: z.string().uuid(),
+  articleIds: z.array(z.string().uuid()),
+  synthesizedContent: z.string(),
+  /** Points the source articles report differently */
+  disagreements: z.array(SourceDisagreementSchema),
+  processingTimeMs: z.number().optional(),
+  aiCost: z.number().optional(),
+  aiProvider: z.string().optional(),
+  aiModel: z.string().optional(),
+  promptVersions: z.record(z.number()).optional(),
+  createdAt: z.date(),
+});
+
+export type StorySynthesis = z.infer<typeof StorySynthesisSchema>;
+
+export const StorySynthesisWithDetailsSchema = StorySynthesisSchema.extend({
+  articles: z.array(ArticleWithSourceSchema),
+  /** One citation per source article backing each claim */
+  citations: z.array(CitationSchema),
+});
+
+export type StorySynthesisWithDetails = z.infer<typeof StorySynthesisWithDetailsSchema>;
+
+export const CreateStorySynthesisSchema = z.object({
+  articleIds: z
+    .array(z.string().uuid())
+    .min(2)
+    .max(MAX_SYNTHESIS_ARTICLES)
+    .refine(ids => new Set(ids).size === ids.length, 'Article ids must be unique'),
+  styleProfileId: z.string().uuid(),
+});
+
+export type CreateStorySynthesis = z.infer<typeof CreateStorySynthesisSchema>;
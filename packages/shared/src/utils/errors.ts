@@ -53,6 +53,25 @@ export class AIProviderError extends AppError {
   }
 }
 
+/**
+ * The AI provider responded, but its output did not match the expected schema
+ * even after a repair attempt. Details include the raw response.
+ */
+export class AIResponseValidationError extends AppError {
+  constructor(
+    message: string,
+    details: { operation: string; rawResponse: string; issues: unknown }
+  ) {
+    super(message, 502, 'AI_INVALID_RESPONSE', details);
+  }
+}
+
+export class AIBudgetExceededError extends AppError {
+  constructor(message: string = 'AI spending budget exceeded', details?: unknown) {
+    super(message, 429, 'AI_BUDGET_EXCEEDED', details);
+  }
+}
+
 export class DatabaseError extends AppError {
   constructor(message: string, details?: unknown) {
     super(message, 500, 'DATABASE_ERROR', details);
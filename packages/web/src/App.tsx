@@ -9,6 +9,7 @@ import { NewsFeed } from './pages/NewsFeed';
 import { ArticleReader } from './pages/ArticleReader';
 import { Settings } from './pages/Settings';
 import { ReadingHistory } from './pages/ReadingHistory';
+import { StyleGallery } from './pages/StyleGallery';
 import { NotificationHub } from './pages/NotificationHub';
 import { NotificationSettings } from './pages/NotificationSettings';
 
@@ -64,6 +65,17 @@ const App: React.FC = () => {
             }
           />
 
+          <Route
+            path="/styles"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <StyleGallery />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+
           <Route
             path="/notifications"
             element={
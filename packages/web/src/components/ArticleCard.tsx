@@ -8,7 +8,9 @@ interface ArticleCardProps {
 }
 
 export const ArticleCard: React.FC<ArticleCardProps> = ({ article }) => {
-  const excerpt = truncateText(article.originalContent, 200);
+  // Prefer the headline written in the reader's style over the source's
+  const styled = article.styledHeadline;
+  const excerpt = styled?.teaser ?? truncateText(article.originalContent, 200);
   const readingTime = calculateReadingTime(article.originalContent);
 
   return (
@@ -50,8 +52,11 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({ article }) => {
               </span>
             </div>
 
-            <h3 className="text-xl font-bold text-gray-900 mb-2 line-clamp-2">
-              {article.title}
+            <h3
+              className="text-xl font-bold text-gray-900 mb-2 line-clamp-2"
+              title={styled ? `Original headline: ${article.title}` : undefined}
+            >
+              {styled?.headline ?? article.title}
             </h3>
 
             <p className="text-gray-600 text-sm line-clamp-3 mb-3">{excerpt}</p>
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Citation } from '../types';
+
+// Markers the model writes while a rewrite is still streaming in
+const CITATION_MARKER_PATTERN = /\[\^\d+\]/g;
+
+interface CitedContentProps {
+  content: string;
+  /** Citations anchored in content, in marker order */
+  citations?: Citation[];
+  activeCitationId?: string | null;
+  onCitationSelect?: (citation: Citation) => void;
+}
+
+export const CitedContent: React.FC<CitedContentProps> = ({
+  content,
+  citations = [],
+  activeCitationId,
+  onCitationSelect,
+}) => {
+  const text = content.replace(CITATION_MARKER_PATTERN, '');
+  let lineStart = 0;
+
+  return (
+    <div className="prose prose-lg max-w-none">
+      {text.split('\n').map((line, index) => {
+        const start = lineStart;
+        const end = start + line.length;
+        lineStart = end + 1;
+
+        const lineCitations = citations
+          .map((citation, number) => ({ citation, number: number + 1 }))
+          .filter(({ citation }) => citation.position >= start && citation.position <= end);
+
+        const parts: React.ReactNode[] = [];
+        let cursor = 0;
+
+        for (const { citation, number } of lineCitations) {
+          const offset = citation.position - start;
+          parts.push(line.slice(cursor, offset));
+          parts.push(
+            <sup key={citation.id}>
+              <button
+                type="button"
+                onClick={() => onCitationSelect?.(citation)}
+                className={`px-0.5 font-semibold hover:underline ${
+                  citation.id === activeCitationId ? 'text-primary-800' : 'text-primary-600'
+                }`}
+                title={citation.text}
+              >
+                [{number}]
+              </button>
+            </sup>
+          );
+          cursor = offset;
+        }
+        parts.push(line.slice(cursor));
+
+        return (
+          <p key={index} className="mb-4 text-gray-800 leading-relaxed">
+            {parts}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
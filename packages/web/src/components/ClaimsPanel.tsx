@@ -0,0 +1,81 @@
+import React from 'react';
+import clsx from 'clsx';
+import { ArticleClaim, SeverityLevel } from '../types';
+
+interface ClaimsPanelProps {
+  claims: ArticleClaim[] | null;
+  loading?: boolean;
+}
+
+const getWorthinessColor = (worthiness: SeverityLevel): string => {
+  const colors: Record<SeverityLevel, string> = {
+    low: 'bg-green-100 text-green-800',
+    medium: 'bg-yellow-100 text-yellow-800',
+    high: 'bg-red-100 text-red-800',
+  };
+  return colors[worthiness];
+};
+
+export const ClaimsPanel: React.FC<ClaimsPanelProps> = ({ claims, loading = false }) => {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
+          <span>Finding claims to check...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!claims) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+        <svg
+          className="w-5 h-5 text-primary-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+          />
+        </svg>
+        Claims to Check
+      </h3>
+
+      {claims.length === 0 ? (
+        <p className="text-sm text-gray-500">No check-worthy claims found</p>
+      ) : (
+        <ul className="space-y-3">
+          {claims.map((claim) => (
+            <li key={claim.id} className="text-sm">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-gray-700 leading-relaxed">{claim.text}</p>
+                <span
+                  className={clsx(
+                    'flex-shrink-0 px-2 py-0.5 rounded text-xs font-medium',
+                    getWorthinessColor(claim.checkWorthiness)
+                  )}
+                >
+                  {claim.checkWorthiness}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {claim.claimant && `Claimed by ${claim.claimant} · `}
+                {claim.reason}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,27 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import clsx from 'clsx';
-import { EnrichedContext } from '../types';
+import { ArticleTimelineEntry, EnrichedContext } from '../types';
+import { formatDate, formatPartialDate } from '../utils/formatting';
+
+type ContextView = 'original' | 'enriched' | 'timeline';
 
 interface ContextEnrichmentProps {
   enrichedContext: EnrichedContext | null;
+  /** Events of the story from this and earlier articles, oldest first */
+  timeline?: ArticleTimelineEntry[] | null;
+  articleId?: string;
   loading?: boolean;
 }
 
 export const ContextEnrichment: React.FC<ContextEnrichmentProps> = ({
   enrichedContext,
+  timeline,
+  articleId,
   loading = false,
 }) => {
-  const [showEnriched, setShowEnriched] = useState(true);
+  const [selectedView, setSelectedView] = useState<ContextView>('enriched');
+  const [openEntryId, setOpenEntryId] = useState<string | null>(null);
 
   if (loading) {
     return (
@@ -24,10 +34,23 @@ export const ContextEnrichment: React.FC<ContextEnrichmentProps> = ({
     );
   }
 
-  if (!enrichedContext) {
+  const hasTimeline = !!timeline && timeline.length > 0;
+
+  if (!enrichedContext && !hasTimeline) {
     return null;
   }
 
+  const views: { value: ContextView; label: string }[] = [
+    ...(enrichedContext
+      ? [
+          { value: 'original' as const, label: 'Original' },
+          { value: 'enriched' as const, label: 'Enriched' },
+        ]
+      : []),
+    ...(hasTimeline ? [{ value: 'timeline' as const, label: 'Timeline' }] : []),
+  ];
+  const view = views.some((v) => v.value === selectedView) ? selectedView : views[0].value;
+
   return (
     <div className="bg-white rounded-lg shadow-sm p-4">
       <div className="flex items-center justify-between mb-3">
@@ -49,39 +72,31 @@ export const ContextEnrichment: React.FC<ContextEnrichmentProps> = ({
         </h3>
 
         <div className="flex items-center gap-2">
-          <button
-            onClick={() => setShowEnriched(false)}
-            className={clsx(
-              'px-3 py-1 text-xs font-medium rounded-lg transition-colors',
-              !showEnriched
-                ? 'bg-primary-600 text-white'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            )}
-          >
-            Original
-          </button>
-          <button
-            onClick={() => setShowEnriched(true)}
-            className={clsx(
-              'px-3 py-1 text-xs font-medium rounded-lg transition-colors',
-              showEnriched
-                ? 'bg-primary-600 text-white'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            )}
-          >
-            Enriched
-          </button>
+          {views.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setSelectedView(option.value)}
+              className={clsx(
+                'px-3 py-1 text-xs font-medium rounded-lg transition-colors',
+                view === option.value
+                  ? 'bg-primary-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
       </div>
 
       <div className="relative">
-        {!showEnriched && (
+        {view === 'original' && enrichedContext && (
           <div className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">
             {enrichedContext.originalContent}
           </div>
         )}
 
-        {showEnriched && (
+        {view === 'enriched' && enrichedContext && (
           <div className="space-y-3">
             <div className="bg-primary-50 border-l-4 border-primary-600 p-3 rounded-r">
               <p className="text-xs font-semibold text-primary-800 mb-1">Topic: {enrichedContext.topic}</p>
@@ -91,6 +106,50 @@ export const ContextEnrichment: React.FC<ContextEnrichmentProps> = ({
             </div>
           </div>
         )}
+
+        {view === 'timeline' && timeline && (
+          <ol className="relative ml-2 border-l border-gray-200 space-y-4">
+            {timeline.map((entry) => {
+              const isOpen = entry.id === openEntryId;
+              const fromThisArticle = entry.sourceArticleId === articleId;
+
+              return (
+                <li key={entry.id} className="ml-4">
+                  <span
+                    className={clsx(
+                      'absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white',
+                      fromThisArticle ? 'bg-primary-600' : 'bg-gray-300'
+                    )}
+                  />
+                  <button
+                    onClick={() => setOpenEntryId(isOpen ? null : entry.id)}
+                    className="w-full text-left"
+                  >
+                    <time className="block text-xs font-semibold text-primary-700">
+                      {formatPartialDate(entry.date)}
+                    </time>
+                    <p className="text-sm text-gray-700">{entry.event}</p>
+                  </button>
+                  {isOpen && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {entry.sourceName}, {formatDate(entry.sourcePublishedAt)}:{' '}
+                      {fromThisArticle ? (
+                        'this article'
+                      ) : (
+                        <Link
+                          to={`/article/${entry.sourceArticleId}`}
+                          className="text-primary-600 hover:underline"
+                        >
+                          {entry.sourceArticleTitle}
+                        </Link>
+                      )}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ArticleEntity, EntityType } from '../types';
+
+interface EntitiesPanelProps {
+  entities: ArticleEntity[] | null;
+  loading?: boolean;
+}
+
+const ENTITY_GROUPS: { type: EntityType; label: string }[] = [
+  { type: 'person', label: 'People' },
+  { type: 'organization', label: 'Organizations' },
+  { type: 'place', label: 'Places' },
+];
+
+export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({ entities, loading = false }) => {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
+          <span>Finding people, organizations and places...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!entities) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+        <svg
+          className="w-5 h-5 text-primary-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+          />
+        </svg>
+        Who & Where
+      </h3>
+
+      {entities.length === 0 ? (
+        <p className="text-sm text-gray-500">No people, organizations or places found</p>
+      ) : (
+        <div className="space-y-3">
+          {ENTITY_GROUPS.map(({ type, label }) => {
+            const group = entities.filter((entity) => entity.type === type);
+
+            if (group.length === 0) {
+              return null;
+            }
+
+            return (
+              <div key={type}>
+                <p className="text-xs font-semibold uppercase text-gray-500 mb-1">{label}</p>
+                <ul className="space-y-1">
+                  {group.map((entity) => (
+                    <li key={entity.id} className="text-sm text-gray-700">
+                      <span className="font-medium text-gray-900">{entity.name}</span>
+                      <span className="text-gray-500"> · {entity.role}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -81,6 +81,12 @@ export const Navbar: React.FC = () => {
               >
                 History
               </Link>
+              <Link
+                to="/styles"
+                className="text-gray-700 hover:text-primary-600 font-medium transition-colors"
+              >
+                Styles
+              </Link>
             </div>
           </div>
 
@@ -220,6 +226,13 @@ export const Navbar: React.FC = () => {
             >
               History
             </Link>
+            <Link
+              to="/styles"
+              className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-primary-600 hover:bg-gray-50"
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Styles
+            </Link>
             <Link
               to="/notifications"
               className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-primary-600 hover:bg-gray-50"
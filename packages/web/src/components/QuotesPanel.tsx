@@ -0,0 +1,63 @@
+import React from 'react';
+import { ArticleQuote } from '../types';
+
+interface QuotesPanelProps {
+  quotes: ArticleQuote[] | null;
+  loading?: boolean;
+}
+
+export const QuotesPanel: React.FC<QuotesPanelProps> = ({ quotes, loading = false }) => {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary-600"></div>
+          <span>Finding quotes...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!quotes) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+        <svg
+          className="w-5 h-5 text-primary-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
+          />
+        </svg>
+        Quotes
+      </h3>
+
+      {quotes.length === 0 ? (
+        <p className="text-sm text-gray-500">No direct quotes found</p>
+      ) : (
+        <ul className="space-y-3">
+          {quotes.map((quote) => (
+            <li key={quote.id}>
+              <blockquote className="border-l-2 border-primary-200 pl-3 text-sm italic text-gray-700">
+                &ldquo;{quote.text}&rdquo;
+              </blockquote>
+              <p className="mt-1 pl-3 text-xs text-gray-500">
+                — {quote.speaker}
+                {quote.speakerRole && `, ${quote.speakerRole}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { RewriteDiff } from '../types';
+
+interface RewriteDiffViewProps {
+  diff: RewriteDiff;
+  onClose: () => void;
+}
+
+const versionLabel = (version: 'original' | number): string =>
+  version === 'original' ? 'Original article' : `Version ${version}`;
+
+export const RewriteDiffView: React.FC<RewriteDiffViewProps> = ({ diff, onClose }) => {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-gray-900">
+          {versionLabel(diff.from)} vs {versionLabel(diff.to)}
+        </h3>
+        <button
+          onClick={onClose}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          Close comparison
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">
+          <p className="text-xs font-semibold text-gray-500 mb-2">{versionLabel(diff.from)}</p>
+          {diff.segments.map((segment, index) =>
+            segment.type === 'added' ? null : (
+              <span
+                key={index}
+                className={segment.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : undefined}
+              >
+                {segment.text}
+              </span>
+            )
+          )}
+        </div>
+
+        <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">
+          <p className="text-xs font-semibold text-gray-500 mb-2">{versionLabel(diff.to)}</p>
+          {diff.segments.map((segment, index) =>
+            segment.type === 'removed' ? null : (
+              <span
+                key={index}
+                className={segment.type === 'added' ? 'bg-green-100 text-green-800' : undefined}
+              >
+                {segment.text}
+              </span>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { RewriteFeedback, RewriteFeedbackReason, SubmitRewriteFeedbackRequest } from '../types';
+
+const reasons: { value: RewriteFeedbackReason; label: string }[] = [
+  { value: 'too_long', label: 'Too long' },
+  { value: 'too_short', label: 'Too short' },
+  { value: 'too_technical', label: 'Too technical' },
+  { value: 'too_simple', label: 'Too simple' },
+  { value: 'missed_key_fact', label: 'Missed a key fact' },
+  { value: 'inaccurate', label: 'Inaccurate' },
+  { value: 'wrong_tone', label: 'Wrong tone' },
+];
+
+interface RewriteFeedbackPanelProps {
+  feedback: RewriteFeedback | null;
+  loading?: boolean;
+  onSubmit: (feedback: SubmitRewriteFeedbackRequest) => void;
+}
+
+export const RewriteFeedbackPanel: React.FC<RewriteFeedbackPanelProps> = ({
+  feedback,
+  loading = false,
+  onSubmit,
+}) => {
+  const [thumbsUp, setThumbsUp] = useState<boolean | null>(null);
+  const [rating, setRating] = useState<number | undefined>(undefined);
+  const [selectedReasons, setSelectedReasons] = useState<RewriteFeedbackReason[]>([]);
+
+  useEffect(() => {
+    setThumbsUp(feedback?.thumbsUp ?? null);
+    setRating(feedback?.rating);
+    setSelectedReasons(feedback?.reasons ?? []);
+  }, [feedback]);
+
+  const toggleReason = (reason: RewriteFeedbackReason) => {
+    setSelectedReasons((previous) =>
+      previous.includes(reason)
+        ? previous.filter((value) => value !== reason)
+        : [...previous, reason]
+    );
+  };
+
+  const handleSubmit = () => {
+    if (thumbsUp === null) return;
+    onSubmit({ thumbsUp, rating, reasons: selectedReasons });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3">How was this rewrite?</h3>
+
+      <div className="flex gap-2 mb-3">
+        {[true, false].map((value) => (
+          <button
+            key={String(value)}
+            onClick={() => setThumbsUp(value)}
+            disabled={loading}
+            className={clsx(
+              'px-3 py-2 rounded-lg text-sm font-medium transition-colors',
+              thumbsUp === value
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            )}
+          >
+            {value ? 'Good' : 'Needs work'}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        {[1, 2, 3, 4, 5].map((value) => (
+          <button
+            key={value}
+            onClick={() => setRating(rating === value ? undefined : value)}
+            disabled={loading}
+            className={clsx(
+              'text-lg',
+              rating !== undefined && value <= rating ? 'text-yellow-500' : 'text-gray-300'
+            )}
+            title={`${value} of 5`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {reasons.map((reason) => (
+          <button
+            key={reason.value}
+            onClick={() => toggleReason(reason.value)}
+            disabled={loading}
+            className={clsx(
+              'px-2 py-1 rounded text-xs font-medium transition-colors',
+              selectedReasons.includes(reason.value)
+                ? 'bg-primary-100 text-primary-700'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            )}
+          >
+            {reason.label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={handleSubmit}
+        disabled={loading || thumbsUp === null}
+        className="w-full px-3 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {feedback ? 'Update feedback' : 'Send feedback'}
+      </button>
+    </div>
+  );
+};
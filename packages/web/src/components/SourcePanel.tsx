@@ -4,13 +4,44 @@ import { Citation } from '../types';
 interface SourcePanelProps {
   sourceUrl: string;
   sourceName: string;
+  /** Citations anchored in the rewrite, in marker order */
   citations?: Citation[];
+  /** Original article text the citations point into */
+  originalContent?: string;
+  activeCitationId?: string | null;
+  onCitationSelect?: (citation: Citation) => void;
 }
 
+/**
+ * The paragraph of the original holding a citation's supporting sentence,
+ * split around the sentence so it can be highlighted
+ */
+const getSupportingPassage = (
+  originalContent: string,
+  citation: Citation
+): { before: string; sentence: string; after: string } | null => {
+  if (citation.originalStart === undefined || citation.originalEnd === undefined) {
+    return null;
+  }
+
+  const paragraphStart = originalContent.lastIndexOf('\n', citation.originalStart - 1) + 1;
+  const newline = originalContent.indexOf('\n', citation.originalEnd);
+  const paragraphEnd = newline === -1 ? originalContent.length : newline;
+
+  return {
+    before: originalContent.slice(paragraphStart, citation.originalStart),
+    sentence: originalContent.slice(citation.originalStart, citation.originalEnd),
+    after: originalContent.slice(citation.originalEnd, paragraphEnd),
+  };
+};
+
 export const SourcePanel: React.FC<SourcePanelProps> = ({
   sourceUrl,
   sourceName,
   citations = [],
+  originalContent,
+  activeCitationId,
+  onCitationSelect,
 }) => {
   return (
     <div className="bg-white rounded-lg shadow-sm p-6">
@@ -47,36 +78,48 @@ export const SourcePanel: React.FC<SourcePanelProps> = ({
 
       {citations.length > 0 && (
         <div>
-          <h4 className="text-sm font-semibold text-gray-700 mb-3">Additional Sources</h4>
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">Citations</h4>
           <div className="space-y-3">
-            {citations.map((citation) => (
-              <div key={citation.id} className="border-l-2 border-primary-200 pl-3">
-                <p className="text-sm text-gray-700 mb-1">{citation.text}</p>
-                <a
-                  href={citation.sourceUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-xs text-primary-600 hover:text-primary-700 hover:underline"
+            {citations.map((citation, index) => {
+              const isActive = citation.id === activeCitationId;
+              const passage = isActive && originalContent
+                ? getSupportingPassage(originalContent, citation)
+                : null;
+
+              return (
+                <div
+                  key={citation.id}
+                  className={`border-l-2 pl-3 ${isActive ? 'border-primary-600' : 'border-primary-200'}`}
                 >
-                  {citation.sourceName}
-                </a>
-                {citation.reliability !== undefined && (
-                  <div className="mt-1">
-                    <div className="flex items-center gap-2">
-                      <div className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
-                        <div
-                          className="h-full bg-green-500 rounded-full"
-                          style={{ width: `${citation.reliability * 100}%` }}
-                        />
-                      </div>
-                      <span className="text-xs text-gray-500">
-                        {Math.round(citation.reliability * 100)}% reliable
-                      </span>
+                  <button
+                    type="button"
+                    onClick={() => onCitationSelect?.(citation)}
+                    className="text-left text-sm text-gray-700 mb-1 hover:text-gray-900"
+                  >
+                    <span className="font-semibold text-primary-600 mr-1">[{index + 1}]</span>
+                    {citation.text}
+                  </button>
+                  {citation.url && (
+                    <a
+                      href={citation.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block text-xs text-primary-600 hover:text-primary-700 hover:underline break-words"
+                    >
+                      {citation.url}
+                    </a>
+                  )}
+                  {passage && (
+                    <div className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-600 leading-relaxed">
+                      <p className="font-medium text-gray-700 mb-1">In the original</p>
+                      {passage.before}
+                      <mark className="bg-yellow-200 text-gray-900">{passage.sentence}</mark>
+                      {passage.after}
                     </div>
-                  </div>
-                )}
-              </div>
-            ))}
+                  )}
+                </div>
+              );
+            })}
           </div>
         </div>
       )}
@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Language,
+  LANGUAGE_NAMES,
+  PredefinedStyle,
+  StyleProfile,
+  StyleProfileDraft,
+  StyleProfilePreview,
+  StylePreviewRequest,
+} from '../types';
+import { StylePreviewPane } from './StylePreviewPane';
+
+// Wait for the user to stop adjusting before asking for a preview
+const PREVIEW_DELAY_MS = 800;
+
+const emptyDraft: StyleProfileDraft = {
+  name: '',
+  tone: 'neutral',
+  length: 'medium',
+  technicalLevel: 5,
+  includeContext: true,
+  includeKeyPoints: true,
+  isDefault: false,
+  isPublic: false,
+  autoTune: true,
+  tags: [],
+};
+
+const toDraft = (profile: StyleProfile): StyleProfileDraft => ({
+  name: profile.name,
+  description: profile.description,
+  predefinedStyle: profile.predefinedStyle,
+  customPrompt: profile.customPrompt,
+  tone: profile.tone,
+  length: profile.length,
+  technicalLevel: profile.technicalLevel,
+  includeContext: profile.includeContext,
+  includeKeyPoints: profile.includeKeyPoints,
+  targetLanguage: profile.targetLanguage,
+  isDefault: profile.isDefault,
+  isPublic: profile.isPublic,
+  autoTune: profile.autoTune,
+  tags: profile.tags,
+});
+
+interface StyleEditorProps {
+  profiles: StyleProfile[];
+  saving?: boolean;
+  onPreview: (settings: StylePreviewRequest) => Promise<StyleProfilePreview>;
+  onSave: (draft: StyleProfileDraft, id?: string) => void;
+}
+
+export const StyleEditor: React.FC<StyleEditorProps> = ({
+  profiles,
+  saving = false,
+  onPreview,
+  onSave,
+}) => {
+  const [selectedId, setSelectedId] = useState('');
+  const [draft, setDraft] = useState<StyleProfileDraft>(emptyDraft);
+  const [tagsInput, setTagsInput] = useState('');
+  const [preview, setPreview] = useState<StyleProfilePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState('');
+  const latestRequest = useRef(0);
+
+  const settings = useMemo<StylePreviewRequest>(
+    () => ({
+      predefinedStyle: draft.predefinedStyle,
+      customPrompt: draft.customPrompt?.trim() || undefined,
+      tone: draft.tone,
+      length: draft.length,
+      technicalLevel: draft.technicalLevel,
+      includeContext: draft.includeContext,
+      includeKeyPoints: draft.includeKeyPoints,
+      targetLanguage: draft.targetLanguage,
+    }),
+    [
+      draft.predefinedStyle,
+      draft.customPrompt,
+      draft.tone,
+      draft.length,
+      draft.technicalLevel,
+      draft.includeContext,
+      draft.includeKeyPoints,
+      draft.targetLanguage,
+    ]
+  );
+
+  const runPreview = useCallback(
+    async (request: StylePreviewRequest) => {
+      const requestId = ++latestRequest.current;
+
+      try {
+        setPreviewLoading(true);
+        setPreviewError('');
+        const result = await onPreview(request);
+        // Ignore previews for settings that have since changed
+        if (requestId === latestRequest.current) {
+          setPreview(result);
+        }
+      } catch (err: any) {
+        if (requestId === latestRequest.current) {
+          setPreviewError(err.response?.data?.message || 'Failed to load preview');
+        }
+      } finally {
+        if (requestId === latestRequest.current) {
+          setPreviewLoading(false);
+        }
+      }
+    },
+    [onPreview]
+  );
+
+  useEffect(() => {
+    // Previews still on their way are for the old settings
+    latestRequest.current++;
+    setPreviewLoading(false);
+
+    // Every edit of custom instructions would be a new paid rewrite, so
+    // those are only previewed on request
+    if (settings.customPrompt) {
+      return;
+    }
+
+    const timer = setTimeout(() => runPreview(settings), PREVIEW_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [settings, runPreview]);
+
+  const selectProfile = (id: string) => {
+    setSelectedId(id);
+    const profile = profiles.find((p) => p.id === id);
+    setDraft(profile ? toDraft(profile) : emptyDraft);
+    setTagsInput(profile ? profile.tags.join(', ') : '');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4">Style Editor</h2>
+
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Profile</label>
+          <select
+            value={selectedId}
+            onChange={(e) => selectProfile(e.target.value)}
+            className="input"
+          >
+            <option value="">New style</option>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {profile.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="input"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Base style</label>
+            <select
+              value={draft.predefinedStyle ?? ''}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  predefinedStyle: (e.target.value || undefined) as PredefinedStyle | undefined,
+                })
+              }
+              className="input"
+            >
+              <option value="">None</option>
+              {Object.values(PredefinedStyle).map((style) => (
+                <option key={style} value={style}>
+                  {style.replace('_', ' ')}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tone</label>
+            <select
+              value={draft.tone}
+              onChange={(e) =>
+                setDraft({ ...draft, tone: e.target.value as StyleProfileDraft['tone'] })
+              }
+              className="input"
+            >
+              <option value="formal">Formal</option>
+              <option value="neutral">Neutral</option>
+              <option value="casual">Casual</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Length</label>
+            <select
+              value={draft.length}
+              onChange={(e) =>
+                setDraft({ ...draft, length: e.target.value as StyleProfileDraft['length'] })
+              }
+              className="input"
+            >
+              <option value="concise">Concise</option>
+              <option value="medium">Medium</option>
+              <option value="detailed">Detailed</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Technical level: {draft.technicalLevel}/10
+            </label>
+            <input
+              type="range"
+              min={1}
+              max={10}
+              value={draft.technicalLevel}
+              onChange={(e) => setDraft({ ...draft, technicalLevel: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Language</label>
+            <select
+              value={draft.targetLanguage ?? ''}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  targetLanguage: (e.target.value || undefined) as Language | undefined,
+                })
+              }
+              className="input"
+            >
+              <option value="">Article's own language</option>
+              {Object.values(Language).map((language) => (
+                <option key={language} value={language}>
+                  Translate into {LANGUAGE_NAMES[language]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex gap-6 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.includeContext}
+              onChange={(e) => setDraft({ ...draft, includeContext: e.target.checked })}
+            />
+            Add context
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.includeKeyPoints}
+              onChange={(e) => setDraft({ ...draft, includeKeyPoints: e.target.checked })}
+            />
+            Key points first
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={draft.isPublic}
+              onChange={(e) => setDraft({ ...draft, isPublic: e.target.checked })}
+            />
+            Share in the style gallery
+          </label>
+        </div>
+
+        {draft.isPublic && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tags (comma-separated)
+            </label>
+            <input
+              value={tagsInput}
+              onChange={(e) => setTagsInput(e.target.value)}
+              className="input"
+              placeholder="e.g. tech, explainer"
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Custom instructions (replace the settings above)
+          </label>
+          <textarea
+            value={draft.customPrompt ?? ''}
+            onChange={(e) => setDraft({ ...draft, customPrompt: e.target.value })}
+            rows={3}
+            className="input"
+          />
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-gray-700">Preview</p>
+            {settings.customPrompt && (
+              <button
+                onClick={() => runPreview(settings)}
+                disabled={previewLoading}
+                className="btn btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Preview instructions
+              </button>
+            )}
+          </div>
+          {previewError ? (
+            <p className="text-sm text-red-600">{previewError}</p>
+          ) : (
+            <StylePreviewPane preview={preview} loading={previewLoading} />
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={() =>
+              onSave(
+                {
+                  ...draft,
+                  customPrompt: draft.customPrompt?.trim() || undefined,
+                  tags: tagsInput
+                    .split(',')
+                    .map((tag) => tag.trim().toLowerCase())
+                    .filter(Boolean),
+                },
+                selectedId || undefined
+              )
+            }
+            disabled={saving || !draft.name.trim()}
+            className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {selectedId ? 'Update Style' : 'Save Style'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { PublicStyleProfile, StyleProfileReportReason } from '../types';
+
+const REPORT_REASONS: { value: StyleProfileReportReason; label: string }[] = [
+  { value: 'abusive', label: 'Abusive content' },
+  { value: 'harmful_instructions', label: 'Harmful instructions' },
+  { value: 'spam', label: 'Spam' },
+  { value: 'other', label: 'Other' },
+];
+
+interface StyleGalleryCardProps {
+  profile: PublicStyleProfile;
+  isOwn: boolean;
+  busy?: boolean;
+  onFork: () => void;
+  onRate: (rating: number) => void;
+  onReport: (reason: StyleProfileReportReason, details?: string) => void;
+  onTagClick: (tag: string) => void;
+}
+
+export const StyleGalleryCard: React.FC<StyleGalleryCardProps> = ({
+  profile,
+  isOwn,
+  busy = false,
+  onFork,
+  onRate,
+  onReport,
+  onTagClick,
+}) => {
+  const [reporting, setReporting] = useState(false);
+  const [reason, setReason] = useState<StyleProfileReportReason>('abusive');
+  const [details, setDetails] = useState('');
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{profile.name}</h3>
+          <p className="text-sm text-gray-500">
+            by {profile.authorName}
+            {profile.originalAuthorName && ` · based on a style by ${profile.originalAuthorName}`}
+          </p>
+        </div>
+        {!isOwn && (
+          <button onClick={onFork} disabled={busy} className="btn btn-primary">
+            Fork
+          </button>
+        )}
+      </div>
+
+      {profile.description && <p className="mt-3 text-gray-700">{profile.description}</p>}
+
+      {profile.tags.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {profile.tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => onTagClick(tag)}
+              className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-gray-500">
+        {[
+          profile.ratingAverage !== undefined
+            ? `${profile.ratingAverage.toFixed(1)}/5 (${profile.ratingCount})`
+            : 'No ratings yet',
+          `${profile.weeklyUsage} uses this week`,
+          `${profile.usageCount} total`,
+          `${profile.forkCount} forks`,
+        ].join(' · ')}
+      </p>
+
+      {!isOwn && (
+        <div className="mt-4 flex items-center justify-between">
+          <div className="flex items-center gap-1 text-sm text-gray-600">
+            Rate:
+            {[1, 2, 3, 4, 5].map((rating) => (
+              <button
+                key={rating}
+                onClick={() => onRate(rating)}
+                disabled={busy}
+                className="px-2 py-1 rounded hover:bg-gray-100"
+              >
+                {rating}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setReporting(!reporting)}
+            className="text-sm text-gray-500 hover:text-red-600"
+          >
+            Report
+          </button>
+        </div>
+      )}
+
+      {reporting && (
+        <div className="mt-4 space-y-3 border-t border-gray-200 pt-4">
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as StyleProfileReportReason)}
+            className="input"
+          >
+            {REPORT_REASONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            rows={2}
+            className="input"
+            placeholder="What's wrong with this style? (optional)"
+          />
+          <div className="flex justify-end gap-4">
+            <button onClick={() => setReporting(false)} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={() => {
+                onReport(reason, details.trim() || undefined);
+                setReporting(false);
+                setDetails('');
+              }}
+              disabled={busy}
+              className="btn btn-primary"
+            >
+              Send Report
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { LearnedStyleProfile, StyleProfileDraft } from '../types';
+import { StylePreviewPane } from './StylePreviewPane';
+
+interface StyleLearnerProps {
+  learned: LearnedStyleProfile | null;
+  loading?: boolean;
+  onLearn: (samples: string[], name?: string) => void;
+  onSave: (draft: StyleProfileDraft) => void;
+  onDiscard: () => void;
+}
+
+export const StyleLearner: React.FC<StyleLearnerProps> = ({
+  learned,
+  loading = false,
+  onLearn,
+  onSave,
+  onDiscard,
+}) => {
+  const [samplesText, setSamplesText] = useState('');
+  const [name, setName] = useState('');
+  const [draft, setDraft] = useState<StyleProfileDraft | null>(null);
+
+  useEffect(() => {
+    setDraft(learned?.draft ?? null);
+  }, [learned]);
+
+  // Samples are separated by blank lines
+  const samples = samplesText
+    .split(/\n\s*\n/)
+    .map((sample) => sample.trim())
+    .filter(Boolean);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4">Learn a Style</h2>
+
+      {!draft ? (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Sample paragraphs
+            </label>
+            <textarea
+              value={samplesText}
+              onChange={(e) => setSamplesText(e.target.value)}
+              rows={8}
+              className="input"
+              placeholder="Paste a few paragraphs written the way you like to read, e.g. from a favourite newsletter. Separate samples with a blank line."
+            />
+            <p className="mt-2 text-sm text-gray-500">Up to 5 samples of at least 50 characters each</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name (optional)</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input"
+            />
+          </div>
+
+          <button
+            onClick={() => onLearn(samples.slice(0, 5), name.trim() || undefined)}
+            disabled={loading || samples.length === 0}
+            className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Learning...' : 'Learn Style'}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="input"
+            />
+          </div>
+
+          {draft.description && <p className="text-sm text-gray-600">{draft.description}</p>}
+
+          <p className="text-xs text-gray-500">
+            {[
+              `Tone: ${draft.tone}`,
+              `Length: ${draft.length}`,
+              `Technical level: ${draft.technicalLevel}/10`,
+            ].join(' · ')}
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Instructions</label>
+            <textarea
+              value={draft.customPrompt ?? ''}
+              onChange={(e) => setDraft({ ...draft, customPrompt: e.target.value })}
+              rows={5}
+              className="input"
+            />
+          </div>
+
+          {learned?.preview && <StylePreviewPane preview={learned.preview} />}
+
+          <div className="flex justify-end gap-4">
+            <button onClick={onDiscard} disabled={loading} className="btn btn-secondary">
+              Discard
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={loading || !draft.name.trim()}
+              className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Style
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { StyleProfilePreview } from '../types';
+
+interface StylePreviewPaneProps {
+  preview: StyleProfilePreview | null;
+  loading?: boolean;
+}
+
+export const StylePreviewPane: React.FC<StylePreviewPaneProps> = ({ preview, loading = false }) => {
+  if (!preview) {
+    return loading ? <p className="text-sm text-gray-500">Generating preview...</p> : null;
+  }
+
+  return (
+    <div className={loading ? 'opacity-50' : undefined}>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">
+          <p className="text-xs font-semibold text-gray-500 mb-2">{preview.title}</p>
+          {preview.originalExcerpt}
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-800 leading-relaxed whitespace-pre-wrap">
+          <p className="text-xs font-semibold text-gray-500 mb-2">In this style</p>
+          {preview.rewrittenContent}
+        </div>
+      </div>
+    </div>
+  );
+};
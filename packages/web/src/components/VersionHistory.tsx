@@ -0,0 +1,81 @@
+import React from 'react';
+import { RewriteVersion } from '../types';
+import { formatTimeAgo } from '../utils/formatting';
+
+interface VersionHistoryProps {
+  versions: RewriteVersion[];
+  loading?: boolean;
+  onRestore: (version: RewriteVersion) => void;
+  onCompare: (from: 'original' | number, to: number) => void;
+}
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({
+  versions,
+  loading = false,
+  onRestore,
+  onCompare,
+}) => {
+  if (versions.length === 0) {
+    return null;
+  }
+
+  const current = versions.find((version) => version.isCurrent);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-3">Versions</h3>
+      <div className="space-y-3">
+        {versions.map((version) => (
+          <div key={version.id} className="border-l-2 border-primary-200 pl-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-900">
+                Version {version.versionNumber}
+              </span>
+              {version.isCurrent && (
+                <span className="px-2 py-0.5 text-xs font-semibold text-primary-700 bg-primary-100 rounded">
+                  Current
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              {[
+                version.aiModel,
+                version.aiCost !== undefined ? `$${version.aiCost.toFixed(4)}` : undefined,
+                formatTimeAgo(version.createdAt),
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+            <div className="flex flex-wrap gap-3 mt-1 text-xs">
+              <button
+                onClick={() => onCompare('original', version.versionNumber)}
+                disabled={loading}
+                className="text-primary-600 hover:text-primary-700 hover:underline disabled:opacity-50"
+              >
+                Compare with original
+              </button>
+              {current && !version.isCurrent && (
+                <>
+                  <button
+                    onClick={() => onCompare(version.versionNumber, current.versionNumber)}
+                    disabled={loading}
+                    className="text-primary-600 hover:text-primary-700 hover:underline disabled:opacity-50"
+                  >
+                    Compare with current
+                  </button>
+                  <button
+                    onClick={() => onRestore(version)}
+                    disabled={loading}
+                    className="text-primary-600 hover:text-primary-700 hover:underline disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
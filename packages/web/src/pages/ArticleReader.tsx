@@ -1,19 +1,50 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { apiClient } from '../services/api';
-import { Article, BiasAnalysis, EnrichedContext } from '../types';
+import {
+  Article,
+  ArticleClaim,
+  ArticleEntity,
+  ArticleQuote,
+  ArticleTimelineEntry,
+  BiasAnalysis,
+  Citation,
+  EnrichedContext,
+  Readability,
+  RewriteDiff,
+  RewriteFeedback,
+  RewriteVersion,
+  RewrittenArticle,
+  SubmitRewriteFeedbackRequest,
+} from '../types';
 import { StyleSwitcher } from '../components/StyleSwitcher';
 import { SourcePanel } from '../components/SourcePanel';
+import { CitedContent } from '../components/CitedContent';
+import { VersionHistory } from '../components/VersionHistory';
+import { RewriteDiffView } from '../components/RewriteDiffView';
+import { RewriteFeedbackPanel } from '../components/RewriteFeedbackPanel';
 import { BiasIndicator } from '../components/BiasIndicator';
 import { KeyPointsPanel } from '../components/KeyPointsPanel';
+import { EntitiesPanel } from '../components/EntitiesPanel';
+import { ClaimsPanel } from '../components/ClaimsPanel';
+import { QuotesPanel } from '../components/QuotesPanel';
 import { ContextEnrichment } from '../components/ContextEnrichment';
 import { formatDate } from '../utils/formatting';
 
-export const ArticleReader: React.FC = () => {
+const ArticleView: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [article, setArticle] = useState<Article | null>(null);
   const [content, setContent] = useState('');
+  const [citations, setCitations] = useState<Citation[]>([]);
+  const [activeCitationId, setActiveCitationId] = useState<string | null>(null);
+  const [rewriteId, setRewriteId] = useState<string | null>(null);
+  const [rewriteReadability, setRewriteReadability] = useState<Readability | null>(null);
+  const [versions, setVersions] = useState<RewriteVersion[]>([]);
+  const [diff, setDiff] = useState<RewriteDiff | null>(null);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+  const [feedback, setFeedback] = useState<RewriteFeedback | null>(null);
+  const [feedbackLoading, setFeedbackLoading] = useState(false);
   const [currentStyle, setCurrentStyle] = useState<any>('original');
   const [loading, setLoading] = useState(true);
   const [styleLoading, setStyleLoading] = useState(false);
@@ -22,9 +53,16 @@ export const ArticleReader: React.FC = () => {
   // AI Features state
   const [biasAnalysis, setBiasAnalysis] = useState<BiasAnalysis | null>(null);
   const [keyPoints, setKeyPoints] = useState<string[] | null>(null);
+  const [entities, setEntities] = useState<ArticleEntity[] | null>(null);
+  const [claims, setClaims] = useState<ArticleClaim[] | null>(null);
+  const [quotes, setQuotes] = useState<ArticleQuote[] | null>(null);
   const [enrichedContext, setEnrichedContext] = useState<EnrichedContext | null>(null);
+  const [timeline, setTimeline] = useState<ArticleTimelineEntry[] | null>(null);
   const [biasLoading, setBiasLoading] = useState(false);
   const [keyPointsLoading, setKeyPointsLoading] = useState(false);
+  const [entitiesLoading, setEntitiesLoading] = useState(false);
+  const [claimsLoading, setClaimsLoading] = useState(false);
+  const [quotesLoading, setQuotesLoading] = useState(false);
   const [contextLoading, setContextLoading] = useState(false);
   const [showAIFeatures, setShowAIFeatures] = useState(false);
 
@@ -47,10 +85,45 @@ export const ArticleReader: React.FC = () => {
     fetchArticle();
   }, [id]);
 
+  const showRewrite = (rewritten: RewrittenArticle) => {
+    setContent(rewritten.rewrittenContent);
+    setRewriteReadability(rewritten.readability ?? null);
+    // The source article's own citation has no marker in the text
+    setCitations(
+      (rewritten.citations ?? [])
+        .filter((citation) => citation.position >= 0)
+        .sort((a, b) => a.position - b.position)
+    );
+    setActiveCitationId(null);
+  };
+
+  const loadVersions = async (rewrittenArticleId: string) => {
+    try {
+      setVersions(await apiClient.getRewriteVersions(rewrittenArticleId));
+    } catch (err: any) {
+      console.error('Failed to load rewrite versions:', err);
+    }
+  };
+
+  const loadFeedback = async (rewrittenArticleId: string) => {
+    try {
+      setFeedback(await apiClient.getRewriteFeedback(rewrittenArticleId));
+    } catch (err: any) {
+      console.error('Failed to load rewrite feedback:', err);
+    }
+  };
+
   const handleStyleChange = async (style: any) => {
     if (!id || !article || style === currentStyle) return;
 
     setCurrentStyle(style);
+    setCitations([]);
+    setActiveCitationId(null);
+    setRewriteId(null);
+    setRewriteReadability(null);
+    setVersions([]);
+    setDiff(null);
+    setFeedback(null);
 
     if (style === 'original') {
       setContent(article.originalContent);
@@ -59,16 +132,24 @@ export const ArticleReader: React.FC = () => {
 
     try {
       setStyleLoading(true);
-      const rewritten = await apiClient.getRewrittenArticle(id, style);
-      if (rewritten) {
-        setContent(rewritten.rewrittenContent);
-        // Also update key points if available
-        if (rewritten.keyPoints) {
-          setKeyPoints(rewritten.keyPoints);
-        }
+      setContent('');
+      // Render the rewrite progressively as tokens stream in
+      const rewritten = await apiClient.rewriteArticleStream(
+        id,
+        style,
+        (text) => setContent((previous) => previous + text),
+        (text) => setContent(text)
+      );
+      showRewrite(rewritten);
+      setRewriteId(rewritten.id);
+      loadVersions(rewritten.id);
+      loadFeedback(rewritten.id);
+      // Also update key points if available
+      if (rewritten.keyPoints) {
+        setKeyPoints(rewritten.keyPoints);
       }
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to rewrite article');
+      setError(err.response?.data?.message || err.message || 'Failed to rewrite article');
       setCurrentStyle('original');
       setContent(article.originalContent);
     } finally {
@@ -76,6 +157,48 @@ export const ArticleReader: React.FC = () => {
     }
   };
 
+  const handleRestoreVersion = async (version: RewriteVersion) => {
+    if (!rewriteId || versionsLoading) return;
+
+    try {
+      setVersionsLoading(true);
+      const restored = await apiClient.restoreRewriteVersion(rewriteId, version.versionNumber);
+      showRewrite(restored);
+      setDiff(null);
+      await loadVersions(rewriteId);
+    } catch (err: any) {
+      console.error('Failed to restore rewrite version:', err);
+    } finally {
+      setVersionsLoading(false);
+    }
+  };
+
+  const handleCompareVersions = async (from: 'original' | number, to: number) => {
+    if (!rewriteId || versionsLoading) return;
+
+    try {
+      setVersionsLoading(true);
+      setDiff(await apiClient.getRewriteDiff(rewriteId, from, to));
+    } catch (err: any) {
+      console.error('Failed to compare rewrite versions:', err);
+    } finally {
+      setVersionsLoading(false);
+    }
+  };
+
+  const handleSubmitFeedback = async (data: SubmitRewriteFeedbackRequest) => {
+    if (!rewriteId || feedbackLoading) return;
+
+    try {
+      setFeedbackLoading(true);
+      setFeedback(await apiClient.submitRewriteFeedback(rewriteId, data));
+    } catch (err: any) {
+      console.error('Failed to submit rewrite feedback:', err);
+    } finally {
+      setFeedbackLoading(false);
+    }
+  };
+
   // AI Feature handlers
   const handleAnalyzeBias = async () => {
     if (!id || biasLoading) return;
@@ -107,21 +230,74 @@ export const ArticleReader: React.FC = () => {
     }
   };
 
-  const handleEnrichContext = async () => {
-    if (!id || !article || contextLoading) return;
+  const handleExtractEntities = async () => {
+    if (!id || entitiesLoading) return;
 
     try {
-      setContextLoading(true);
-      const data = await apiClient.enrichContext(id, article.title);
-      setEnrichedContext(data);
+      setEntitiesLoading(true);
+      setEntities(await apiClient.getEntities(id));
       setShowAIFeatures(true);
     } catch (err: any) {
-      console.error('Failed to enrich context:', err);
+      console.error('Failed to extract entities:', err);
     } finally {
-      setContextLoading(false);
+      setEntitiesLoading(false);
     }
   };
 
+  const handleExtractClaims = async () => {
+    if (!id || claimsLoading) return;
+
+    try {
+      setClaimsLoading(true);
+      setClaims(await apiClient.getClaims(id));
+      setShowAIFeatures(true);
+    } catch (err: any) {
+      console.error('Failed to extract claims:', err);
+    } finally {
+      setClaimsLoading(false);
+    }
+  };
+
+  const handleExtractQuotes = async () => {
+    if (!id || quotesLoading) return;
+
+    try {
+      setQuotesLoading(true);
+      setQuotes(await apiClient.getQuotes(id));
+      setShowAIFeatures(true);
+    } catch (err: any) {
+      console.error('Failed to extract quotes:', err);
+    } finally {
+      setQuotesLoading(false);
+    }
+  };
+
+  const handleEnrichContext = async () => {
+    if (!id || !article || contextLoading) return;
+
+    setContextLoading(true);
+    // Either one is worth showing without the other
+    const [enriched, events] = await Promise.allSettled([
+      apiClient.enrichContext(id, article.title),
+      apiClient.getTimeline(id),
+    ]);
+
+    if (enriched.status === 'fulfilled') {
+      setEnrichedContext(enriched.value);
+    } else {
+      console.error('Failed to enrich context:', enriched.reason);
+    }
+
+    if (events.status === 'fulfilled') {
+      setTimeline(events.value);
+    } else {
+      console.error('Failed to load timeline:', events.reason);
+    }
+
+    setShowAIFeatures(true);
+    setContextLoading(false);
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -148,6 +324,9 @@ export const ArticleReader: React.FC = () => {
     );
   }
 
+  // A rewrite still streaming in hasn't been measured yet
+  const readability = currentStyle === 'original' ? article.readability : rewriteReadability;
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
       <button
@@ -176,6 +355,22 @@ export const ArticleReader: React.FC = () => {
                 <span className="text-sm text-gray-500">{article.source?.name || 'Unknown'}</span>
                 <span className="text-sm text-gray-400">•</span>
                 <span className="text-sm text-gray-500">{formatDate(article.publishedAt)}</span>
+                {readability && (
+                  <>
+                    <span className="text-sm text-gray-400">•</span>
+                    <span
+                      className="text-sm text-gray-500"
+                      title={`${readability.averageSentenceLength} words per sentence, ${Math.round(
+                        readability.rareWordRatio * 100
+                      )}% long words`}
+                    >
+                      Grade {readability.grade} reading level
+                      {currentStyle !== 'original' &&
+                        article.readability &&
+                        ` (original: grade ${article.readability.grade})`}
+                    </span>
+                  </>
+                )}
               </div>
 
               <h1 className="text-4xl font-bold text-gray-900 mb-4">{article.title}</h1>
@@ -195,13 +390,16 @@ export const ArticleReader: React.FC = () => {
               </div>
             )}
 
-            <div className="prose prose-lg max-w-none">
-              {content.split('\n').map((paragraph, index) => (
-                <p key={index} className="mb-4 text-gray-800 leading-relaxed">
-                  {paragraph}
-                </p>
-              ))}
-            </div>
+            {diff ? (
+              <RewriteDiffView diff={diff} onClose={() => setDiff(null)} />
+            ) : (
+              <CitedContent
+                content={content}
+                citations={citations}
+                activeCitationId={activeCitationId}
+                onCitationSelect={(citation) => setActiveCitationId(citation.id)}
+              />
+            )}
           </article>
 
           <div className="mt-6 bg-white rounded-lg shadow-sm p-6">
@@ -237,6 +435,51 @@ export const ArticleReader: React.FC = () => {
                 </svg>
                 {keyPointsLoading ? 'Extracting...' : 'Extract Key Points'}
               </button>
+              <button
+                onClick={handleExtractEntities}
+                disabled={entitiesLoading}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+                  />
+                </svg>
+                {entitiesLoading ? 'Finding...' : 'People & Places'}
+              </button>
+              <button
+                onClick={handleExtractClaims}
+                disabled={claimsLoading}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+                  />
+                </svg>
+                {claimsLoading ? 'Finding...' : 'Claims to Check'}
+              </button>
+              <button
+                onClick={handleExtractQuotes}
+                disabled={quotesLoading}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"
+                  />
+                </svg>
+                {quotesLoading ? 'Finding...' : 'Quotes'}
+              </button>
               <button
                 onClick={handleEnrichContext}
                 disabled={contextLoading}
@@ -264,17 +507,42 @@ export const ArticleReader: React.FC = () => {
               loading={styleLoading}
             />
 
+            {rewriteId && (
+              <VersionHistory
+                versions={versions}
+                loading={versionsLoading}
+                onRestore={handleRestoreVersion}
+                onCompare={handleCompareVersions}
+              />
+            )}
+
+            {rewriteId && (
+              <RewriteFeedbackPanel
+                feedback={feedback}
+                loading={feedbackLoading}
+                onSubmit={handleSubmitFeedback}
+              />
+            )}
+
             {/* AI Feature Components */}
             {showAIFeatures && (
               <>
                 {keyPoints && (
                   <KeyPointsPanel keyPoints={keyPoints} loading={keyPointsLoading} />
                 )}
+                {entities && <EntitiesPanel entities={entities} loading={entitiesLoading} />}
+                {claims && <ClaimsPanel claims={claims} loading={claimsLoading} />}
+                {quotes && <QuotesPanel quotes={quotes} loading={quotesLoading} />}
                 {biasAnalysis && (
                   <BiasIndicator biasAnalysis={biasAnalysis} loading={biasLoading} />
                 )}
-                {enrichedContext && (
-                  <ContextEnrichment enrichedContext={enrichedContext} loading={contextLoading} />
+                {(enrichedContext || !!timeline?.length) && (
+                  <ContextEnrichment
+                    enrichedContext={enrichedContext}
+                    timeline={timeline}
+                    articleId={article.id}
+                    loading={contextLoading}
+                  />
                 )}
               </>
             )}
@@ -282,6 +550,10 @@ export const ArticleReader: React.FC = () => {
             <SourcePanel
               sourceUrl={article.url}
               sourceName={article.source?.name || 'Unknown'}
+              citations={citations}
+              originalContent={article.originalContent}
+              activeCitationId={activeCitationId}
+              onCitationSelect={(citation) => setActiveCitationId(citation.id)}
             />
           </div>
         </div>
@@ -289,3 +561,9 @@ export const ArticleReader: React.FC = () => {
     </div>
   );
 };
+
+export const ArticleReader: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  // Start from a clean slate when a link leads to another article
+  return <ArticleView key={id} />;
+};
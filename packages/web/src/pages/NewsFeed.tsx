@@ -2,7 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { ArticleCard } from '../components/ArticleCard';
 import { CategoryFilter } from '../components/CategoryFilter';
 import { apiClient } from '../services/api';
-import { Article, ArticleCategory } from '../types';
+import { Article, ArticleCategory, Language, LANGUAGE_NAMES } from '../types';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
 
 export const NewsFeed: React.FC = () => {
@@ -10,6 +10,7 @@ export const NewsFeed: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<ArticleCategory | ''>('');
+  const [selectedLanguage, setSelectedLanguage] = useState<Language | ''>('');
   const [offset, setOffset] = useState(0);
   const [hasMore, setHasMore] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -23,6 +24,7 @@ export const NewsFeed: React.FC = () => {
           limit,
           offset: currentOffset,
           category: selectedCategory || undefined,
+          language: selectedLanguage || undefined,
           search: searchQuery || undefined,
           sortBy: 'published_at',
           sortOrder: 'desc',
@@ -42,13 +44,13 @@ export const NewsFeed: React.FC = () => {
         setLoading(false);
       }
     },
-    [selectedCategory, searchQuery]
+    [selectedCategory, selectedLanguage, searchQuery]
   );
 
   useEffect(() => {
     setOffset(0);
     fetchArticles(0, true);
-  }, [selectedCategory, searchQuery, fetchArticles]);
+  }, [selectedCategory, selectedLanguage, searchQuery, fetchArticles]);
 
   const loadMore = useCallback(() => {
     if (!loading && hasMore) {
@@ -78,8 +80,8 @@ export const NewsFeed: React.FC = () => {
         <p className="text-gray-600">Personalized news in your preferred style</p>
       </div>
 
-      <div className="mb-6">
-        <form onSubmit={handleSearch} className="relative">
+      <div className="mb-6 flex gap-4">
+        <form onSubmit={handleSearch} className="relative flex-1">
           <input
             type="text"
             value={searchQuery}
@@ -106,6 +108,19 @@ export const NewsFeed: React.FC = () => {
             </svg>
           </button>
         </form>
+        <select
+          value={selectedLanguage}
+          onChange={(e) => setSelectedLanguage(e.target.value as Language | '')}
+          className="input w-48"
+          aria-label="Original language"
+        >
+          <option value="">All languages</option>
+          {Object.values(Language).map((language) => (
+            <option key={language} value={language}>
+              {LANGUAGE_NAMES[language]}
+            </option>
+          ))}
+        </select>
       </div>
 
       <CategoryFilter
@@ -1,7 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { apiClient } from '../services/api';
-import { UserPreferences, StyleProfile } from '../types';
+import {
+  UserPreferences,
+  StyleProfile,
+  LearnedStyleProfile,
+  StyleProfileDraft,
+  StylePreviewRequest,
+} from '../types';
 import { getStyleLabel } from '../utils/formatting';
+import { StyleLearner } from '../components/StyleLearner';
+import { StyleEditor } from '../components/StyleEditor';
 
 const topics = [
   'Politics',
@@ -21,6 +29,10 @@ export const Settings: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [learnedStyle, setLearnedStyle] = useState<LearnedStyleProfile | null>(null);
+  const [learning, setLearning] = useState(false);
+  const [styleProfiles, setStyleProfiles] = useState<StyleProfile[]>([]);
+  const [savingStyle, setSavingStyle] = useState(false);
 
   useEffect(() => {
     const fetchPreferences = async () => {
@@ -38,8 +50,47 @@ export const Settings: React.FC = () => {
     };
 
     fetchPreferences();
+    loadStyleProfiles();
   }, []);
 
+  const loadStyleProfiles = async () => {
+    try {
+      setStyleProfiles(await apiClient.getStyleProfiles());
+    } catch (err: any) {
+      console.error('Failed to load style profiles:', err);
+    }
+  };
+
+  // Stable, so the editor's preview doesn't restart on every render of this page
+  const previewStyle = useCallback(
+    (settings: StylePreviewRequest) => apiClient.previewStyleProfile(settings),
+    []
+  );
+
+  const handleSaveStyle = async (draft: StyleProfileDraft, id?: string) => {
+    try {
+      setSavingStyle(true);
+      if (id) {
+        await apiClient.updateStyleProfile(id, {
+          ...draft,
+          targetLanguage: draft.targetLanguage ?? null,
+        });
+      } else {
+        await apiClient.createStyleProfile(draft);
+      }
+      await loadStyleProfiles();
+      setMessage({ type: 'success', text: `Style "${draft.name}" saved` });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err: any) {
+      setMessage({
+        type: 'error',
+        text: err.response?.data?.message || 'Failed to save style',
+      });
+    } finally {
+      setSavingStyle(false);
+    }
+  };
+
   const handleSave = async () => {
     if (!preferences) return;
 
@@ -58,6 +109,46 @@ export const Settings: React.FC = () => {
     }
   };
 
+  const handleLearnStyle = async (samples: string[], name?: string) => {
+    try {
+      setLearning(true);
+      // Preview the draft against the latest article in the feed
+      const latest = await apiClient.getArticles({ limit: 1 });
+      setLearnedStyle(
+        await apiClient.learnStyleProfile({
+          samples,
+          name,
+          previewArticleId: latest.data[0]?.id,
+        })
+      );
+    } catch (err: any) {
+      setMessage({
+        type: 'error',
+        text: err.response?.data?.message || 'Failed to learn style',
+      });
+    } finally {
+      setLearning(false);
+    }
+  };
+
+  const handleSaveLearnedStyle = async (draft: StyleProfileDraft) => {
+    try {
+      setLearning(true);
+      await apiClient.createStyleProfile(draft);
+      await loadStyleProfiles();
+      setLearnedStyle(null);
+      setMessage({ type: 'success', text: `Style "${draft.name}" saved` });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err: any) {
+      setMessage({
+        type: 'error',
+        text: err.response?.data?.message || 'Failed to save style',
+      });
+    } finally {
+      setLearning(false);
+    }
+  };
+
   const toggleTopic = (topic: string, listType: 'followed' | 'muted') => {
     if (!preferences) return;
 
@@ -277,6 +368,21 @@ export const Settings: React.FC = () => {
           </div>
         </div>
 
+        <StyleEditor
+          profiles={styleProfiles}
+          saving={savingStyle}
+          onPreview={previewStyle}
+          onSave={handleSaveStyle}
+        />
+
+        <StyleLearner
+          learned={learnedStyle}
+          loading={learning}
+          onLearn={handleLearnStyle}
+          onSave={handleSaveLearnedStyle}
+          onDiscard={() => setLearnedStyle(null)}
+        />
+
         <div className="flex justify-end gap-4">
           <button
             onClick={handleSave}
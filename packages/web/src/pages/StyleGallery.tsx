@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { StyleGalleryCard } from '../components/StyleGalleryCard';
+import { useAuth } from '../contexts/AuthContext';
+import { apiClient } from '../services/api';
+import { PublicStyleProfile, StyleGallerySort, StyleProfileReportReason } from '../types';
+
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS: { value: StyleGallerySort; label: string }[] = [
+  { value: 'trending', label: 'Trending this week' },
+  { value: 'top_rated', label: 'Top rated' },
+  { value: 'most_used', label: 'Most used' },
+  { value: 'newest', label: 'Newest' },
+];
+
+export const StyleGallery: React.FC = () => {
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<PublicStyleProfile[]>([]);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [sort, setSort] = useState<StyleGallerySort>('trending');
+  const [offset, setOffset] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const response = await apiClient.getPublicStyleProfiles({
+          search: search || undefined,
+          tags,
+          sort,
+          limit: PAGE_SIZE,
+          offset,
+        });
+        setProfiles((prev) => (offset === 0 ? response.data : [...prev, ...response.data]));
+        setHasMore(response.pagination.hasMore);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Failed to load styles');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProfiles();
+  }, [search, tags, sort, offset]);
+
+  const runAction = async (id: string, action: () => Promise<void>, failure: string) => {
+    try {
+      setBusyId(id);
+      setError('');
+      setMessage('');
+      await action();
+    } catch (err: any) {
+      setError(err.response?.data?.message || failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleFork = (profile: PublicStyleProfile) =>
+    runAction(
+      profile.id,
+      async () => {
+        await apiClient.forkStyleProfile(profile.id);
+        setMessage(`"${profile.name}" was added to your styles`);
+      },
+      'Failed to fork style'
+    );
+
+  const handleRate = (profile: PublicStyleProfile, rating: number) =>
+    runAction(
+      profile.id,
+      async () => {
+        const updated = await apiClient.rateStyleProfile(profile.id, rating);
+        setProfiles((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      },
+      'Failed to rate style'
+    );
+
+  const handleReport = (
+    profile: PublicStyleProfile,
+    reason: StyleProfileReportReason,
+    details?: string
+  ) =>
+    runAction(
+      profile.id,
+      async () => {
+        await apiClient.reportStyleProfile(profile.id, reason, details);
+        setMessage('Thanks, a moderator will take a look');
+      },
+      'Failed to report style'
+    );
+
+  const addTag = (tag: string) => {
+    if (!tags.includes(tag)) {
+      setOffset(0);
+      setTags([...tags, tag]);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Style Gallery</h1>
+        <p className="text-gray-600">Writing styles shared by the community</p>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setOffset(0);
+          setSearch(searchInput.trim());
+        }}
+        className="mb-4 flex gap-4"
+      >
+        <input
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+          placeholder="Search styles"
+          className="input flex-1"
+        />
+        <select
+          value={sort}
+          onChange={(e) => {
+            setOffset(0);
+            setSort(e.target.value as StyleGallerySort);
+          }}
+          className="input w-48"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </form>
+
+      {tags.length > 0 && (
+        <div className="mb-4 flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => {
+                setOffset(0);
+                setTags(tags.filter((t) => t !== tag));
+              }}
+              className="px-2 py-1 text-xs rounded-full bg-primary-100 text-primary-700"
+            >
+              {tag} ×
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {message}
+        </div>
+      )}
+
+      {loading && profiles.length === 0 ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : profiles.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <p className="text-lg">No styles found</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {profiles.map((profile) => (
+            <StyleGalleryCard
+              key={profile.id}
+              profile={profile}
+              isOwn={profile.userId === user?.id}
+              busy={busyId === profile.id}
+              onFork={() => handleFork(profile)}
+              onRate={(rating) => handleRate(profile, rating)}
+              onReport={(reason, details) => handleReport(profile, reason, details)}
+              onTagClick={addTag}
+            />
+          ))}
+
+          {hasMore && (
+            <div className="flex justify-center py-8">
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={loading}
+                className="btn btn-primary"
+              >
+                {loading ? 'Loading...' : 'Load More'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,19 +3,39 @@ import type {
   User,
   Article,
   RewrittenArticle,
+  RewriteVersion,
+  RewriteDiff,
+  RewriteFeedback,
+  SubmitRewriteFeedbackRequest,
+  StyleFeedbackSummary,
+  LearnStyleProfileRequest,
+  LearnedStyleProfile,
+  StylePreviewRequest,
+  StyleProfilePreview,
+  StyleProfileAdjustment,
   UserPreferences,
   AuthResponse,
   LoginRequest,
   RegisterRequest,
   PaginatedResponse,
   StyleProfile,
+  StyleProfileDraft,
+  PublicStyleProfile,
+  StyleGallerySort,
+  StyleProfileReport,
+  StyleProfileReportReason,
   Citation,
   ApiResponse,
   ArticleCategory,
+  Language,
   ReadingHistory,
   BiasAnalysis,
   EnrichedContext,
   KeyPointsData,
+  ArticleEntity,
+  ArticleClaim,
+  ArticleQuote,
+  ArticleTimelineEntry,
 } from '../types';
 
 class ApiClient {
@@ -96,6 +116,7 @@ class ApiClient {
     offset?: number;
     category?: ArticleCategory;
     sourceId?: string;
+    language?: Language;
     search?: string;
     sortBy?: 'published_at' | 'importance_score' | 'created_at';
     sortOrder?: 'asc' | 'desc';
@@ -134,6 +155,79 @@ class ApiClient {
     return data;
   }
 
+  /**
+   * Rewrite an article over Server-Sent Events, calling onToken as text arrives
+   * and onReplace when a retry replaces the text streamed so far.
+   * Uses fetch because axios cannot read a streaming response body in the browser.
+   */
+  async rewriteArticleStream(
+    articleId: string,
+    styleProfileId: string,
+    onToken: (text: string) => void,
+    onReplace: (text: string) => void,
+    options?: {
+      skipCache?: boolean;
+      includeKeyPoints?: boolean;
+      includeSummary?: boolean;
+    }
+  ): Promise<RewrittenArticle> {
+    const token = localStorage.getItem('auth_token');
+    const response = await fetch(`/api/articles/${articleId}/rewrite/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ styleProfileId, ...options }),
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error?.message || 'Failed to rewrite article');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let event = 'message';
+        let data = '';
+        for (const line of rawEvent.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+
+        if (!data) continue;
+        const payload = JSON.parse(data);
+
+        if (event === 'token') {
+          onToken(payload.text);
+        } else if (event === 'replace') {
+          onReplace(payload.text);
+        } else if (event === 'complete') {
+          return payload as RewrittenArticle;
+        } else if (event === 'error') {
+          throw new Error(payload.message || 'Failed to rewrite article');
+        }
+      }
+    }
+
+    throw new Error('Rewrite stream ended unexpectedly');
+  }
+
   async getRewrittenArticle(
     articleId: string,
     styleProfileId: string
@@ -166,6 +260,53 @@ class ApiClient {
     await this.client.delete(`/articles/rewritten/${id}`);
   }
 
+  async getRewriteVersions(rewrittenArticleId: string): Promise<RewriteVersion[]> {
+    const { data } = await this.client.get<RewriteVersion[]>(
+      `/articles/rewritten/${rewrittenArticleId}/versions`
+    );
+    return data;
+  }
+
+  async restoreRewriteVersion(
+    rewrittenArticleId: string,
+    version: number
+  ): Promise<RewrittenArticle> {
+    const { data } = await this.client.post<RewrittenArticle>(
+      `/articles/rewritten/${rewrittenArticleId}/versions/${version}/restore`
+    );
+    return data;
+  }
+
+  async getRewriteDiff(
+    rewrittenArticleId: string,
+    from: 'original' | number,
+    to?: number
+  ): Promise<RewriteDiff> {
+    const { data } = await this.client.get<RewriteDiff>(
+      `/articles/rewritten/${rewrittenArticleId}/diff`,
+      { params: { from, to } }
+    );
+    return data;
+  }
+
+  async getRewriteFeedback(rewrittenArticleId: string): Promise<RewriteFeedback | null> {
+    const { data } = await this.client.get<RewriteFeedback | null>(
+      `/articles/rewritten/${rewrittenArticleId}/feedback`
+    );
+    return data;
+  }
+
+  async submitRewriteFeedback(
+    rewrittenArticleId: string,
+    feedback: SubmitRewriteFeedbackRequest
+  ): Promise<RewriteFeedback> {
+    const { data } = await this.client.post<RewriteFeedback>(
+      `/articles/rewritten/${rewrittenArticleId}/feedback`,
+      feedback
+    );
+    return data;
+  }
+
   // AI Features
   async analyzeBias(articleId: string): Promise<BiasAnalysis> {
     const { data } = await this.client.post<BiasAnalysis>(
@@ -190,15 +331,80 @@ class ApiClient {
     return data;
   }
 
+  async getEntities(articleId: string): Promise<ArticleEntity[]> {
+    const { data } = await this.client.get<{ entities: ArticleEntity[]; count: number }>(
+      `/articles/${articleId}/entities`
+    );
+    return data.entities;
+  }
+
+  async getClaims(articleId: string): Promise<ArticleClaim[]> {
+    const { data } = await this.client.get<{ claims: ArticleClaim[]; count: number }>(
+      `/articles/${articleId}/claims`
+    );
+    return data.claims;
+  }
+
+  async getQuotes(articleId: string): Promise<ArticleQuote[]> {
+    const { data } = await this.client.get<{ quotes: ArticleQuote[]; count: number }>(
+      `/articles/${articleId}/quotes`
+    );
+    return data.quotes;
+  }
+
+  async getTimeline(articleId: string): Promise<ArticleTimelineEntry[]> {
+    const { data } = await this.client.get<{ entries: ArticleTimelineEntry[]; count: number }>(
+      `/articles/${articleId}/timeline`
+    );
+    return data.entries;
+  }
+
   // Style Profiles
   async getStyleProfiles(): Promise<StyleProfile[]> {
     const { data } = await this.client.get<StyleProfile[]>('/style-profiles');
     return data;
   }
 
-  async getPublicStyleProfiles(limit?: number): Promise<StyleProfile[]> {
-    const { data } = await this.client.get<StyleProfile[]>('/style-profiles/public', {
-      params: { limit },
+  async getPublicStyleProfiles(params?: {
+    search?: string;
+    tags?: string[];
+    sort?: StyleGallerySort;
+    limit?: number;
+    offset?: number;
+  }): Promise<PaginatedResponse<PublicStyleProfile>> {
+    const { data } = await this.client.get<{
+      profiles: PublicStyleProfile[];
+      pagination: PaginatedResponse<PublicStyleProfile>['pagination'];
+    }>('/style-profiles/public', {
+      params: { ...params, tags: params?.tags?.length ? params.tags.join(',') : undefined },
+    });
+
+    return {
+      data: data.profiles,
+      pagination: data.pagination,
+    };
+  }
+
+  async forkStyleProfile(id: string, name?: string): Promise<StyleProfile> {
+    const { data } = await this.client.post<StyleProfile>(`/style-profiles/${id}/fork`, { name });
+    return data;
+  }
+
+  async rateStyleProfile(id: string, rating: number): Promise<PublicStyleProfile> {
+    const { data } = await this.client.post<PublicStyleProfile>(`/style-profiles/${id}/rating`, {
+      rating,
+    });
+    return data;
+  }
+
+  async reportStyleProfile(
+    id: string,
+    reason: StyleProfileReportReason,
+    details?: string
+  ): Promise<StyleProfileReport> {
+    const { data } = await this.client.post<StyleProfileReport>(`/style-profiles/${id}/report`, {
+      reason,
+      details,
     });
     return data;
   }
@@ -209,15 +415,29 @@ class ApiClient {
   }
 
   async createStyleProfile(
-    profile: Omit<StyleProfile, 'id' | 'userId' | 'usageCount' | 'createdAt' | 'updatedAt'>
+    profile: Omit<StyleProfileDraft, 'autoTune' | 'tags'> &
+      Partial<Pick<StyleProfileDraft, 'autoTune' | 'tags'>>
   ): Promise<StyleProfile> {
     const { data } = await this.client.post<StyleProfile>('/style-profiles', profile);
     return data;
   }
 
+  async learnStyleProfile(request: LearnStyleProfileRequest): Promise<LearnedStyleProfile> {
+    const { data } = await this.client.post<LearnedStyleProfile>('/style-profiles/learn', request);
+    return data;
+  }
+
+  async previewStyleProfile(settings: StylePreviewRequest): Promise<StyleProfilePreview> {
+    const { data } = await this.client.post<StyleProfilePreview>('/style-profiles/preview', settings);
+    return data;
+  }
+
   async updateStyleProfile(
     id: string,
-    updates: Partial<StyleProfile>
+    updates: Partial<Omit<StyleProfile, 'targetLanguage'>> & {
+      /** null goes back to the article's language */
+      targetLanguage?: Language | null;
+    }
   ): Promise<StyleProfile> {
     const { data } = await this.client.put<StyleProfile>(`/style-profiles/${id}`, updates);
     return data;
@@ -227,6 +447,19 @@ class ApiClient {
     await this.client.delete(`/style-profiles/${id}`);
   }
 
+  async getStyleFeedbackSummary(id: string): Promise<StyleFeedbackSummary> {
+    const { data } = await this.client.get<StyleFeedbackSummary>(`/style-profiles/${id}/feedback`);
+    return data;
+  }
+
+  async getStyleAdjustments(id: string, limit?: number): Promise<StyleProfileAdjustment[]> {
+    const { data } = await this.client.get<StyleProfileAdjustment[]>(
+      `/style-profiles/${id}/adjustments`,
+      { params: { limit } }
+    );
+    return data;
+  }
+
   // User Preferences
   async getPreferences(): Promise<UserPreferences> {
     const { data } = await this.client.get<UserPreferences>('/user/preferences');
@@ -21,6 +21,26 @@ export enum PredefinedStyle {
   CASUAL = 'casual',
 }
 
+export enum Language {
+  ENGLISH = 'en',
+  SPANISH = 'es',
+  FRENCH = 'fr',
+  GERMAN = 'de',
+  ITALIAN = 'it',
+  PORTUGUESE = 'pt',
+  DUTCH = 'nl',
+}
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  [Language.ENGLISH]: 'English',
+  [Language.SPANISH]: 'Spanish',
+  [Language.FRENCH]: 'French',
+  [Language.GERMAN]: 'German',
+  [Language.ITALIAN]: 'Italian',
+  [Language.PORTUGUESE]: 'Portuguese',
+  [Language.DUTCH]: 'Dutch',
+};
+
 // API Response wrapper
 export interface ApiResponse<T> {
   success: boolean;
@@ -51,6 +71,14 @@ export interface Source {
   updatedAt: string;
 }
 
+export interface Readability {
+  /** Flesch-Kincaid grade: years of US schooling needed to follow the text */
+  grade: number;
+  averageSentenceLength: number;
+  /** Share of words of three or more syllables */
+  rareWordRatio: number;
+}
+
 export interface Article {
   id: string;
   sourceId: string;
@@ -62,9 +90,18 @@ export interface Article {
   category: ArticleCategory;
   imageUrl?: string;
   importanceScore?: number;
+  /** Language the article was written in, when it could be detected */
+  language?: Language;
+  /** Only measured for English articles */
+  readability?: Readability;
   createdAt: string;
   updatedAt: string;
   source?: Source;
+  /** Headline and teaser from the reader's rewrite in their default style, in feeds */
+  styledHeadline?: {
+    headline: string;
+    teaser: string;
+  };
 }
 
 export interface StyleProfile {
@@ -79,13 +116,92 @@ export interface StyleProfile {
   technicalLevel: number;
   includeContext: boolean;
   includeKeyPoints: boolean;
+  /** Language rewrites are written in; unset keeps the article's */
+  targetLanguage?: Language;
   isDefault: boolean;
   isPublic: boolean;
+  autoTune: boolean;
+  feedbackGuidance?: string;
+  tags: string[];
+  forkedFromId?: string;
+  originalAuthorId?: string;
+  moderationStatus: 'visible' | 'under_review' | 'removed';
   usageCount: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type StyleProfileDraft = Omit<
+  StyleProfile,
+  | 'id'
+  | 'userId'
+  | 'feedbackGuidance'
+  | 'forkedFromId'
+  | 'originalAuthorId'
+  | 'moderationStatus'
+  | 'usageCount'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+export interface PublicStyleProfile extends StyleProfile {
+  authorName: string;
+  /** Set for forks: who wrote the profile the fork chain started from */
+  originalAuthorName?: string;
+  ratingAverage?: number;
+  ratingCount: number;
+  forkCount: number;
+  /** Rewrites made with the profile in the last 7 days */
+  weeklyUsage: number;
+}
+
+export type StyleGallerySort = 'trending' | 'top_rated' | 'most_used' | 'newest';
+
+export type StyleProfileReportReason = 'abusive' | 'harmful_instructions' | 'spam' | 'other';
+
+export interface StyleProfileReport {
+  id: string;
+  styleProfileId: string;
+  reporterId: string;
+  reason: StyleProfileReportReason;
+  details?: string;
+  status: 'open' | 'dismissed' | 'actioned';
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+}
+
+export interface LearnStyleProfileRequest {
+  samples: string[];
+  name?: string;
+  previewArticleId?: string;
+}
+
+export interface StyleProfilePreview {
+  articleId?: string;
+  title: string;
+  originalExcerpt: string;
+  rewrittenContent: string;
+  cached?: boolean;
+}
+
+export type StylePreviewRequest = Pick<
+  StyleProfile,
+  | 'predefinedStyle'
+  | 'customPrompt'
+  | 'tone'
+  | 'length'
+  | 'technicalLevel'
+  | 'includeContext'
+  | 'includeKeyPoints'
+  | 'targetLanguage'
+>;
+
+export interface LearnedStyleProfile {
+  draft: StyleProfileDraft;
+  preview?: StyleProfilePreview;
+}
+
 export interface RewrittenArticle {
   id: string;
   articleId: string;
@@ -94,20 +210,112 @@ export interface RewrittenArticle {
   rewrittenContent: string;
   summary?: string;
   keyPoints?: string[];
+  headline?: string;
+  teaser?: string;
+  readability?: Readability;
   processingTimeMs?: number;
   aiCost?: number;
+  /** Number of the version currently shown */
+  version?: number;
   createdAt: string;
   article?: Article;
   citations?: Citation[];
 }
 
-export interface Citation {
+export interface RewriteVersion {
   id: string;
   rewrittenArticleId: string;
+  versionNumber: number;
+  rewrittenContent: string;
+  summary?: string;
+  keyPoints?: string[];
+  headline?: string;
+  teaser?: string;
+  readability?: Readability;
+  processingTimeMs?: number;
+  aiCost?: number;
+  aiProvider?: string;
+  aiModel?: string;
+  promptVersions?: Record<string, number>;
+  fidelityScore?: number;
+  isCurrent: boolean;
+  createdAt: string;
+}
+
+export interface TextDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface RewriteDiff {
+  from: 'original' | number;
+  to: number;
+  segments: TextDiffSegment[];
+}
+
+export type RewriteFeedbackReason =
+  | 'too_long'
+  | 'too_short'
+  | 'too_technical'
+  | 'too_simple'
+  | 'missed_key_fact'
+  | 'inaccurate'
+  | 'wrong_tone';
+
+export interface RewriteFeedback {
+  id: string;
+  rewrittenArticleId: string;
+  userId: string;
+  styleProfileId: string;
+  thumbsUp: boolean;
+  rating?: number;
+  reasons: RewriteFeedbackReason[];
+  comment?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SubmitRewriteFeedbackRequest {
+  thumbsUp: boolean;
+  rating?: number;
+  reasons: RewriteFeedbackReason[];
+  comment?: string;
+}
+
+export interface StyleFeedbackSummary {
+  styleProfileId: string;
+  totalFeedback: number;
+  thumbsUp: number;
+  thumbsDown: number;
+  averageRating?: number;
+  reasonCounts: Record<RewriteFeedbackReason, number>;
+}
+
+export interface StyleProfileAdjustment {
+  id: string;
+  styleProfileId: string;
+  field: 'length' | 'technicalLevel' | 'feedbackGuidance';
+  previousValue?: string;
+  newValue?: string;
+  reason: string;
+  feedbackCount: number;
+  createdAt: string;
+}
+
+export interface Citation {
+  id: string;
+  rewrittenArticleId?: string;
+  synthesisId?: string;
   sourceArticleId?: string;
+  /** Supporting sentence from the source article */
   text: string;
   url?: string;
+  /** Character offset in the rewritten content where the marker goes (-1 for the source itself) */
   position: number;
+  paragraphIndex?: number;
+  /** Character range of the supporting sentence in the article's original content */
+  originalStart?: number;
+  originalEnd?: number;
   createdAt: string;
 }
 
@@ -185,6 +393,20 @@ export interface BiasAnalysis {
   alternativePerspectives?: string[];
 }
 
+export interface ArticleTimelineEntry {
+  id: string;
+  articleId: string;
+  /** YYYY, YYYY-MM or YYYY-MM-DD, as precise as the source article allows */
+  date: string;
+  event: string;
+  /** Article the event was reported in, which may be the timeline's own article */
+  sourceArticleId: string;
+  sourceArticleTitle: string;
+  sourceName: string;
+  sourcePublishedAt: string;
+  createdAt: string;
+}
+
 export interface EnrichedContext {
   originalContent: string;
   enrichedContent: string;
@@ -195,3 +417,38 @@ export interface KeyPointsData {
   keyPoints: string[];
   count: number;
 }
+
+export type EntityType = 'person' | 'organization' | 'place';
+
+export interface ArticleEntity {
+  id: string;
+  articleId: string;
+  name: string;
+  type: EntityType;
+  /** What the entity is or does in the story */
+  role: string;
+  createdAt: string;
+}
+
+export interface ArticleClaim {
+  id: string;
+  articleId: string;
+  text: string;
+  claimant?: string;
+  checkWorthiness: SeverityLevel;
+  reason: string;
+  originalStart?: number;
+  originalEnd?: number;
+  createdAt: string;
+}
+
+export interface ArticleQuote {
+  id: string;
+  articleId: string;
+  text: string;
+  speaker: string;
+  speakerRole?: string;
+  originalStart: number;
+  originalEnd: number;
+  createdAt: string;
+}
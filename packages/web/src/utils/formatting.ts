@@ -9,6 +9,14 @@ export const formatDate = (date: string | Date): string => {
   return format(new Date(date), 'MMM d, yyyy');
 };
 
+/** Format a YYYY, YYYY-MM or YYYY-MM-DD date only as precisely as it is given */
+export const formatPartialDate = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  if (day) return format(new Date(year, month - 1, day), 'MMM d, yyyy');
+  if (month) return format(new Date(year, month - 1), 'MMM yyyy');
+  return String(year);
+};
+
 export const formatReadingTime = (minutes: number): string => {
   if (minutes < 1) return 'Less than a minute';
   if (minutes === 1) return '1 minute';